@@ -0,0 +1,69 @@
+/*
+  Warnings:
+  - The messages column of AgentSession will be removed.
+  - Existing messages are migrated into the new AgentMessage table, one row per message.
+*/
+
+-- CreateTable
+CREATE TABLE "AgentMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentSessionId" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AgentMessage_agentSessionId_fkey" FOREIGN KEY ("agentSessionId") REFERENCES "AgentSession" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentMessage_agentSessionId_seq_key" ON "AgentMessage"("agentSessionId", "seq");
+
+-- Migrate existing messages
+-- 旧数据中 messages 既可能是 JSON 数组，也可能是被 JSON.stringify 过的字符串
+INSERT INTO "AgentMessage" ("id", "agentSessionId", "seq", "type", "payload", "createdAt", "updatedAt")
+SELECT
+    'c' || lower(hex(randomblob(12))),
+    s."id",
+    CAST(m."key" AS INTEGER),
+    COALESCE(json_extract(m."value", '$.type'), 'unknown'),
+    m."value",
+    s."createdAt",
+    s."updatedAt"
+FROM "AgentSession" s,
+    json_each(
+        CASE WHEN json_type(s."messages") = 'text'
+            THEN json_extract(s."messages", '$')
+            ELSE s."messages"
+        END
+    ) m
+WHERE json_valid(s."messages")
+    AND (json_type(s."messages") <> 'text' OR json_valid(json_extract(s."messages", '$')))
+    AND m."type" = 'object';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AgentSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "bullJobId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AgentSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AgentSession_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_AgentSession" ("id", "sessionId", "workspaceId", "userId", "title", "bullJobId", "createdAt", "updatedAt") SELECT "id", "sessionId", "workspaceId", "userId", "title", "bullJobId", "createdAt", "updatedAt" FROM "AgentSession";
+DROP TABLE "AgentSession";
+ALTER TABLE "new_AgentSession" RENAME TO "AgentSession";
+CREATE UNIQUE INDEX "AgentSession_sessionId_key" ON "AgentSession"("sessionId");
+CREATE UNIQUE INDEX "AgentSession_bullJobId_key" ON "AgentSession"("bullJobId");
+CREATE INDEX "AgentSession_workspaceId_userId_idx" ON "AgentSession"("workspaceId", "userId");
+CREATE INDEX "AgentSession_createdAt_idx" ON "AgentSession"("createdAt");
+CREATE INDEX "AgentSession_bullJobId_idx" ON "AgentSession"("bullJobId");
+CREATE INDEX "AgentSession_sessionId_idx" ON "AgentSession"("sessionId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "WorkspaceAgentConfig" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "model" TEXT,
+    "maxTurns" INTEGER NOT NULL DEFAULT 30,
+    "permissionMode" TEXT NOT NULL DEFAULT 'bypassPermissions',
+    "allowedTools" JSONB NOT NULL DEFAULT '[]',
+    "disallowedTools" JSONB NOT NULL DEFAULT '[]',
+    "systemPrompt" TEXT NOT NULL DEFAULT '',
+    "language" TEXT NOT NULL DEFAULT 'zh-CN',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WorkspaceAgentConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceAgentConfig_workspaceId_key" ON "WorkspaceAgentConfig"("workspaceId");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ToolPermissionRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentSessionId" TEXT NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "toolUseId" TEXT,
+    "input" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "alwaysAllow" BOOLEAN NOT NULL DEFAULT false,
+    "decidedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "decidedAt" DATETIME,
+    CONSTRAINT "ToolPermissionRequest_agentSessionId_fkey" FOREIGN KEY ("agentSessionId") REFERENCES "AgentSession" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ToolPermissionRequest_agentSessionId_status_idx" ON "ToolPermissionRequest"("agentSessionId", "status");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "WorkspaceAgentConfig" ADD COLUMN "commandPolicy" JSONB;
+
+-- CreateTable
+CREATE TABLE "CommandPolicyLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "agentSessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "command" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CommandPolicyLog_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CommandPolicyLog_workspaceId_createdAt_idx" ON "CommandPolicyLog"("workspaceId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WorkspaceAgentConfig" ADD COLUMN "allowedDomains" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentSessionId" TEXT,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "model" TEXT,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "cacheReadTokens" INTEGER NOT NULL DEFAULT 0,
+    "cacheCreationTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" REAL NOT NULL DEFAULT 0,
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "durationApiMs" INTEGER NOT NULL DEFAULT 0,
+    "numTurns" INTEGER NOT NULL DEFAULT 0,
+    "resultSubtype" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "UsageRecord_agentSessionId_fkey" FOREIGN KEY ("agentSessionId") REFERENCES "AgentSession" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "UsageRecord_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "UsageRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_agentSessionId_idx" ON "UsageRecord"("agentSessionId");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_workspaceId_createdAt_idx" ON "UsageRecord"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_userId_createdAt_idx" ON "UsageRecord"("userId", "createdAt");
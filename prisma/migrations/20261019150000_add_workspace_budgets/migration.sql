@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WorkspaceBudget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workspaceId" TEXT NOT NULL,
+    "workspaceDailyTokens" INTEGER,
+    "workspaceMonthlyTokens" INTEGER,
+    "workspaceDailyCostUsd" REAL,
+    "workspaceMonthlyCostUsd" REAL,
+    "userDailyTokens" INTEGER,
+    "userMonthlyTokens" INTEGER,
+    "userDailyCostUsd" REAL,
+    "userMonthlyCostUsd" REAL,
+    "hardCap" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WorkspaceBudget_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceBudget_workspaceId_key" ON "WorkspaceBudget"("workspaceId");
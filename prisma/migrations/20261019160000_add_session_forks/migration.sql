@@ -0,0 +1,31 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AgentSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "bullJobId" TEXT,
+    "parentId" TEXT,
+    "forkedFromSessionId" TEXT,
+    "forkedAtMessageId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AgentSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AgentSession_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AgentSession_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "AgentSession" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_AgentSession" ("id", "sessionId", "workspaceId", "userId", "title", "bullJobId", "createdAt", "updatedAt") SELECT "id", "sessionId", "workspaceId", "userId", "title", "bullJobId", "createdAt", "updatedAt" FROM "AgentSession";
+DROP TABLE "AgentSession";
+ALTER TABLE "new_AgentSession" RENAME TO "AgentSession";
+CREATE UNIQUE INDEX "AgentSession_sessionId_key" ON "AgentSession"("sessionId");
+CREATE UNIQUE INDEX "AgentSession_bullJobId_key" ON "AgentSession"("bullJobId");
+CREATE INDEX "AgentSession_workspaceId_userId_idx" ON "AgentSession"("workspaceId", "userId");
+CREATE INDEX "AgentSession_createdAt_idx" ON "AgentSession"("createdAt");
+CREATE INDEX "AgentSession_bullJobId_idx" ON "AgentSession"("bullJobId");
+CREATE INDEX "AgentSession_sessionId_idx" ON "AgentSession"("sessionId");
+CREATE INDEX "AgentSession_parentId_idx" ON "AgentSession"("parentId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,65 @@
+-- 会话消息全文索引（FTS5，trigram 分词以支持中文子串搜索）
+-- Prisma 不支持虚拟表，索引由 AgentMessage 上的触发器维护：
+-- 索引用户提示、assistant 文本和工具调用（工具名 + 输入）
+CREATE VIRTUAL TABLE "AgentMessageSearch" USING fts5(
+    "content",
+    "messageId" UNINDEXED,
+    "agentSessionId" UNINDEXED,
+    "seq" UNINDEXED,
+    tokenize = 'trigram'
+);
+
+CREATE TRIGGER "AgentMessage_search_insert" AFTER INSERT ON "AgentMessage"
+WHEN (
+    CASE
+        WHEN NEW."type" = 'user' THEN json_type(NEW."payload", '$.message.content') = 'text'
+        ELSE NEW."type" = 'assistant'
+    END
+)
+BEGIN
+    INSERT INTO "AgentMessageSearch" ("content", "messageId", "agentSessionId", "seq")
+    SELECT "content", NEW."id", NEW."agentSessionId", NEW."seq"
+    FROM (
+        SELECT CASE
+            WHEN NEW."type" = 'user' THEN json_extract(NEW."payload", '$.message.content')
+            ELSE (
+                SELECT group_concat(
+                    CASE json_extract("value", '$.type')
+                        WHEN 'text' THEN json_extract("value", '$.text')
+                        WHEN 'tool_use' THEN json_extract("value", '$.name') || ' ' || json(json_extract("value", '$.input'))
+                    END,
+                    char(10)
+                )
+                FROM json_each(NEW."payload", '$.message.content')
+            )
+        END AS "content"
+    )
+    WHERE "content" IS NOT NULL AND "content" <> '';
+END;
+
+CREATE TRIGGER "AgentMessage_search_delete" AFTER DELETE ON "AgentMessage"
+BEGIN
+    DELETE FROM "AgentMessageSearch" WHERE "messageId" = OLD."id";
+END;
+
+-- 为已有消息建立索引
+INSERT INTO "AgentMessageSearch" ("content", "messageId", "agentSessionId", "seq")
+SELECT "content", "id", "agentSessionId", "seq"
+FROM (
+    SELECT m."id", m."agentSessionId", m."seq", CASE
+        WHEN m."type" = 'user' AND json_type(m."payload", '$.message.content') = 'text'
+            THEN json_extract(m."payload", '$.message.content')
+        WHEN m."type" = 'assistant' THEN (
+            SELECT group_concat(
+                CASE json_extract("value", '$.type')
+                    WHEN 'text' THEN json_extract("value", '$.text')
+                    WHEN 'tool_use' THEN json_extract("value", '$.name') || ' ' || json(json_extract("value", '$.input'))
+                END,
+                char(10)
+            )
+            FROM json_each(m."payload", '$.message.content')
+        )
+    END AS "content"
+    FROM "AgentMessage" m
+)
+WHERE "content" IS NOT NULL AND "content" <> '';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AgentSession" ADD COLUMN "archivedAt" DATETIME;
+ALTER TABLE "AgentSession" ADD COLUMN "pinnedAt" DATETIME;
+ALTER TABLE "AgentSession" ADD COLUMN "summary" TEXT;
+ALTER TABLE "AgentSession" ADD COLUMN "titleEdited" BOOLEAN NOT NULL DEFAULT false;
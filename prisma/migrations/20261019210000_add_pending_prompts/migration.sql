@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "PendingPrompt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "agentSessionId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PendingPrompt_agentSessionId_fkey" FOREIGN KEY ("agentSessionId") REFERENCES "AgentSession" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PendingPrompt_agentSessionId_createdAt_idx" ON "PendingPrompt"("agentSessionId", "createdAt");
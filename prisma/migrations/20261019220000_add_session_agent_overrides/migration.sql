@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AgentSession" ADD COLUMN "model" TEXT;
+ALTER TABLE "AgentSession" ADD COLUMN "permissionMode" TEXT;
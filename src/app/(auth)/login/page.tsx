@@ -57,10 +57,16 @@ export default function LoginPage() {
     setLoginLoading(true);
     setError("");
     try {
+      // 只接受站内相对路径，避免开放重定向
+      const callbackUrl =
+        new URLSearchParams(window.location.search).get("callbackUrl") ?? "/";
       const result = await signIn("credentials", {
         email: values.email,
         password: values.password,
-        callbackUrl: "/",
+        callbackUrl:
+          callbackUrl.startsWith("/") && !callbackUrl.startsWith("//")
+            ? callbackUrl
+            : "/",
         remember: values.remember,
       });
 
@@ -0,0 +1,302 @@
+"use client";
+
+import { toast } from "sonner";
+import {
+  ArrowUpToLine,
+  Clock,
+  Loader2,
+  PlayCircle,
+  RotateCcw,
+  Server,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { formatDuration } from "~/lib/usage-utils";
+import type { QueueJobInfo, QueueJobState } from "~/types/queue";
+
+// 队列概览自动刷新间隔
+const REFRESH_INTERVAL_MS = 5000;
+
+const STATE_TEXT: Record<QueueJobState, string> = {
+  active: "运行中",
+  waiting: "等待中",
+  prioritized: "等待中（优先级）",
+  delayed: "延迟",
+  failed: "失败",
+};
+
+const STATE_VARIANT: Record<
+  QueueJobState,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  active: "default",
+  waiting: "secondary",
+  prioritized: "secondary",
+  delayed: "outline",
+  failed: "destructive",
+};
+
+export default function AdminQueuePage() {
+  const utils = api.useUtils();
+  const { data, isLoading, error } = api.admin.getQueue.useQuery(undefined, {
+    refetchInterval: REFRESH_INTERVAL_MS,
+    retry: false,
+  });
+
+  const mutationOptions = (successText: string) => ({
+    onSuccess: () => {
+      toast.success(successText);
+      void utils.admin.getQueue.invalidate();
+    },
+    onError: (err: { message: string }) => toast.error(err.message),
+  });
+
+  const retryMutation = api.admin.retryJob.useMutation(
+    mutationOptions("任务已重新入队"),
+  );
+  const removeMutation = api.admin.removeJob.useMutation(
+    mutationOptions("任务已移除"),
+  );
+  const promoteMutation = api.admin.promoteJob.useMutation(
+    mutationOptions("任务已移到队首"),
+  );
+
+  const isMutating =
+    retryMutation.isPending ||
+    removeMutation.isPending ||
+    promoteMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="py-12 text-center">
+        <p className="text-red-500">
+          {error?.data?.code === "FORBIDDEN"
+            ? "需要管理员权限"
+            : "加载队列数据失败"}
+        </p>
+      </div>
+    );
+  }
+
+  const summary = [
+    { title: "运行中", value: data.counts.active, icon: PlayCircle },
+    {
+      title: "等待中",
+      value: data.counts.waiting + data.counts.prioritized,
+      icon: Clock,
+    },
+    { title: "延迟", value: data.counts.delayed, icon: ArrowUpToLine },
+    { title: "失败", value: data.counts.failed, icon: XCircle },
+  ];
+
+  const handleRemove = (job: QueueJobInfo) => {
+    const text =
+      job.state === "active"
+        ? "确定中断这个正在运行的任务吗？"
+        : "确定从队列中移除这个任务吗？";
+    if (!confirm(text)) return;
+    removeMutation.mutate({ jobId: job.id });
+  };
+
+  return (
+    <div className="container mx-auto max-w-7xl p-6">
+      <div className="mb-8">
+        <h1 className="mb-2 text-3xl font-bold">任务队列</h1>
+        <p className="text-gray-600">
+          agent-tasks 队列中运行中、等待中、延迟和失败的任务，每{" "}
+          {REFRESH_INTERVAL_MS / 1000} 秒自动刷新
+          {data.averageDurationMs !== null &&
+            `，最近任务平均耗时 ${formatDuration(data.averageDurationMs)}`}
+        </p>
+      </div>
+
+      <div className="mb-6 grid grid-cols-2 gap-4 md:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                {item.title}
+              </CardTitle>
+              <item.icon className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{item.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Worker</CardTitle>
+          <CardDescription>通过心跳上报的存活 worker 进程</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.workers.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              没有存活的 worker，排队中的任务不会被执行
+            </p>
+          ) : (
+            <div className="divide-y">
+              {data.workers.map((worker) => (
+                <div
+                  key={worker.instanceId}
+                  className="flex items-center justify-between gap-4 py-2 text-sm"
+                >
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Server className="text-muted-foreground h-4 w-4 shrink-0" />
+                    <span className="truncate font-mono">
+                      {worker.hostname}:{worker.pid}
+                    </span>
+                    {worker.embedded && <Badge variant="outline">内嵌</Badge>}
+                    {worker.status === "draining" && (
+                      <Badge variant="secondary">排空中</Badge>
+                    )}
+                  </div>
+                  <span className="text-muted-foreground shrink-0">
+                    {worker.activeJobs.length} / {worker.concurrency}{" "}
+                    个槽位使用中
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>任务</CardTitle>
+          <CardDescription>
+            等待中的任务按 worker 领取顺序排列，提前执行会将任务移到队首
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.jobs.length === 0 ? (
+            <p className="text-muted-foreground text-sm">队列中没有任务</p>
+          ) : (
+            <div className="divide-y">
+              {data.jobs.map((job) => (
+                <div
+                  key={job.id}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATE_VARIANT[job.state]}>
+                        {STATE_TEXT[job.state]}
+                      </Badge>
+                      {job.position !== null && (
+                        <span className="text-muted-foreground text-xs">
+                          第 {job.position} 位
+                        </span>
+                      )}
+                      <span className="truncate text-sm font-medium">
+                        {job.title ??
+                          (job.scheduledTaskId
+                            ? "定时任务（未开始）"
+                            : "未知会话")}
+                      </span>
+                    </div>
+                    <p className="text-muted-foreground flex flex-wrap gap-x-3 text-xs">
+                      <span className="font-mono">{job.id}</span>
+                      {job.priority > 0 && <span>优先级 {job.priority}</span>}
+                      {job.workspaceName && <span>{job.workspaceName}</span>}
+                      {job.userName && <span>{job.userName}</span>}
+                      <span>
+                        入队 {new Date(job.timestamp).toLocaleString()}
+                      </span>
+                      {job.state === "active" && job.processedOn && (
+                        <span>
+                          已运行 {formatDuration(Date.now() - job.processedOn)}
+                        </span>
+                      )}
+                      {job.delayUntil && (
+                        <span>
+                          计划于 {new Date(job.delayUntil).toLocaleString()}
+                        </span>
+                      )}
+                      {job.attemptsMade > 0 && (
+                        <span>已尝试 {job.attemptsMade} 次</span>
+                      )}
+                    </p>
+                    {job.failedReason && (
+                      <p
+                        className="text-destructive truncate text-xs"
+                        title={job.failedReason}
+                      >
+                        {job.failedReason}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-1">
+                    {job.state === "failed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryMutation.mutate({ jobId: job.id })}
+                        disabled={isMutating}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        重试
+                      </Button>
+                    )}
+                    {(job.state === "waiting" ||
+                      job.state === "prioritized" ||
+                      job.state === "delayed") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          promoteMutation.mutate({ jobId: job.id })
+                        }
+                        disabled={isMutating}
+                      >
+                        <ArrowUpToLine className="mr-1 h-3 w-3" />
+                        提前
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="hover:bg-destructive/10 hover:text-destructive"
+                      onClick={() => handleRemove(job)}
+                      disabled={isMutating}
+                      title={job.state === "active" ? "中断" : "移除"}
+                    >
+                      {removeMutation.isPending &&
+                      removeMutation.variables?.jobId === job.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-3 w-3" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
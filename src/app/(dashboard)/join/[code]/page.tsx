@@ -0,0 +1,129 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, Loader2, Users } from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+
+interface JoinPageProps {
+  params: Promise<{
+    code: string;
+  }>;
+}
+
+export default function JoinWorkspacePage({ params }: JoinPageProps) {
+  const { code } = use(params);
+  const router = useRouter();
+  const utils = api.useUtils();
+  const { data: session } = useSession();
+
+  const {
+    data: invite,
+    isLoading,
+    error,
+  } = api.invite.previewInvite.useQuery(
+    { code },
+    { enabled: !!session?.user, retry: false },
+  );
+
+  const redeemMutation = api.invite.redeemInvite.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.alreadyMember ? "您已是该工作空间成员" : "已加入工作空间",
+      );
+      void utils.workspace.getWorkSpaces.invalidate();
+      router.push(`/workspace/${result.workspaceId}?file=`);
+    },
+    onError: (error) => toast.error(error.message || "加入工作空间失败"),
+  });
+
+  return (
+    <div className="flex h-full items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        {isLoading ? (
+          <CardContent className="flex items-center justify-center py-12">
+            <Loader2 className="text-muted-foreground h-6 w-6 animate-spin" />
+          </CardContent>
+        ) : error || !invite ? (
+          <>
+            <CardHeader>
+              <CardTitle>无法加入工作空间</CardTitle>
+              <CardDescription>
+                {error?.message ?? "邀请码无效"}
+              </CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Link href="/" className="w-full">
+                <Button variant="outline" className="w-full">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  返回主页
+                </Button>
+              </Link>
+            </CardFooter>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardDescription>
+                {invite.inviterName ?? "成员"} 邀请您加入
+              </CardDescription>
+              <CardTitle className="text-xl">{invite.workspaceName}</CardTitle>
+              {invite.workspaceDescription && (
+                <CardDescription>{invite.workspaceDescription}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="text-muted-foreground space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                <span>加入后的角色：</span>
+                <Badge variant="outline">
+                  {invite.role === "teacher" ? "教师" : "学生"}
+                </Badge>
+              </div>
+              {invite.expiresAt && (
+                <p>邀请有效期至 {invite.expiresAt.toLocaleString()}</p>
+              )}
+              {invite.currentRole && (
+                <p className="text-foreground">您已是该工作空间成员</p>
+              )}
+            </CardContent>
+            <CardFooter>
+              {invite.currentRole ? (
+                <Link
+                  href={`/workspace/${invite.workspaceId}?file=`}
+                  className="w-full"
+                >
+                  <Button className="w-full">
+                    进入工作空间
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </Link>
+              ) : (
+                <Button
+                  className="w-full"
+                  onClick={() => redeemMutation.mutate({ code })}
+                  disabled={redeemMutation.isPending}
+                >
+                  {redeemMutation.isPending ? "加入中..." : "加入工作空间"}
+                </Button>
+              )}
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
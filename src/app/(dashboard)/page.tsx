@@ -2,6 +2,7 @@
 
 import { WorkspaceCard } from "~/components/workspace/WorkspaceCard";
 import { CreateWorkspaceDialog } from "~/components/shared/dialogs/CreateWorkspaceDialog";
+import { JoinWorkspaceDialog } from "~/components/shared/dialogs/JoinWorkspaceDialog";
 import { useSession } from "next-auth/react";
 import { api } from "~/trpc/react";
 
@@ -30,9 +31,12 @@ function DashboardContent() {
 
   return (
     <div className="p-6">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold tracking-tight">我的工作空间</h1>
-        <p className="text-muted-foreground mt-2">管理和访问您的教研空间</p>
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">我的工作空间</h1>
+          <p className="text-muted-foreground mt-2">管理和访问您的教研空间</p>
+        </div>
+        <JoinWorkspaceDialog />
       </div>
 
       {workspaces.length === 0 ? (
@@ -42,7 +46,7 @@ function DashboardContent() {
           </div>
           <h3 className="mb-2 text-xl font-semibold">还没有工作空间</h3>
           <p className="text-muted-foreground mb-6">
-            创建您的第一个工作空间开始协作
+            创建您的第一个工作空间，或使用邀请码加入已有的工作空间
           </p>
           <CreateWorkspaceDialog />
         </div>
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { api } from "~/trpc/react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Coins, Cpu, Timer, Activity } from "lucide-react";
+import {
+  formatCost,
+  formatDuration,
+  formatTokens,
+  getTotalTokens,
+} from "~/lib/usage-utils";
+import {
+  USAGE_PERIODS,
+  type UsagePeriod,
+  type UsageTotals,
+} from "~/types/usage";
+
+interface UsageRowProps {
+  label: React.ReactNode;
+  totals: UsageTotals;
+  maxCost: number;
+}
+
+// 一行用量：名称 + 费用条 + 明细
+function UsageRow({ label, totals, maxCost }: UsageRowProps) {
+  const width = maxCost > 0 ? (totals.costUsd / maxCost) * 100 : 0;
+
+  return (
+    <div className="space-y-1 py-2">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <div className="min-w-0 flex-1 truncate font-medium">{label}</div>
+        <span className="shrink-0 font-mono">{formatCost(totals.costUsd)}</span>
+      </div>
+      <div className="bg-muted h-1.5 overflow-hidden rounded-full">
+        <div className="bg-primary h-full" style={{ width: `${width}%` }} />
+      </div>
+      <div className="text-muted-foreground flex gap-4 text-xs">
+        <span>{totals.runs} 次运行</span>
+        <span>{formatTokens(getTotalTokens(totals))} tokens</span>
+        <span>{formatDuration(totals.durationMs)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState<UsagePeriod>(30);
+  const { data, isLoading, error } = api.usage.getDashboard.useQuery({ days });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-96 items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="py-12 text-center">
+        <p className="text-red-500">加载用量数据失败</p>
+      </div>
+    );
+  }
+
+  const maxWorkspaceCost = Math.max(
+    0,
+    ...data.byWorkspace.map((item) => item.totals.costUsd),
+  );
+  const maxUserCost = Math.max(
+    0,
+    ...data.byUser.map((item) => item.totals.costUsd),
+  );
+
+  const summary = [
+    { title: "总费用", value: formatCost(data.totals.costUsd), icon: Coins },
+    {
+      title: "Token",
+      value: formatTokens(getTotalTokens(data.totals)),
+      icon: Cpu,
+    },
+    { title: "运行次数", value: String(data.totals.runs), icon: Activity },
+    {
+      title: "运行时长",
+      value: formatDuration(data.totals.durationMs),
+      icon: Timer,
+    },
+  ];
+
+  return (
+    <div className="container mx-auto max-w-7xl p-6">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="mb-2 text-3xl font-bold">用量统计</h1>
+          <p className="text-gray-600">
+            你管理的工作区统计所有成员的用量，其余工作区只统计你自己的用量
+          </p>
+        </div>
+        <Select
+          value={String(days)}
+          onValueChange={(value) => setDays(Number(value) as UsagePeriod)}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {USAGE_PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                最近 {period} 天
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="mb-8 grid grid-cols-2 gap-4 lg:grid-cols-4">
+        {summary.map(({ title, value, icon: Icon }) => (
+          <Card key={title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardDescription>{title}</CardDescription>
+              <Icon className="text-muted-foreground h-4 w-4" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>按工作区</CardTitle>
+            <CardDescription>
+              我的用量：{formatCost(data.mine.costUsd)}，{data.mine.runs} 次运行
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {data.byWorkspace.length === 0 ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">
+                暂无工作区
+              </p>
+            ) : (
+              data.byWorkspace.map((item) => (
+                <UsageRow
+                  key={item.workspaceId}
+                  label={
+                    <Link
+                      href={`/workspace/${item.workspaceId}`}
+                      className="hover:underline"
+                    >
+                      {item.workspaceName}
+                    </Link>
+                  }
+                  totals={item.totals}
+                  maxCost={maxWorkspaceCost}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>按用户</CardTitle>
+            <CardDescription>统计周期内有运行记录的用户</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {data.byUser.length === 0 ? (
+              <p className="text-muted-foreground py-4 text-center text-sm">
+                暂无运行记录
+              </p>
+            ) : (
+              data.byUser.map((item) => (
+                <UsageRow
+                  key={item.userId}
+                  label={item.name ?? item.email ?? "未知用户"}
+                  totals={item.totals}
+                  maxCost={maxUserCost}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -82,6 +82,9 @@ export default function FileBrowser() {
     { enabled: !!session?.user },
   );
 
+  // 学生对文件只有只读权限
+  const readOnly = workspace?.role === "student";
+
   // 获取文件树
   const {
     data: fileTreeData,
@@ -315,22 +318,27 @@ export default function FileBrowser() {
           void refetchFileTree({ cancelRefetch: true });
         },
       },
-      {
-        label: "上传文件",
-        icon: <Upload className="h-4 w-4" />,
-        onClick: () => {
-          setUploadDirectory(currentDir);
-          setIsUploadDialogOpen(true);
+    ];
+
+    if (!readOnly) {
+      options.push(
+        {
+          label: "上传文件",
+          icon: <Upload className="h-4 w-4" />,
+          onClick: () => {
+            setUploadDirectory(currentDir);
+            setIsUploadDialogOpen(true);
+          },
         },
-      },
-      {
-        label: "新建文件夹",
-        icon: <FolderOpen className="h-4 w-4" />,
-        onClick: () => {
-          openCreateFolderDialog(currentDir);
+        {
+          label: "新建文件夹",
+          icon: <FolderOpen className="h-4 w-4" />,
+          onClick: () => {
+            openCreateFolderDialog(currentDir);
+          },
         },
-      },
-    ];
+      );
+    }
 
     setContextMenu({
       x: event.clientX,
@@ -375,7 +383,7 @@ export default function FileBrowser() {
             onOpenChange={setIsUploadDialogOpen}
           >
             <DialogTrigger asChild>
-              <Button variant="outline" size="icon-sm">
+              <Button variant="outline" size="icon-sm" disabled={readOnly}>
                 <Upload className="h-3 w-3" />
               </Button>
             </DialogTrigger>
@@ -488,6 +496,7 @@ export default function FileBrowser() {
                     onCreateFolderIn={openCreateFolderDialog}
                     onUploadToFolder={handleUploadToFolder}
                     onDownloadFile={handleDownloadFile}
+                    readOnly={readOnly}
                   />
                 ))}
               </div>
@@ -3,8 +3,10 @@
 import { use, useState, useEffect, useRef, useCallback } from "react";
 import { useRouter, useSearchParams, usePathname } from "next/navigation";
 import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
 import { ScrollArea } from "~/components/ui/scroll-area";
 import { ChatInput } from "~/components/chat/ChatInput";
+import { RunProgress } from "~/components/chat/RunProgress";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,14 +19,25 @@ import {
   Loader2,
   MessageSquarePlus,
   History,
-  Trash2,
   ArrowDown,
+  FileUp,
+  Search,
+  Archive,
 } from "lucide-react";
 import { api } from "~/trpc/react";
 import { MessageBubble } from "~/components/features/chat/MessageBubble";
+import { PermissionRequestCard } from "~/components/features/chat/PermissionRequestCard";
+import { SessionExportMenu } from "~/components/features/chat/SessionExportMenu";
+import { SessionAgentSettings } from "~/components/features/chat/SessionAgentSettings";
+import { SessionHistoryItem } from "~/components/features/chat/SessionHistoryItem";
 import { SystemInfo } from "~/components/chat/SystemInfo";
 import { useBackgroundQuery } from "~/hooks/use-background-query";
 import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { formatCost, formatDuration } from "~/lib/usage-utils";
+import { isUserPrompt } from "~/lib/agent-messages";
+import type { UsageTotals } from "~/types/usage";
+import type { AgentProgress, JobAttempt, JobErrorKind } from "~/types/queue";
 import type {
   SDKMessage,
   SDKSystemMessage,
@@ -37,10 +50,57 @@ interface Session {
   createdAt: string;
   updatedAt: string;
   status: string;
-  progress: number;
+  queuePosition?: number | null;
+  progress: AgentProgress | null;
   isActive: boolean;
   attemptsMade: number;
   attemptsRemaining: number;
+  attempts?: JobAttempt[];
+  pendingPermissions?: number;
+  usage?: UsageTotals;
+  parentId?: string | null;
+  branchPromptIndex?: number | null;
+  summary?: string | null;
+  pinnedAt?: Date | null;
+  archivedAt?: Date | null;
+}
+
+const ERROR_KIND_TEXT: Record<JobErrorKind, string> = {
+  rate_limit: "API 限流",
+  network: "网络错误",
+  sdk_crash: "Agent 进程异常退出",
+  cancelled: "已取消",
+  budget: "超出预算",
+  unknown: "执行失败",
+};
+
+// 尝试记录说明：每次失败的原因以及是否自动重试
+function describeAttempts(attempts: JobAttempt[]) {
+  return attempts
+    .map((attempt) => {
+      const result = attempt.errorKind
+        ? `${ERROR_KIND_TEXT[attempt.errorKind]}${attempt.willRetry ? "，已自动重试" : ""}`
+        : attempt.finishedAt
+          ? "完成"
+          : "进行中";
+      return `第 ${attempt.attempt} 次${attempt.resumed ? "（恢复会话）" : ""}：${result}`;
+    })
+    .join("\n");
+}
+
+// 排队状态说明：排队位置和预计等待时间
+function describeQueue(
+  position: number | null,
+  estimatedStartAt: number | null,
+) {
+  const parts = ["排队中"];
+  if (position !== null) parts.push(`第 ${position} 位`);
+  if (estimatedStartAt !== null) {
+    parts.push(
+      `预计 ${formatDuration(Math.max(0, estimatedStartAt - Date.now()))} 后开始`,
+    );
+  }
+  return parts.join("，");
 }
 
 interface AgentChatPageProps {
@@ -58,6 +118,14 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
   const [inputMessage, setInputMessage] = useState("");
   const [sessions, setSessions] = useState<Session[]>([]);
   const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [jumpTarget, setJumpTarget] = useState<number | null>(null);
+  const [highlightedMessage, setHighlightedMessage] = useState<number | null>(
+    null,
+  );
+  const jumpTargetRef = useRef<number | null>(null);
 
   // 从URL读取id（数据库主键）
   const currentId = searchParams?.get("id");
@@ -71,9 +139,47 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
       { enabled: !!id },
     );
 
+  // 工作空间信息（用于判断是否可以将导出文件保存到工作区）
+  const { data: workspace } = api.workspace.getWorkSpaceById.useQuery(
+    { workspaceId: id },
+    { enabled: !!id },
+  );
+
+  // 搜索会话消息（输入停止 300ms 后再查询）
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchKeyword(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data: searchResults, isFetching: isSearching } =
+    api.agent.searchMessages.useQuery(
+      { workspaceId: id ?? "", query: searchKeyword },
+      { enabled: !!id && !!searchKeyword },
+    );
+
   // 使用新的 hook
   // id 是 workspaceId，currentId 是要加载的会话 ID（数据库主键）
-  const { messages, isLoading, status, error, sendQuery, cancelQuery, reset, isCancelling } =
+  const {
+    messages,
+    isLoading,
+    status,
+    queuePosition,
+    estimatedStartAt,
+    progress,
+    error,
+    sendQuery,
+    editQuery,
+    cancelQuery,
+    reset,
+    isCancelling,
+    pendingPermissions,
+    respondPermission,
+    pendingPrompts,
+    updatePendingPrompt,
+    removePendingPrompt,
+    sendPendingPrompt,
+    injectPendingPrompt,
+  } =
     useBackgroundQuery(id ?? "", currentId, () => {
       // 当消息完成时，刷新 session 列表
       void refetchSessions();
@@ -99,6 +205,32 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
     },
   });
 
+  // 重命名 / 置顶 / 归档会话
+  const sessionMutationOptions = {
+    onSuccess: () => void refetchSessions(),
+    onError: (error: { message: string }) =>
+      toast.error(error.message || "操作失败"),
+  };
+  const renameSessionMutation = api.agent.renameSession.useMutation(
+    sessionMutationOptions,
+  );
+  const pinSessionMutation = api.agent.pinSession.useMutation(
+    sessionMutationOptions,
+  );
+  const archiveSessionMutation = api.agent.archiveSession.useMutation(
+    sessionMutationOptions,
+  );
+
+  // 从指定消息处创建分支
+  const forkSessionMutation = api.agent.forkSession.useMutation({
+    onSuccess: (fork) => {
+      toast.success("已创建分支会话");
+      void refetchSessions();
+      handleSelectSession(fork.id);
+    },
+    onError: (error) => toast.error(error.message || "创建分支失败"),
+  });
+
   // 切换到指定会话 - 修改URL（使用数据库主键）
   const handleSelectSession = useCallback(
     (selectedId: string) => {
@@ -182,13 +314,41 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
     };
   }, []);
 
-  // 监听消息变化，自动滚动到底部
+  // 监听消息变化，自动滚动到底部（跳转到搜索结果时除外）
   useEffect(() => {
+    if (jumpTargetRef.current !== null) return;
     scrollToBottom();
   }, [messages, isLoading]);
 
+  // 跳转到搜索结果：消息加载完成后滚动到目标消息并短暂高亮
+  useEffect(() => {
+    if (jumpTarget === null || messages.length <= jumpTarget) return;
+
+    document
+      .getElementById(`message-${jumpTarget}`)
+      ?.scrollIntoView({ block: "center" });
+    setHighlightedMessage(jumpTarget);
+    jumpTargetRef.current = null;
+    setJumpTarget(null);
+  }, [messages, jumpTarget]);
+
+  useEffect(() => {
+    if (highlightedMessage === null) return;
+    const timer = setTimeout(() => setHighlightedMessage(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessage]);
+
+  const handleJumpToMessage = (sessionId: string, messageIndex: number) => {
+    jumpTargetRef.current = messageIndex;
+    setJumpTarget(messageIndex);
+    if (sessionId !== currentId) {
+      handleSelectSession(sessionId);
+    }
+  };
+
+  // 运行中发送的提示加入待发送队列，由 sendQuery 处理
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading || !id) return;
+    if (!inputMessage.trim() || (isLoading && !currentId) || !id) return;
 
     const query = inputMessage.trim();
     setInputMessage("");
@@ -200,6 +360,25 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
     }
   };
 
+  // 导入 Claude Code 的 JSONL 会话记录
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importSessionMutation = api.agent.importSession.useMutation({
+    onSuccess: (imported) => {
+      toast.success(`已导入 ${imported.messageCount} 条消息`);
+      void refetchSessions();
+      handleSelectSession(imported.id);
+    },
+    onError: (error) => toast.error(error.message || "导入失败"),
+  });
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !id) return;
+
+    importSessionMutation.mutate({ workspaceId: id, content: await file.text() });
+  };
+
   // 开始新对话
   const handleNewConversation = () => {
     // 移除URL中的id
@@ -228,6 +407,136 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
     }
   };
 
+  // 已归档的会话单独显示，分支会话显示在来源会话下方
+  const activeSessions = sessions.filter((s) => !s.archivedAt);
+  const archivedSessions = sessions.filter((s) => !!s.archivedAt);
+  const sessionTree = (() => {
+    const ids = new Set(activeSessions.map((s) => s.id));
+    const result: Array<{ session: Session; depth: number }> = [];
+    const visit = (session: Session, depth: number) => {
+      result.push({ session, depth });
+      activeSessions
+        .filter((child) => child.parentId === session.id)
+        .forEach((child) => visit(child, depth + 1));
+    };
+    activeSessions
+      .filter((s) => !s.parentId || !ids.has(s.parentId))
+      .forEach((s) => visit(s, 0));
+    return result;
+  })();
+
+  // 当前会话中某条提示的所有分支：先找到最早拥有该提示的会话，再收集在该提示处分出的分支
+  const getPromptBranches = (promptIndex: number) => {
+    const byId = new Map(sessions.map((s) => [s.id, s]));
+    const current = currentId ? byId.get(currentId) : undefined;
+    if (!current) return null;
+
+    let base = current;
+    while (
+      base.parentId &&
+      base.branchPromptIndex != null &&
+      promptIndex <= base.branchPromptIndex &&
+      byId.has(base.parentId)
+    ) {
+      base = byId.get(base.parentId)!;
+    }
+
+    const group: Session[] = [];
+    const collect = (session: Session) => {
+      group.push(session);
+      sessions
+        .filter(
+          (child) =>
+            child.parentId === session.id &&
+            child.branchPromptIndex === promptIndex,
+        )
+        .forEach(collect);
+    };
+    collect(base);
+    if (group.length < 2) return null;
+    group.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    // 当前会话或其最近的祖先即为正在查看的分支
+    let viewing: Session | undefined = current;
+    while (viewing && !group.includes(viewing)) {
+      viewing = viewing.parentId ? byId.get(viewing.parentId) : undefined;
+    }
+
+    return {
+      index: viewing ? group.indexOf(viewing) : 0,
+      total: group.length,
+      onSelect: (index: number) => {
+        const target = group[index];
+        if (target) handleSelectSession(target.id);
+      },
+    };
+  };
+
+  // 每条用户提示在对话中的序号，其他消息为 -1
+  let promptCount = 0;
+  const promptIndexes = messages.map((message) =>
+    isUserPrompt(message) ? promptCount++ : -1,
+  );
+
+  const renderSessionItem = (session: Session, depth: number) => (
+    <SessionHistoryItem
+      key={session.id}
+      title={session.title}
+      summary={session.summary}
+      depth={depth}
+      isCurrent={currentId === session.id}
+      pinned={!!session.pinnedAt}
+      archived={!!session.archivedAt}
+      deleteState={
+        confirmingDelete !== session.id
+          ? "idle"
+          : deleteSessionMutation.isPending
+            ? "deleting"
+            : "confirming"
+      }
+      onSelect={() => handleSelectSession(session.id)}
+      onRename={(title) =>
+        renameSessionMutation.mutate({ id: session.id, title })
+      }
+      onTogglePin={() =>
+        pinSessionMutation.mutate({
+          id: session.id,
+          pinned: !session.pinnedAt,
+        })
+      }
+      onToggleArchive={() =>
+        archiveSessionMutation.mutate({
+          id: session.id,
+          archived: !session.archivedAt,
+        })
+      }
+      onDelete={(e) => handleDeleteSession(session.id, e)}
+    >
+      {formatDate(session.updatedAt)}
+      {!!session.usage?.runs && (
+        <span className="ml-2">{formatCost(session.usage.costUsd)}</span>
+      )}
+      {session.status === "queued" && (
+        <span className="ml-2 text-blue-600">
+          {describeQueue(session.queuePosition ?? null, null)}
+        </span>
+      )}
+      {session.attempts && session.attempts.length > 1 && (
+        <span
+          className="ml-2 text-orange-600"
+          title={describeAttempts(session.attempts)}
+        >
+          已尝试 {session.attempts.length} 次
+        </span>
+      )}
+      {!!session.pendingPermissions && (
+        <span className="ml-2 text-amber-600">
+          {session.pendingPermissions} 个工具调用待审批
+        </span>
+      )}
+    </SessionHistoryItem>
+  );
+
   // 格式化时间
   const formatDate = (dateString: string) => {
     if (!dateString) return "未知时间";
@@ -260,6 +569,21 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
 
   const systemMessage = getSystemMessage();
 
+  // 审批请求通常显示在对应的工具调用下方，找不到对应 tool_use 时单独展示
+  const renderedToolUseIds = new Set(
+    messages.flatMap((msg) =>
+      msg.type === "assistant" && Array.isArray(msg.message.content)
+        ? msg.message.content
+            .filter((item) => item.type === "tool_use")
+            .map((item) => item.id)
+        : [],
+    ),
+  );
+  const unmatchedPermissions = pendingPermissions.filter(
+    (request) =>
+      !request.toolUseId || !renderedToolUseIds.has(request.toolUseId),
+  );
+
   if (!session?.user) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -279,7 +603,28 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
           </div>
 
           <div className="flex gap-1">
-            {systemMessage && <SystemInfo systemMessage={systemMessage} />}
+            {systemMessage && (
+              <SystemInfo
+                systemMessage={systemMessage}
+                usage={sessions.find((s) => s.id === currentId)?.usage}
+              />
+            )}
+
+            {currentId && (
+              <SessionAgentSettings
+                sessionId={currentId}
+                isRunning={isLoading || status === "running"}
+              />
+            )}
+
+            {currentId && (
+              <SessionExportMenu
+                sessionId={currentId}
+                canSaveToWorkspace={
+                  !!workspace && workspace.role !== "student"
+                }
+              />
+            )}
 
             <DropdownMenu
               onOpenChange={(open) => {
@@ -288,6 +633,13 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
                 }
               }}
             >
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".jsonl"
+                className="hidden"
+                onChange={handleImportFile}
+              />
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
                   <History className="h-4 w-4" />
@@ -301,61 +653,85 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
                   <MessageSquarePlus className="mr-2 h-4 w-4" />
                   发起新对话
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importSessionMutation.isPending}
+                  className="cursor-pointer"
+                >
+                  <FileUp className="mr-2 h-4 w-4" />
+                  导入 Claude Code 会话（.jsonl）
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
-
-                {sessions.length > 0 ? (
+                <div
+                  className="relative px-1 py-1"
+                  onKeyDown={(e) => e.stopPropagation()}
+                >
+                  <Search className="text-muted-foreground absolute top-1/2 left-3 h-3.5 w-3.5 -translate-y-1/2" />
+                  <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="搜索对话内容..."
+                    className="h-8 pl-7 text-sm"
+                  />
+                </div>
+
+                {searchKeyword ? (
+                  isSearching && !searchResults ? (
+                    <div className="text-muted-foreground px-2 py-4 text-center text-sm">
+                      搜索中...
+                    </div>
+                  ) : searchResults && searchResults.length > 0 ? (
+                    <div className="max-h-96 overflow-y-auto">
+                      {searchResults.map((result) => (
+                        <DropdownMenuItem
+                          key={`${result.id}-${result.messageIndex}`}
+                          onClick={() =>
+                            handleJumpToMessage(result.id, result.messageIndex)
+                          }
+                          className="cursor-pointer flex-col items-start gap-0.5"
+                        >
+                          <span className="max-w-full truncate text-sm font-medium">
+                            {result.title}
+                          </span>
+                          <span className="text-muted-foreground line-clamp-2 text-xs">
+                            {result.snippet}
+                          </span>
+                        </DropdownMenuItem>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-muted-foreground px-2 py-4 text-center text-sm">
+                      没有找到匹配的消息
+                    </div>
+                  )
+                ) : sessions.length > 0 ? (
                   <>
                     <div className="text-muted-foreground px-2 py-1.5 text-sm font-medium">
                       历史对话
                     </div>
-                    {sessions.slice(0, 20).map((session) => (
-                      <DropdownMenuItem
-                        key={session.id}
-                        onClick={() => handleSelectSession(session.id)}
-                        className={`group flex cursor-pointer items-center justify-between ${
-                          currentId === session.id ? "bg-accent" : ""
-                        }`}
-                      >
-                        <div className="mr-2 flex min-w-0 flex-1 flex-col items-start">
-                          <span
-                            className="max-w-[260px] truncate text-sm font-medium"
-                            title={session.title}
-                          >
-                            {session.title}
-                          </span>
-                          <span className="text-muted-foreground text-xs">
-                            {formatDate(session.updatedAt)}
-                          </span>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className={`h-6 w-6 p-0 opacity-0 transition-opacity group-hover:opacity-100 ${
-                            confirmingDelete === session.id
-                              ? "bg-destructive text-destructive-foreground hover:bg-destructive/90 animate-pulse"
-                              : "hover:bg-destructive/10 hover:text-destructive"
-                          }`}
-                          onClick={(e) => handleDeleteSession(session.id, e)}
-                          disabled={deleteSessionMutation.isPending}
-                          title={
-                            confirmingDelete === session.id
-                              ? "再次点击确认删除"
-                              : "删除对话"
-                          }
+                    {sessionTree.slice(0, 20).map(({ session, depth }) =>
+                      renderSessionItem(session, depth),
+                    )}
+                    {archivedSessions.length > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onSelect={(e) => {
+                            e.preventDefault();
+                            setShowArchived(!showArchived);
+                          }}
+                          className="text-muted-foreground cursor-pointer text-sm"
                         >
-                          {deleteSessionMutation.isPending &&
-                          confirmingDelete === session.id ? (
-                            <Loader2 className="h-3 w-3" />
-                          ) : confirmingDelete === session.id ? (
-                            <div className="flex items-center justify-center">
-                              <span className="text-[10px] font-bold">✓</span>
-                            </div>
-                          ) : (
-                            <Trash2 className="h-3 w-3" />
+                          <Archive className="mr-2 h-4 w-4" />
+                          {showArchived ? "收起" : "查看"}已归档的对话（
+                          {archivedSessions.length}）
+                        </DropdownMenuItem>
+                        {showArchived &&
+                          archivedSessions.map((session) =>
+                            renderSessionItem(session, 0),
                           )}
-                        </Button>
-                      </DropdownMenuItem>
-                    ))}
+                      </>
+                    )}
                   </>
                 ) : (
                   <div className="text-muted-foreground px-2 py-4 text-center text-sm">
@@ -375,19 +751,59 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
           <div className="flex flex-col p-4">
             {messages.length > 0
               ? messages.map((message: SDKMessage, index) => (
-                  <MessageBubble key={`message-${index}`} message={message} />
+                  <MessageBubble
+                    key={`message-${index}`}
+                    id={`message-${index}`}
+                    highlighted={highlightedMessage === index}
+                    message={message}
+                    pendingPermissions={pendingPermissions}
+                    onRespondPermission={respondPermission}
+                    onEdit={
+                      currentId && !isLoading && promptIndexes[index] !== -1
+                        ? (query) =>
+                            void editQuery(index, query).then(() =>
+                              refetchSessions(),
+                            )
+                        : undefined
+                    }
+                    branches={
+                      promptIndexes[index] !== -1
+                        ? (getPromptBranches(promptIndexes[index]!) ?? undefined)
+                        : undefined
+                    }
+                    onFork={
+                      currentId && !isLoading && message.type === "assistant"
+                        ? () =>
+                            forkSessionMutation.mutate({
+                              id: currentId,
+                              messageIndex: index,
+                            })
+                        : undefined
+                    }
+                  />
                 ))
               : null}
+
+            {/* 找不到对应工具调用的审批请求单独展示 */}
+            {unmatchedPermissions.map((request) => (
+              <PermissionRequestCard
+                key={request.id}
+                request={request}
+                onRespond={respondPermission}
+              />
+            ))}
           </div>
 
           {isLoading && (
             <div className="flex items-center gap-2 p-4">
               <Loader2 className="h-4 w-4 animate-spin" />
               <span className="text-muted-foreground text-sm">
+                {status === "queued" &&
+                  describeQueue(queuePosition, estimatedStartAt)}
                 {status === "running" && "正在执行..."}
                 {status === "failed" && "执行失败"}
               </span>
-              {status === "running" && (
+              {(status === "running" || status === "queued") && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -426,15 +842,33 @@ export default function AgentChatPage({ params }: AgentChatPageProps) {
 
       {/* 输入框 */}
       <div className="border-t p-4">
+        {status === "running" && progress && (
+          <RunProgress progress={progress} />
+        )}
         <ChatInput
           value={inputMessage}
           onChange={setInputMessage}
           onSend={handleSendMessage}
-          disabled={isLoading || status === "running"}
+          disabled={(isLoading || status === "running") && !currentId}
           isLoading={isLoading || status === "running"}
           workspaceId={id}
-          placeholder="输入 @ 来引用文件，输入 / 来选择命令..."
+          placeholder={
+            isLoading
+              ? "运行中，发送的提示将在当前运行结束后发送..."
+              : "输入 @ 来引用文件，输入 / 来选择命令..."
+          }
           slashCommands={systemMessage?.slash_commands ?? []}
+          pendingPrompts={currentId ? pendingPrompts : undefined}
+          onUpdatePendingPrompt={(promptId, content) =>
+            void updatePendingPrompt(promptId, content)
+          }
+          onRemovePendingPrompt={(promptId) =>
+            void removePendingPrompt(promptId)
+          }
+          onSendPendingPrompt={() => void sendPendingPrompt()}
+          onInjectPendingPrompt={(promptId) =>
+            void injectPendingPrompt(promptId)
+          }
         />
       </div>
     </div>
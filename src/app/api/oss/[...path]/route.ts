@@ -6,6 +6,7 @@ import { join } from "path";
 import { stat, readFile } from "fs/promises";
 import { getMimeType } from "~/lib/file";
 import { getWorkspaceBaseDir } from "~/lib/workspace-config";
+import { hasPermission, resolveWorkspaceAccess } from "~/lib/workspace-access";
 
 /**
  * OSS API Route - 仅用于文件下载
@@ -40,18 +41,21 @@ export async function GET(
     const [workspaceId, ...filePathParts] = resolvedParams.path;
     const relativeFilePath = filePathParts.join("/");
 
-    // 验证workspace存在且用户有权限访问
-    const workspace = await db.workspace.findUnique({
-      where: {
-        id: workspaceId,
-        ownerId: session.user.id,
-      },
-    });
+    // 验证workspace存在且用户是成员
+    const access = workspaceId
+      ? await resolveWorkspaceAccess(db, workspaceId, session.user.id)
+      : null;
 
-    if (!workspace?.path) {
+    if (!access?.workspace.path) {
       return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
     }
 
+    if (!hasPermission(access.role, "file:read")) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { workspace } = access;
+
     // 构建文件绝对路径
     const basePath = join(getWorkspaceBaseDir(), workspace.path);
     const absoluteFilePath = join(basePath, relativeFilePath);
@@ -7,8 +7,18 @@ import { createTRPCContext } from "~/server/api/trpc";
 
 // 初始化 BullMQ（在服务器启动时自动运行）
 import { initializeBullMQ } from "~/lib/bullmq";
+import { syncAllScheduledTasks } from "~/lib/scheduled-tasks";
+import { startPendingPromptDispatcher } from "~/lib/queue-service";
 initializeBullMQ();
 
+// 任务结束后自动发送会话中排队的后续提示
+startPendingPromptDispatcher();
+
+// 按数据库同步定时任务的 job scheduler
+void syncAllScheduledTasks().catch((error: unknown) => {
+  console.error("Failed to sync scheduled tasks:", error);
+});
+
 /**
  * This wraps the `createTRPCContext` helper and provides the required context for the tRPC API when
  * handling a HTTP request (e.g. when you make requests from Client Components).
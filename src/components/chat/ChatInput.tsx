@@ -2,14 +2,16 @@
 
 import { useState, useMemo, useRef, useEffect } from "react";
 import { Button } from "~/components/ui/button";
-import { Send, Loader2 } from "lucide-react";
+import { Send, Loader2, ListPlus } from "lucide-react";
 import { ProseKit, useDocChange } from "prosekit/react";
 import { createEditor, type Editor } from "prosekit/core";
 import { defineChatExtension } from "~/lib/prosekit-extensions";
 import { FileMenu } from "./FileMenu";
 import { CommandMenu } from "./CommandMenu";
+import { PendingPromptList } from "./PendingPromptList";
 import { useFileQuery } from "~/hooks/use-file-query";
 import { cn } from "~/lib/utils";
+import type { PendingPrompt } from "~/hooks/use-background-query";
 
 interface ChatInputProps {
   value: string;
@@ -21,6 +23,12 @@ interface ChatInputProps {
   placeholder?: string;
   className?: string;
   slashCommands?: string[];
+  // 待发送队列：传入后运行中也可以发送，提示在当前运行结束后自动发送
+  pendingPrompts?: PendingPrompt[];
+  onUpdatePendingPrompt?: (promptId: string, content: string) => void;
+  onRemovePendingPrompt?: (promptId: string) => void;
+  onSendPendingPrompt?: () => void;
+  onInjectPendingPrompt?: (promptId: string) => void;
 }
 
 // 编辑器内部组件，用于访问 ProseKit 上下文
@@ -62,11 +70,19 @@ export function ChatInput({
   placeholder = "输入您的问题...",
   className,
   slashCommands = [],
+  pendingPrompts,
+  onUpdatePendingPrompt,
+  onRemovePendingPrompt,
+  onSendPendingPrompt,
+  onInjectPendingPrompt,
 }: ChatInputProps) {
   const [query, setQuery] = useState("");
   const [open, setOpen] = useState(false);
-  const [justSelectedFromAutocomplete, setJustSelectedFromAutocomplete] = useState(false);
+  const [justSelectedFromAutocomplete, setJustSelectedFromAutocomplete] =
+    useState(false);
   const editorRef = useRef<HTMLDivElement>(null);
+  // 运行中发送的提示加入待发送队列
+  const isQueueing = Boolean(isLoading) && !!pendingPrompts;
 
   const editor = useMemo(() => {
     return createEditor({
@@ -95,7 +111,7 @@ export function ChatInput({
 
   const handleSend = () => {
     const currentText = editor.view.state.doc.textContent;
-    if (!currentText.trim() || disabled || isLoading) return;
+    if (!currentText.trim() || disabled || (isLoading && !isQueueing)) return;
 
     // 清空编辑器
     editor.view.dispatch(
@@ -120,57 +136,74 @@ export function ChatInput({
     }
   };
 
-  
   return (
     <div className={cn("relative", className)}>
-      <ProseKit editor={editor}>
-        <div
-          ref={editorRef}
-          className={cn(
-            "border-input bg-background ring-offset-background relative max-h-32 min-h-10 overflow-y-auto rounded-md border pl-3 pr-12 py-2 text-sm",
-            "focus-within:ring-ring focus-within:ring-2 focus-within:ring-offset-2 focus-within:outline-none",
-            "disabled:cursor-not-allowed disabled:opacity-50",
-            disabled && "cursor-not-allowed opacity-50",
-          )}
-          onKeyDown={handleKeyDown}
-        >
-          <EditorContent
-            editor={editor}
-            onChange={onChange}
-            placeholder={placeholder}
-          />
-        </div>
-
-        <FileMenu
-          files={files}
-          loading={loading}
-          onQueryChange={setQuery}
-          onOpenChange={setOpen}
-          onFileSelected={() => setJustSelectedFromAutocomplete(true)}
+      {pendingPrompts && pendingPrompts.length > 0 && (
+        <PendingPromptList
+          prompts={pendingPrompts}
+          isRunning={Boolean(isLoading)}
+          onUpdate={(promptId, content) =>
+            onUpdatePendingPrompt?.(promptId, content)
+          }
+          onRemove={(promptId) => onRemovePendingPrompt?.(promptId)}
+          onSendNext={onSendPendingPrompt}
+          onInject={onInjectPendingPrompt}
         />
+      )}
+
+      <div className="relative">
+        <ProseKit editor={editor}>
+          <div
+            ref={editorRef}
+            className={cn(
+              "border-input bg-background ring-offset-background relative max-h-32 min-h-10 overflow-y-auto rounded-md border py-2 pr-12 pl-3 text-sm",
+              "focus-within:ring-ring focus-within:ring-2 focus-within:ring-offset-2 focus-within:outline-none",
+              "disabled:cursor-not-allowed disabled:opacity-50",
+              disabled && "cursor-not-allowed opacity-50",
+            )}
+            onKeyDown={handleKeyDown}
+          >
+            <EditorContent
+              editor={editor}
+              onChange={onChange}
+              placeholder={placeholder}
+            />
+          </div>
+
+          <FileMenu
+            files={files}
+            loading={loading}
+            onQueryChange={setQuery}
+            onOpenChange={setOpen}
+            onFileSelected={() => setJustSelectedFromAutocomplete(true)}
+          />
 
-        <CommandMenu
-          commands={slashCommands}
-          onCommandSelected={() => setJustSelectedFromAutocomplete(true)}
-        />
-      </ProseKit>
-
-      <Button
-        onClick={handleSend}
-        disabled={
-          (value ?? "").trim().length === 0 ||
-          Boolean(disabled) ||
-          Boolean(isLoading)
-        }
-        size="icon"
-        className="absolute top-1/2 right-2 h-8 w-8 -translate-y-1/2"
-      >
-        {isLoading ? (
-          <Loader2 className="h-4 w-4 animate-spin" />
-        ) : (
-          <Send className="h-4 w-4" />
-        )}
-      </Button>
+          <CommandMenu
+            commands={slashCommands}
+            onCommandSelected={() => setJustSelectedFromAutocomplete(true)}
+          />
+        </ProseKit>
+
+        <Button
+          onClick={handleSend}
+          disabled={
+            (value ?? "").trim().length === 0 ||
+            Boolean(disabled) ||
+            (Boolean(isLoading) && !isQueueing)
+          }
+          size="icon"
+          className="absolute top-1/2 right-2 h-8 w-8 -translate-y-1/2"
+          title={isQueueing ? "加入待发送队列" : undefined}
+        >
+          {isQueueing ? (
+            <ListPlus className="h-4 w-4" />
+          ) : isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Check,
+  MessageSquarePlus,
+  Pencil,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import type { PendingPrompt } from "~/hooks/use-background-query";
+
+interface PendingPromptListProps {
+  prompts: PendingPrompt[];
+  isRunning: boolean; // 运行中的提示会在结束后自动发送
+  onUpdate: (promptId: string, content: string) => void;
+  onRemove: (promptId: string) => void;
+  onSendNext?: () => void;
+  onInject?: (promptId: string) => void; // 运行中插话，不等当前运行结束
+}
+
+// 输入框上方的待发送提示列表，可以修改或删除尚未发送的提示
+export function PendingPromptList({
+  prompts,
+  isRunning,
+  onUpdate,
+  onRemove,
+  onSendNext,
+  onInject,
+}: PendingPromptListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEdit = (prompt: PendingPrompt) => {
+    setEditingId(prompt.id);
+    setDraft(prompt.content);
+  };
+
+  const handleSave = () => {
+    const next = draft.trim();
+    if (editingId && next) onUpdate(editingId, next);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mb-2 rounded-md border text-sm">
+      <div className="text-muted-foreground flex items-center justify-between border-b px-3 py-1.5 text-xs">
+        <span>
+          {prompts.length} 条待发送
+          {isRunning ? "，当前运行结束后依次发送" : "，上一次运行未正常结束"}
+        </span>
+        {!isRunning && onSendNext && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onSendNext}
+          >
+            <Send className="mr-1 h-3 w-3" />
+            继续发送
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-40 divide-y overflow-y-auto">
+        {prompts.map((prompt, index) => (
+          <div
+            key={prompt.id}
+            className="group flex items-start gap-2 px-3 py-1.5"
+          >
+            <span className="text-muted-foreground shrink-0 text-xs leading-5">
+              {index + 1}.
+            </span>
+            {editingId === prompt.id ? (
+              <div className="flex min-w-0 flex-1 items-start gap-1">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSave();
+                    }
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  rows={2}
+                  className="min-h-0 text-sm"
+                  autoFocus
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={handleSave}
+                  title="保存"
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setEditingId(null)}
+                  title="取消"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <p
+                  className="min-w-0 flex-1 truncate leading-5"
+                  title={prompt.content}
+                >
+                  {prompt.content}
+                </p>
+                <div className="flex shrink-0 items-center opacity-0 transition-opacity group-hover:opacity-100">
+                  {isRunning && onInject && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => onInject(prompt.id)}
+                      title="插话：立即发给运行中的 Agent"
+                    >
+                      <MessageSquarePlus className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => startEdit(prompt)}
+                    title="修改"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-destructive/10 hover:text-destructive h-6 w-6 p-0"
+                    onClick={() => onRemove(prompt.id)}
+                    title="删除"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  CircleCheck,
+  Circle,
+  Clock,
+  Loader2,
+  Wrench,
+} from "lucide-react";
+import { formatDuration } from "~/lib/usage-utils";
+import { cn } from "~/lib/utils";
+import type { AgentProgress } from "~/types/queue";
+
+interface RunProgressProps {
+  progress: AgentProgress;
+  className?: string;
+}
+
+// 输入框上方的运行进度条：回合数、当前工具、任务列表和已运行时长
+export function RunProgress({ progress, className }: RunProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [expanded, setExpanded] = useState(false);
+
+  // 每秒刷新已运行时长
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { turn, maxTurns, todos, activeTool, startedAt } = progress;
+  const completed = todos.filter((todo) => todo.status === "completed").length;
+  const current = todos.find((todo) => todo.status === "in_progress");
+  const percent =
+    maxTurns > 0 ? Math.min(100, Math.round((turn / maxTurns) * 100)) : 0;
+
+  return (
+    <div className={cn("mb-2 rounded-md border text-xs", className)}>
+      <div className="text-muted-foreground flex items-center gap-3 px-3 py-1.5">
+        <span className="shrink-0" title="模型响应次数 / 最大回合数">
+          回合 {turn}/{maxTurns}
+        </span>
+
+        {activeTool ? (
+          <span className="flex min-w-0 items-center gap-1">
+            <Wrench className="h-3 w-3 shrink-0" />
+            <span className="truncate">{activeTool}</span>
+          </span>
+        ) : (
+          <span className="flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            思考中
+          </span>
+        )}
+
+        {todos.length > 0 && (
+          <button
+            type="button"
+            className="hover:text-foreground flex min-w-0 items-center gap-1"
+            onClick={() => setExpanded((value) => !value)}
+            title={expanded ? "收起任务列表" : "展开任务列表"}
+          >
+            <span className="shrink-0">
+              任务 {completed}/{todos.length}
+            </span>
+            {current && (
+              <span className="truncate">
+                ：{current.activeForm ?? current.content}
+              </span>
+            )}
+            {expanded ? (
+              <ChevronUp className="h-3 w-3 shrink-0" />
+            ) : (
+              <ChevronDown className="h-3 w-3 shrink-0" />
+            )}
+          </button>
+        )}
+
+        <span className="ml-auto flex shrink-0 items-center gap-1">
+          <Clock className="h-3 w-3" />
+          {formatDuration(Math.max(0, now - startedAt))}
+        </span>
+      </div>
+
+      <div className="bg-muted h-0.5">
+        <div
+          className="bg-primary h-full transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {expanded && todos.length > 0 && (
+        <ul className="max-h-32 space-y-1 overflow-y-auto px-3 py-1.5">
+          {todos.map((todo, index) => (
+            <li key={index} className="flex items-start gap-1.5">
+              {todo.status === "completed" ? (
+                <CircleCheck className="mt-0.5 h-3 w-3 shrink-0 text-green-600" />
+              ) : todo.status === "in_progress" ? (
+                <Loader2 className="text-primary mt-0.5 h-3 w-3 shrink-0 animate-spin" />
+              ) : (
+                <Circle className="text-muted-foreground mt-0.5 h-3 w-3 shrink-0" />
+              )}
+              <span
+                className={cn(
+                  todo.status === "completed" &&
+                    "text-muted-foreground line-through",
+                )}
+              >
+                {todo.content}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,15 @@ import {
   PopoverTrigger,
 } from "~/components/ui/popover";
 import type { SDKSystemMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { UsageTotals } from "~/types/usage";
+import { formatCost, formatDuration, formatTokens } from "~/lib/usage-utils";
 
 interface SystemInfoProps {
   systemMessage: SDKSystemMessage;
+  usage?: UsageTotals;
 }
 
-export function SystemInfo({ systemMessage }: SystemInfoProps) {
+export function SystemInfo({ systemMessage, usage }: SystemInfoProps) {
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -55,6 +58,30 @@ export function SystemInfo({ systemMessage }: SystemInfoProps) {
               <span>{systemMessage.claude_code_version}</span>
             </div>
 
+            {usage && usage.runs > 0 && (
+              <div className="bg-muted/50 grid grid-cols-2 gap-x-4 gap-y-1 rounded-md p-2 text-xs">
+                <span className="text-muted-foreground">费用:</span>
+                <span className="text-right font-medium">
+                  {formatCost(usage.costUsd)}
+                </span>
+                <span className="text-muted-foreground">输入 / 输出:</span>
+                <span className="text-right">
+                  {formatTokens(usage.inputTokens)} /{" "}
+                  {formatTokens(usage.outputTokens)}
+                </span>
+                <span className="text-muted-foreground">缓存读取 / 写入:</span>
+                <span className="text-right">
+                  {formatTokens(usage.cacheReadTokens)} /{" "}
+                  {formatTokens(usage.cacheCreationTokens)}
+                </span>
+                <span className="text-muted-foreground">运行:</span>
+                <span className="text-right">
+                  {usage.runs} 次，{usage.numTurns} 回合，
+                  {formatDuration(usage.durationMs)}
+                </span>
+              </div>
+            )}
+
             {systemMessage.agents && systemMessage.agents.length > 0 && (
               <div>
                 <span className="text-muted-foreground">代理:</span>
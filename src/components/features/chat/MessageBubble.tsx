@@ -1,12 +1,45 @@
 "use client";
 
+import { useState } from "react";
 import { MarkdownPreview } from "~/components/shared/MarkdownPreview";
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import { ToolCall } from "./ToolCall";
 import { ToolCard } from "~/components/ui/tool-card";
 import { ToolCallItem } from "~/components/ui/tool-call-item";
+import { ChevronLeft, ChevronRight, GitBranch, Pencil } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import type {
+  PermissionDecision,
+  ToolPermissionRequestInfo,
+} from "~/types/permission";
 
-export function MessageRenderer({ message }: { message: SDKMessage }) {
+interface MessageProps {
+  message: SDKMessage;
+  pendingPermissions?: ToolPermissionRequestInfo[];
+  onRespondPermission?: (
+    requestId: string,
+    decision: PermissionDecision,
+  ) => Promise<void>;
+  onFork?: () => void;
+  onEdit?: (query: string) => void;
+  branches?: MessageBranches;
+  id?: string; // 用于跳转到指定消息
+  highlighted?: boolean;
+}
+
+// 同一条提示的多个分支，index 为当前分支的位置
+interface MessageBranches {
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
+}
+
+export function MessageRenderer({
+  message,
+  pendingPermissions,
+  onRespondPermission,
+}: MessageProps) {
   // 渲染消息内容的辅助函数
   const renderMessageContent = () => {
     if (message.type === "user") {
@@ -79,7 +112,16 @@ export function MessageRenderer({ message }: { message: SDKMessage }) {
           );
           lastItemWasTool = false;
         } else if (item.type === "tool_use") {
-          elements.push(<ToolCall key={index} tool={item} />);
+          elements.push(
+            <ToolCall
+              key={index}
+              tool={item}
+              permissionRequest={pendingPermissions?.find(
+                (request) => request.toolUseId === item.id,
+              )}
+              onRespondPermission={onRespondPermission}
+            />,
+          );
           lastItemWasTool = true;
         }
       });
@@ -93,7 +135,19 @@ export function MessageRenderer({ message }: { message: SDKMessage }) {
   return <div>{renderMessageContent()}</div>;
 }
 
-export function MessageBubble({ message }: { message: SDKMessage }) {
+export function MessageBubble({
+  message,
+  pendingPermissions,
+  onRespondPermission,
+  onFork,
+  onEdit,
+  branches,
+  id,
+  highlighted = false,
+}: MessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
   const isUser = message.type === "user";
   const isToolResult =
     isUser &&
@@ -104,8 +158,55 @@ export function MessageBubble({ message }: { message: SDKMessage }) {
     Array.isArray(message.message.content) &&
     message.message.content.every((item) => item.type === "text");
   const alignRight = isUser && !isToolResult && !isText;
+  const prompt =
+    message.type === "user" && typeof message.message.content === "string"
+      ? message.message.content
+      : null;
+
+  const handleStartEdit = () => {
+    setDraft(prompt ?? "");
+    setIsEditing(true);
+  };
+
+  const handleSubmitEdit = () => {
+    const query = draft.trim();
+    if (!query || !onEdit) return;
+    onEdit(query);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="w-full max-w-xl space-y-2 self-end">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSubmitEdit();
+            }
+          }}
+          className="min-h-[80px]"
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            取消
+          </Button>
+          <Button size="sm" onClick={handleSubmitEdit} disabled={!draft.trim()}>
+            在新分支中发送
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className={` ${alignRight ? "self-end" : "self-start"}`}>
+    <div
+      id={id}
+      className={`group rounded-lg transition-shadow ${alignRight ? "self-end" : "self-start"} ${highlighted ? "ring-primary ring-2" : ""}`}
+    >
       <div
         className={`rounded-lg ${
           alignRight ? "bg-primary text-primary-foreground p-3" : "px-3 py-2"
@@ -113,9 +214,68 @@ export function MessageBubble({ message }: { message: SDKMessage }) {
       >
         <div className="max-w-full">
           {/* {JSON.stringify(message)} */}
-          <MessageRenderer message={message} />
+          <MessageRenderer
+            message={message}
+            pendingPermissions={pendingPermissions}
+            onRespondPermission={onRespondPermission}
+          />
         </div>
       </div>
+      {(branches ?? onEdit) && (
+        <div className="flex items-center justify-end gap-1 px-1 pt-1">
+          {branches && branches.total > 1 && (
+            <div className="text-muted-foreground flex items-center text-xs">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={branches.index === 0}
+                onClick={() => branches.onSelect(branches.index - 1)}
+                title="上一个分支"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <span>
+                {branches.index + 1} / {branches.total}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={branches.index === branches.total - 1}
+                onClick={() => branches.onSelect(branches.index + 1)}
+                title="下一个分支"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground h-6 px-2 text-xs opacity-0 transition-opacity group-hover:opacity-100"
+              onClick={handleStartEdit}
+            >
+              <Pencil className="mr-1 h-3 w-3" />
+              编辑
+            </Button>
+          )}
+        </div>
+      )}
+      {onFork && (
+        <div className="flex justify-end px-3 opacity-0 transition-opacity group-hover:opacity-100">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground h-6 px-2 text-xs"
+            onClick={onFork}
+          >
+            <GitBranch className="mr-1 h-3 w-3" />
+            从此处分支
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ShieldQuestion, ShieldCheck, X } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import type {
+  PermissionDecision,
+  ToolPermissionRequestInfo,
+} from "~/types/permission";
+
+interface PermissionRequestCardProps {
+  request: ToolPermissionRequestInfo;
+  onRespond: (requestId: string, decision: PermissionDecision) => Promise<void>;
+}
+
+// 提取最能说明调用意图的参数
+const describeInput = (input: Record<string, unknown>) => {
+  for (const key of ["command", "file_path", "path", "url", "pattern"]) {
+    const value = input[key];
+    if (typeof value === "string" && value) return value;
+  }
+  return JSON.stringify(input, null, 2);
+};
+
+// 工具调用审批卡片
+export function PermissionRequestCard({
+  request,
+  onRespond,
+}: PermissionRequestCardProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  const respond = async (decision: PermissionDecision) => {
+    setSubmitting(true);
+    try {
+      await onRespond(request.id, decision);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-md border border-amber-300 bg-amber-50 p-3 dark:border-amber-700 dark:bg-amber-950/30">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ShieldQuestion className="h-4 w-4 text-amber-600" />
+        Agent 请求使用 {request.toolName}
+      </div>
+
+      <pre className="bg-background/60 text-muted-foreground mt-2 max-h-40 overflow-auto rounded p-2 font-mono text-xs break-all whitespace-pre-wrap">
+        {describeInput(request.input)}
+      </pre>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          onClick={() => respond({ behavior: "allow" })}
+          disabled={submitting}
+        >
+          <Check className="mr-1 h-3.5 w-3.5" />
+          批准
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => respond({ behavior: "allow", alwaysAllow: true })}
+          disabled={submitting}
+        >
+          <ShieldCheck className="mr-1 h-3.5 w-3.5" />
+          {request.toolName === "Bash"
+            ? "本会话始终允许此命令"
+            : "本会话始终允许"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+          onClick={() => respond({ behavior: "deny" })}
+          disabled={submitting}
+        >
+          <X className="mr-1 h-3.5 w-3.5" />
+          拒绝
+        </Button>
+        <span className="text-muted-foreground ml-auto text-xs">
+          {request.expiresAt.toLocaleTimeString()} 前未处理将自动拒绝
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import type { AgentConfig } from "~/types/agent-config";
+
+interface SessionAgentSettingsProps {
+  sessionId: string;
+  isRunning?: boolean; // 运行中修改会立即切换
+}
+
+type PermissionMode = AgentConfig["permissionMode"];
+
+// Select 不支持空值，用这个值表示沿用工作区配置
+const WORKSPACE_DEFAULT = "__workspace__";
+
+const MODEL_OPTIONS: Record<string, string> = {
+  sonnet: "Sonnet",
+  opus: "Opus",
+  haiku: "Haiku",
+};
+
+const PERMISSION_MODE_TEXT: Record<PermissionMode, string> = {
+  bypassPermissions: "自动执行（跳过确认）",
+  acceptEdits: "自动接受文件编辑",
+  default: "逐项审批（在对话中确认）",
+  plan: "仅规划，不执行",
+};
+
+// 不需要 Agent 配置权限的权限模式（比工作区配置更严格）；指定模型始终需要该权限
+const RESTRICTIVE_MODES: PermissionMode[] = ["default", "plan"];
+
+// 对话头部的会话设置：为当前会话选择模型和权限模式
+export function SessionAgentSettings({
+  sessionId,
+  isRunning = false,
+}: SessionAgentSettingsProps) {
+  const utils = api.useUtils();
+  const { data: settings } = api.agent.getSessionSettings.useQuery({
+    id: sessionId,
+  });
+
+  const updateMutation = api.agent.updateSessionSettings.useMutation({
+    onSuccess: () => {
+      void utils.agent.getSessionSettings.invalidate({ id: sessionId });
+      toast.success(isRunning ? "已切换，当前运行立即生效" : "已保存");
+    },
+    onError: (error) => toast.error(error.message || "保存失败"),
+  });
+
+  if (!settings) return null;
+
+  const modelOptions = { ...MODEL_OPTIONS };
+  if (settings.model && !modelOptions[settings.model]) {
+    modelOptions[settings.model] = settings.model;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="会话设置"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">模型</Label>
+          <Select
+            value={settings.model ?? WORKSPACE_DEFAULT}
+            onValueChange={(value) =>
+              updateMutation.mutate({
+                id: sessionId,
+                model: value === WORKSPACE_DEFAULT ? null : value,
+              })
+            }
+            disabled={updateMutation.isPending}
+          >
+            <SelectTrigger className="h-8 w-full text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WORKSPACE_DEFAULT}>
+                工作区默认（{settings.defaultModel ?? "SDK 默认"}）
+              </SelectItem>
+              {Object.entries(modelOptions).map(([value, label]) => (
+                <SelectItem
+                  key={value}
+                  value={value}
+                  disabled={!settings.canConfigure}
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">权限模式</Label>
+          <Select
+            value={settings.permissionMode ?? WORKSPACE_DEFAULT}
+            onValueChange={(value) =>
+              updateMutation.mutate({
+                id: sessionId,
+                permissionMode:
+                  value === WORKSPACE_DEFAULT
+                    ? null
+                    : (value as PermissionMode),
+              })
+            }
+            disabled={updateMutation.isPending}
+          >
+            <SelectTrigger className="h-8 w-full text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WORKSPACE_DEFAULT}>
+                工作区默认（
+                {PERMISSION_MODE_TEXT[settings.defaultPermissionMode]}）
+              </SelectItem>
+              {Object.entries(PERMISSION_MODE_TEXT).map(([value, label]) => (
+                <SelectItem
+                  key={value}
+                  value={value}
+                  disabled={
+                    !settings.canConfigure &&
+                    !RESTRICTIVE_MODES.includes(value as PermissionMode)
+                  }
+                >
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isRunning && (
+            <p className="text-muted-foreground text-xs">
+              切换到或离开“逐项审批”会在下一次运行时生效
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { Download, FolderDown } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, type ExportFormat } from "~/types/session-export";
+
+interface SessionExportMenuProps {
+  sessionId: string;
+  canSaveToWorkspace?: boolean; // 是否可以将导出文件保存到工作区（需要 file:write 权限）
+}
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+export function SessionExportMenu({
+  sessionId,
+  canSaveToWorkspace = false,
+}: SessionExportMenuProps) {
+  const utils = api.useUtils();
+
+  const saveExportMutation = api.agent.saveSessionExport.useMutation({
+    onSuccess: (data) => toast.success(`已保存到 ${data.path}`),
+    onError: (error) => toast.error(error.message || "保存失败"),
+  });
+
+  // 导出内容由服务端渲染，在浏览器中生成文件并触发下载
+  const handleDownload = async (format: ExportFormat) => {
+    try {
+      const result = await utils.agent.exportSession.fetch({
+        id: sessionId,
+        format,
+      });
+      const blob = new Blob([result.content], {
+        type: `${result.mimeType};charset=utf-8`,
+      });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = result.fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast.error("导出失败");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title="导出会话"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>下载对话记录</DropdownMenuLabel>
+        {FORMATS.map((format) => (
+          <DropdownMenuItem
+            key={format}
+            className="cursor-pointer"
+            onClick={() => void handleDownload(format)}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+        {canSaveToWorkspace && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>保存到工作区 exports 目录</DropdownMenuLabel>
+            {FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format}
+                className="cursor-pointer"
+                disabled={saveExportMutation.isPending}
+                onClick={() =>
+                  saveExportMutation.mutate({ id: sessionId, format })
+                }
+              >
+                <FolderDown className="mr-2 h-4 w-4" />
+                {EXPORT_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  GitBranch,
+  Loader2,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { DropdownMenuItem } from "~/components/ui/dropdown-menu";
+
+interface SessionHistoryItemProps {
+  title: string;
+  summary?: string | null;
+  depth: number; // 分支层级，0 为普通会话
+  isCurrent: boolean;
+  pinned: boolean;
+  archived: boolean;
+  deleteState: "idle" | "confirming" | "deleting";
+  children?: React.ReactNode; // 标题下方的附加信息
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+}
+
+// 历史对话列表中的一项：点击切换会话，悬停显示摘要和操作按钮
+export function SessionHistoryItem({
+  title,
+  summary,
+  depth,
+  isCurrent,
+  pinned,
+  archived,
+  deleteState,
+  children,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+}: SessionHistoryItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draft, setDraft] = useState(title);
+
+  const handleRenameSubmit = () => {
+    const next = draft.trim();
+    if (next && next !== title) onRename(next);
+    setIsRenaming(false);
+  };
+
+  // 操作按钮不触发会话切换
+  const action =
+    (handler: () => void) => (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.stopPropagation();
+      handler();
+    };
+
+  return (
+    <DropdownMenuItem
+      onClick={() => !isRenaming && onSelect()}
+      onSelect={(e) => isRenaming && e.preventDefault()}
+      className={`group flex cursor-pointer items-center justify-between ${
+        isCurrent ? "bg-accent" : ""
+      }`}
+    >
+      <div
+        className="mr-2 flex min-w-0 flex-1 flex-col items-start"
+        style={{ paddingLeft: `${Math.min(depth, 3) * 12}px` }}
+      >
+        {isRenaming ? (
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") handleRenameSubmit();
+              if (e.key === "Escape") setIsRenaming(false);
+            }}
+            onBlur={handleRenameSubmit}
+            className="h-7 text-sm"
+            autoFocus
+          />
+        ) : (
+          <span
+            className="flex max-w-[260px] items-center gap-1 truncate text-sm font-medium"
+            title={summary ? `${title}\n\n${summary}` : title}
+          >
+            {pinned && <Pin className="text-primary h-3 w-3 shrink-0" />}
+            {depth > 0 && (
+              <GitBranch className="text-muted-foreground h-3 w-3 shrink-0" />
+            )}
+            {title}
+          </span>
+        )}
+        <span className="text-muted-foreground text-xs">{children}</span>
+      </div>
+
+      {!isRenaming && (
+        <div className="flex shrink-0 items-center opacity-0 transition-opacity group-hover:opacity-100">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={action(() => {
+              setDraft(title);
+              setIsRenaming(true);
+            })}
+            title="重命名"
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={action(onTogglePin)}
+            title={pinned ? "取消置顶" : "置顶"}
+          >
+            {pinned ? (
+              <PinOff className="h-3 w-3" />
+            ) : (
+              <Pin className="h-3 w-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={action(onToggleArchive)}
+            title={archived ? "取消归档" : "归档"}
+          >
+            {archived ? (
+              <ArchiveRestore className="h-3 w-3" />
+            ) : (
+              <Archive className="h-3 w-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-6 w-6 p-0 ${
+              deleteState !== "idle"
+                ? "bg-destructive text-destructive-foreground hover:bg-destructive/90 animate-pulse"
+                : "hover:bg-destructive/10 hover:text-destructive"
+            }`}
+            onClick={onDelete}
+            disabled={deleteState === "deleting"}
+            title={deleteState === "idle" ? "删除对话" : "再次点击确认删除"}
+          >
+            {deleteState === "deleting" ? (
+              <Loader2 className="h-3 w-3" />
+            ) : deleteState === "confirming" ? (
+              <div className="flex items-center justify-center">
+                <span className="text-[10px] font-bold">✓</span>
+              </div>
+            ) : (
+              <Trash2 className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+      )}
+    </DropdownMenuItem>
+  );
+}
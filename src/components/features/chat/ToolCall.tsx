@@ -5,9 +5,27 @@ import type { BetaToolUseBlock } from "@anthropic-ai/sdk/resources/beta.mjs";
 import type { EditOutput, WriteOutput } from "~/types/tools";
 import { ToolCard } from "~/components/ui/tool-card";
 import { ToolCallItem } from "~/components/ui/tool-call-item";
+import { PermissionRequestCard } from "./PermissionRequestCard";
+import type {
+  PermissionDecision,
+  ToolPermissionRequestInfo,
+} from "~/types/permission";
+
+interface ToolCallProps {
+  tool: BetaToolUseBlock;
+  permissionRequest?: ToolPermissionRequestInfo; // 该工具调用正在等待的审批
+  onRespondPermission?: (
+    requestId: string,
+    decision: PermissionDecision,
+  ) => Promise<void>;
+}
 
 // 简单的工具调用组件
-function ToolCall({ tool }: { tool: BetaToolUseBlock }) {
+function ToolCall({
+  tool,
+  permissionRequest,
+  onRespondPermission,
+}: ToolCallProps) {
   // 提取文件名
   const getFileName = (path: string): string => {
     if (!path) return "";
@@ -132,19 +150,32 @@ function ToolCall({ tool }: { tool: BetaToolUseBlock }) {
   );
   const content = renderToolContent();
 
-  if (hasContent && content) {
-    return (
+  const item =
+    hasContent && content ? (
       <ToolCallItem
         name={name}
         params={params}
         content={content}
         isExpandable={true}
       />
+    ) : (
+      // 简单工具只显示一行
+      <ToolCallItem name={name} params={params} isExpandable={false} />
+    );
+
+  if (permissionRequest && onRespondPermission) {
+    return (
+      <>
+        {item}
+        <PermissionRequestCard
+          request={permissionRequest}
+          onRespond={onRespondPermission}
+        />
+      </>
     );
   }
 
-  // 简单工具只显示一行
-  return <ToolCallItem name={name} params={params} isExpandable={false} />;
+  return item;
 }
 
 export { ToolCall };
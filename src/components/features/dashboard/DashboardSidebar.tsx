@@ -12,9 +12,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
-import { LogOut, Settings, User, Home, ShoppingBag, HelpCircle } from "lucide-react";
+import { LogOut, Settings, User, Home, ShoppingBag, HelpCircle, BarChart3, ListOrdered } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { cn } from "~/lib/utils";
+import { api } from "~/trpc/react";
 
 interface DashboardSidebarProps {
   children: React.ReactNode;
@@ -24,6 +25,7 @@ export default function DashboardSidebar({ children }: DashboardSidebarProps) {
   const { data: session } = useSession();
   const router = useRouter();
   const pathname = usePathname();
+  const { data: isAdmin } = api.admin.isAdmin.useQuery();
 
   const handleSignOut = async () => {
     await signOut({ redirect: false });
@@ -112,6 +114,32 @@ export default function DashboardSidebar({ children }: DashboardSidebarProps) {
                 插件
               </Button>
             </Link>
+            <Link href="/usage">
+              <Button
+                variant={pathname === "/usage" ? "secondary" : "ghost"}
+                className={cn(
+                  "w-full justify-start",
+                  pathname === "/usage" && "bg-secondary",
+                )}
+              >
+                <BarChart3 className="mr-2 h-4 w-4" />
+                用量
+              </Button>
+            </Link>
+            {isAdmin && (
+              <Link href="/admin/queue">
+                <Button
+                  variant={pathname === "/admin/queue" ? "secondary" : "ghost"}
+                  className={cn(
+                    "w-full justify-start",
+                    pathname === "/admin/queue" && "bg-secondary",
+                  )}
+                >
+                  <ListOrdered className="mr-2 h-4 w-4" />
+                  任务队列
+                </Button>
+              </Link>
+            )}
           </div>
 
           {/* 底部帮助区域 */}
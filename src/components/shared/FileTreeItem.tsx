@@ -44,6 +44,7 @@ interface FileTreeItemProps {
   onCreateFolderIn?: (folderPath: string) => void;
   onUploadToFolder?: (folderPath: string) => void;
   onDownloadFile?: (filePath: string) => void;
+  readOnly?: boolean; // 只读成员（学生）不显示修改类操作
 }
 
 export function FileTreeItem({
@@ -56,6 +57,7 @@ export function FileTreeItem({
   onCreateFolderIn,
   onUploadToFolder,
   onDownloadFile,
+  readOnly = false,
 }: FileTreeItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [contextMenu, setContextMenu] = useState<{
@@ -166,13 +168,15 @@ export function FileTreeItem({
       const rect = itemRef.current?.getBoundingClientRect();
       if (!rect) return;
 
-      const options: ContextMenuOption[] = [
-        {
+      const options: ContextMenuOption[] = [];
+
+      if (!readOnly) {
+        options.push({
           label: "重命名",
           icon: <Edit3 className="h-4 w-4" />,
           onClick: startRenaming,
-        },
-      ];
+        });
+      }
 
       // 如果是文件，添加下载选项
       if (!isDirectory && onDownloadFile) {
@@ -184,7 +188,7 @@ export function FileTreeItem({
       }
 
       // 如果是文件夹，添加上传和创建选项
-      if (isDirectory) {
+      if (isDirectory && !readOnly) {
         if (onUploadToFolder) {
           options.push({
             label: "上传文件",
@@ -201,12 +205,16 @@ export function FileTreeItem({
         }
       }
 
-      options.push({
-        label: "删除",
-        icon: <Trash2 className="h-4 w-4" />,
-        className: "text-destructive focus:text-destructive",
-        onClick: () => setOperation({ type: "delete", item }),
-      });
+      if (!readOnly) {
+        options.push({
+          label: "删除",
+          icon: <Trash2 className="h-4 w-4" />,
+          className: "text-destructive focus:text-destructive",
+          onClick: () => setOperation({ type: "delete", item }),
+        });
+      }
+
+      if (options.length === 0) return;
 
       setContextMenu({
         x: rect.left + rect.width / 2 - 80,
@@ -221,6 +229,7 @@ export function FileTreeItem({
       onCreateFolderIn,
       onDownloadFile,
       onUploadToFolder,
+      readOnly,
     ],
   );
 
@@ -316,6 +325,7 @@ export function FileTreeItem({
                 onCreateFolderIn={onCreateFolderIn}
                 onUploadToFolder={onUploadToFolder}
                 onDownloadFile={onDownloadFile}
+                readOnly={readOnly}
               />
             ))}
           {!hasChildren && (
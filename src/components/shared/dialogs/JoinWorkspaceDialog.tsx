@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { LogIn } from "lucide-react";
+import { api } from "~/trpc/react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+export function JoinWorkspaceDialog() {
+  const router = useRouter();
+  const utils = api.useUtils();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+
+  const redeemMutation = api.invite.redeemInvite.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.alreadyMember ? "您已是该工作空间成员" : "已加入工作空间",
+      );
+      void utils.workspace.getWorkSpaces.invalidate();
+      setOpen(false);
+      setCode("");
+      router.push(`/workspace/${result.workspaceId}?file=`);
+    },
+    onError: (error) => toast.error(error.message || "加入工作空间失败"),
+  });
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    redeemMutation.mutate({ code: code.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LogIn className="mr-2 h-4 w-4" />
+          加入工作空间
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>加入工作空间</DialogTitle>
+          <DialogDescription>
+            输入教师分享的邀请码，或直接粘贴邀请链接
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleJoin} className="space-y-2 py-2">
+          <Label htmlFor="invite-code">邀请码</Label>
+          <Input
+            id="invite-code"
+            placeholder="例如：ABCD2345"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={redeemMutation.isPending}
+            autoFocus
+          />
+        </form>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={redeemMutation.isPending}
+          >
+            取消
+          </Button>
+          <Button
+            type="button"
+            onClick={handleJoin}
+            disabled={!code.trim() || redeemMutation.isPending}
+          >
+            {redeemMutation.isPending ? "加入中..." : "加入"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,8 +15,16 @@ import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { Textarea } from "~/components/ui/textarea";
 import { Badge } from "~/components/ui/badge";
-import { Settings, Users, Calendar, Trash2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { Settings, Users, Calendar, Trash2, LogOut } from "lucide-react";
 import { api } from "~/trpc/react";
+import { WorkspaceMembers } from "~/components/workspace/WorkspaceMembers";
+import { WorkspaceInvites } from "~/components/workspace/WorkspaceInvites";
+import { WorkspaceAgentSettings } from "~/components/workspace/WorkspaceAgentSettings";
+import { WorkspaceBudgetSettings } from "~/components/workspace/WorkspaceBudgetSettings";
+import { WorkspaceSessionArchive } from "~/components/workspace/WorkspaceSessionArchive";
+import { WorkspaceScheduledTasks } from "~/components/workspace/WorkspaceScheduledTasks";
+import type { WorkspaceRole } from "~/types/workspace";
 
 interface WorkspaceSettingsDialogProps {
   children: React.ReactNode;
@@ -24,7 +32,7 @@ interface WorkspaceSettingsDialogProps {
     id: string;
     name: string;
     description?: string;
-    role: "owner" | "teacher" | "student";
+    role: WorkspaceRole;
     memberCount: number;
     updatedAt: Date;
     path: string;
@@ -33,7 +41,7 @@ interface WorkspaceSettingsDialogProps {
     id: string;
     name: string;
     description?: string;
-    role: "owner" | "teacher" | "student";
+    role: WorkspaceRole;
     memberCount: number;
     updatedAt: Date;
     path: string;
@@ -66,6 +74,15 @@ export function WorkspaceSettingsDialog({
     },
   });
 
+  const leaveWorkspaceMutation = api.workspace.leaveWorkSpace.useMutation({
+    onSuccess: () => {
+      onDelete?.(workspace.id);
+      setOpen(false);
+      // 刷新workspace列表
+      void utils.workspace.getWorkSpaces.invalidate();
+    },
+  });
+
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
@@ -91,7 +108,7 @@ export function WorkspaceSettingsDialog({
         id: string;
         name: string;
         description?: string;
-        role: "owner" | "teacher" | "student";
+        role: WorkspaceRole;
         memberCount: number;
         updatedAt: Date;
         path: string;
@@ -116,6 +133,15 @@ export function WorkspaceSettingsDialog({
     }
   };
 
+  const handleLeave = async () => {
+    setLoading(true);
+    try {
+      await leaveWorkspaceMutation.mutateAsync({ workspaceId: workspace.id });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleClose = () => {
     setOpen(false);
     setShowDeleteConfirm(false);
@@ -150,11 +176,12 @@ export function WorkspaceSettingsDialog({
   };
 
   const isOwner = workspace.role === "owner";
+  const canManageMembers = isOwner || workspace.role === "teacher";
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>{children}</DialogTrigger>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[600px]">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="h-5 w-5" />
@@ -163,132 +190,204 @@ export function WorkspaceSettingsDialog({
           <DialogDescription>管理工作空间的基本信息和设置</DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-6 py-4">
-          {/* 工作空间信息 */}
-          <div className="space-y-4">
-            <div>
-              <Label className="text-muted-foreground text-sm">
-                工作空间ID
-              </Label>
-              <p className="font-mono text-sm">{workspace.id}</p>
-            </div>
+        <Tabs defaultValue="general" className="w-full">
+          <TabsList
+            className={`grid w-full ${canManageMembers ? "grid-cols-7" : "grid-cols-5"}`}
+          >
+            <TabsTrigger value="general">基本信息</TabsTrigger>
+            <TabsTrigger value="members">成员</TabsTrigger>
+            {canManageMembers && (
+              <TabsTrigger value="invites">邀请</TabsTrigger>
+            )}
+            <TabsTrigger value="agent">Agent</TabsTrigger>
+            <TabsTrigger value="budget">预算</TabsTrigger>
+            <TabsTrigger value="schedule">定时</TabsTrigger>
+            {canManageMembers && (
+              <TabsTrigger value="sessions">会话</TabsTrigger>
+            )}
+          </TabsList>
 
-            <div>
-              <Label className="text-muted-foreground text-sm">
-                工作空间路径
-              </Label>
-              <p className="font-mono text-sm">{workspace.path}</p>
-            </div>
+          <TabsContent value="general">
+            <div className="space-y-6 py-4">
+              {/* 工作空间信息 */}
+              <div className="space-y-4">
+                <div>
+                  <Label className="text-muted-foreground text-sm">
+                    工作空间ID
+                  </Label>
+                  <p className="font-mono text-sm">{workspace.id}</p>
+                </div>
 
-            <div className="flex items-center gap-4">
-              <div>
-                <Label className="text-muted-foreground text-sm">
-                  您的角色
-                </Label>
-                <div className="mt-1">
-                  <Badge className={getRoleColor(workspace.role)}>
-                    {getRoleText(workspace.role)}
-                  </Badge>
+                <div>
+                  <Label className="text-muted-foreground text-sm">
+                    工作空间路径
+                  </Label>
+                  <p className="font-mono text-sm">{workspace.path}</p>
                 </div>
-              </div>
 
-              <div>
-                <Label className="text-muted-foreground text-sm">
-                  成员数量
-                </Label>
-                <p className="mt-1 flex items-center gap-1">
-                  <Users className="h-4 w-4" />
-                  {workspace.memberCount}
-                </p>
-              </div>
-            </div>
+                <div className="flex items-center gap-4">
+                  <div>
+                    <Label className="text-muted-foreground text-sm">
+                      您的角色
+                    </Label>
+                    <div className="mt-1">
+                      <Badge className={getRoleColor(workspace.role)}>
+                        {getRoleText(workspace.role)}
+                      </Badge>
+                    </div>
+                  </div>
 
-            <div>
-              <Label className="text-muted-foreground text-sm">最后更新</Label>
-              <p className="mt-1 flex items-center gap-1">
-                <Calendar className="h-4 w-4" />
-                {workspace.updatedAt.toLocaleString()}
-              </p>
-            </div>
-          </div>
-
-          {/* 编辑表单 */}
-          {isOwner && (
-            <form onSubmit={handleUpdate} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">工作空间名称</Label>
-                <Input
-                  id="name"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  disabled={loading}
-                />
-              </div>
+                  <div>
+                    <Label className="text-muted-foreground text-sm">
+                      成员数量
+                    </Label>
+                    <p className="mt-1 flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      {workspace.memberCount}
+                    </p>
+                  </div>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="description">描述（可选）</Label>
-                <Textarea
-                  id="description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  disabled={loading}
-                  rows={3}
-                />
+                <div>
+                  <Label className="text-muted-foreground text-sm">
+                    最后更新
+                  </Label>
+                  <p className="mt-1 flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    {workspace.updatedAt.toLocaleString()}
+                  </p>
+                </div>
               </div>
-            </form>
-          )}
 
-          {/* 危险操作 */}
-          {isOwner && (
-            <div className="border-t pt-4">
-              <div className="space-y-2">
-                <Label className="text-destructive text-sm font-medium">
-                  危险操作
-                </Label>
-                <p className="text-muted-foreground text-sm">
-                  删除工作空间将永久删除所有相关数据，此操作不可撤销。
-                </p>
-              </div>
-              {!showDeleteConfirm ? (
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                  onClick={() => setShowDeleteConfirm(true)}
-                  disabled={loading}
-                >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  删除工作空间
-                </Button>
-              ) : (
-                <div className="space-y-2">
-                  <p className="text-destructive text-sm font-medium">
-                    确定要删除工作空间 &quot;{workspace.name}&quot;
-                    吗？此操作不可撤销。
-                  </p>
-                  <div className="flex gap-2">
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      onClick={handleDelete}
+              {/* 编辑表单 */}
+              {isOwner && (
+                <form onSubmit={handleUpdate} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">工作空间名称</Label>
+                    <Input
+                      id="name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
                       disabled={loading}
-                    >
-                      {loading ? "删除中..." : "确认删除"}
-                    </Button>
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="description">描述（可选）</Label>
+                    <Textarea
+                      id="description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      disabled={loading}
+                      rows={3}
+                    />
+                  </div>
+                </form>
+              )}
+
+              {/* 危险操作 */}
+              {isOwner && (
+                <div className="border-t pt-4">
+                  <div className="space-y-2">
+                    <Label className="text-destructive text-sm font-medium">
+                      危险操作
+                    </Label>
+                    <p className="text-muted-foreground text-sm">
+                      删除工作空间将永久删除所有相关数据，此操作不可撤销。
+                    </p>
+                  </div>
+                  {!showDeleteConfirm ? (
                     <Button
                       type="button"
                       variant="outline"
-                      onClick={() => setShowDeleteConfirm(false)}
+                      className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                      onClick={() => setShowDeleteConfirm(true)}
                       disabled={loading}
                     >
-                      取消
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      删除工作空间
                     </Button>
-                  </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-destructive text-sm font-medium">
+                        确定要删除工作空间 &quot;{workspace.name}&quot;
+                        吗？此操作不可撤销。
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          onClick={handleDelete}
+                          disabled={loading}
+                        >
+                          {loading ? "删除中..." : "确认删除"}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => setShowDeleteConfirm(false)}
+                          disabled={loading}
+                        >
+                          取消
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* 非拥有者可以退出工作空间 */}
+              {!isOwner && (
+                <div className="border-t pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                    onClick={handleLeave}
+                    disabled={loading}
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    退出工作空间
+                  </Button>
                 </div>
               )}
             </div>
+          </TabsContent>
+
+          <TabsContent value="members" className="py-4">
+            <WorkspaceMembers
+              workspaceId={workspace.id}
+              role={workspace.role}
+            />
+          </TabsContent>
+
+          {canManageMembers && (
+            <TabsContent value="invites" className="py-4">
+              <WorkspaceInvites
+                workspaceId={workspace.id}
+                role={workspace.role}
+              />
+            </TabsContent>
+          )}
+
+          <TabsContent value="agent" className="py-4">
+            <WorkspaceAgentSettings workspaceId={workspace.id} />
+          </TabsContent>
+
+          <TabsContent value="budget" className="py-4">
+            <WorkspaceBudgetSettings workspaceId={workspace.id} />
+          </TabsContent>
+
+          <TabsContent value="schedule" className="py-4">
+            <WorkspaceScheduledTasks workspaceId={workspace.id} />
+          </TabsContent>
+
+          {canManageMembers && (
+            <TabsContent value="sessions" className="py-4">
+              <WorkspaceSessionArchive workspaceId={workspace.id} />
+            </TabsContent>
           )}
-        </div>
+        </Tabs>
 
         <DialogFooter>
           <Button
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Save } from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  DEFAULT_AGENT_CONFIG,
+  MAX_TURNS_LIMIT,
+  type AgentConfig,
+} from "~/types/agent-config";
+import {
+  formatCommandPolicyText,
+  parseCommandPolicyText,
+} from "~/lib/command-policy";
+
+interface WorkspaceAgentSettingsProps {
+  workspaceId: string;
+}
+
+const PERMISSION_MODE_TEXT: Record<AgentConfig["permissionMode"], string> = {
+  bypassPermissions: "自动执行（跳过确认）",
+  acceptEdits: "自动接受文件编辑",
+  default: "逐项审批（在对话中确认）",
+  plan: "仅规划，不执行",
+};
+
+const LANGUAGE_TEXT: Record<AgentConfig["language"], string> = {
+  "zh-CN": "中文",
+  en: "English",
+  auto: "跟随提问语言",
+};
+
+// 工具、域名列表以逗号或换行分隔
+const parseList = (value: string) =>
+  value
+    .split(/[,，\n]/)
+    .map((tool) => tool.trim())
+    .filter(Boolean);
+
+export function WorkspaceAgentSettings({
+  workspaceId,
+}: WorkspaceAgentSettingsProps) {
+  const utils = api.useUtils();
+  const [config, setConfig] = useState<AgentConfig>(DEFAULT_AGENT_CONFIG);
+  const [allowedTools, setAllowedTools] = useState("");
+  const [disallowedTools, setDisallowedTools] = useState("");
+  const [commandPolicy, setCommandPolicy] = useState("");
+  const [allowedDomains, setAllowedDomains] = useState("");
+
+  const { data, isLoading } = api.workspace.getAgentConfig.useQuery({
+    workspaceId,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setConfig(data.config);
+    setAllowedTools(data.config.allowedTools.join(", "));
+    setDisallowedTools(data.config.disallowedTools.join(", "));
+    setCommandPolicy(formatCommandPolicyText(data.config.commandPolicy));
+    setAllowedDomains(data.config.allowedDomains.join(", "));
+  }, [data]);
+
+  const updateConfigMutation = api.workspace.updateAgentConfig.useMutation({
+    onSuccess: () => {
+      toast.success("Agent 配置已保存");
+      void utils.workspace.getAgentConfig.invalidate({ workspaceId });
+    },
+    onError: (error) => toast.error(error.message || "保存 Agent 配置失败"),
+  });
+
+  const canEdit = data?.canEdit ?? false;
+  const disabled = !canEdit || updateConfigMutation.isPending;
+
+  const { data: commandLogs } = api.workspace.getCommandLogs.useQuery(
+    { workspaceId, limit: 20 },
+    { enabled: canEdit },
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { policy, errors } = parseCommandPolicyText(commandPolicy);
+    if (errors.length > 0) {
+      toast.error(errors.join("\n"));
+      return;
+    }
+    updateConfigMutation.mutate({
+      workspaceId,
+      model: config.model?.trim() ?? null,
+      maxTurns: config.maxTurns,
+      permissionMode: config.permissionMode,
+      allowedTools: parseList(allowedTools),
+      disallowedTools: parseList(disallowedTools),
+      systemPrompt: config.systemPrompt,
+      language: config.language,
+      commandPolicy: policy,
+      allowedDomains: parseList(allowedDomains),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-muted-foreground py-4 text-center text-sm">
+        加载中...
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="max-h-[60vh] space-y-4 overflow-y-auto pr-1"
+    >
+      {!canEdit && (
+        <p className="text-muted-foreground text-sm">
+          仅拥有者和教师可以修改 Agent 配置
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="agent-model">模型</Label>
+          <Input
+            id="agent-model"
+            placeholder="默认模型"
+            value={config.model ?? ""}
+            onChange={(e) => setConfig({ ...config, model: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="agent-max-turns">最大回合数</Label>
+          <Input
+            id="agent-max-turns"
+            type="number"
+            min={1}
+            max={MAX_TURNS_LIMIT}
+            value={config.maxTurns}
+            onChange={(e) =>
+              setConfig({
+                ...config,
+                maxTurns: Math.min(
+                  MAX_TURNS_LIMIT,
+                  Math.max(1, parseInt(e.target.value, 10) || 1),
+                ),
+              })
+            }
+            disabled={disabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>权限模式</Label>
+          <Select
+            value={config.permissionMode}
+            onValueChange={(value) =>
+              setConfig({
+                ...config,
+                permissionMode: value as AgentConfig["permissionMode"],
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERMISSION_MODE_TEXT).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>回复语言</Label>
+          <Select
+            value={config.language}
+            onValueChange={(value) =>
+              setConfig({
+                ...config,
+                language: value as AgentConfig["language"],
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LANGUAGE_TEXT).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="agent-allowed-tools">允许的工具</Label>
+        <Input
+          id="agent-allowed-tools"
+          placeholder="留空表示不限制，例如：Read, Write, Edit"
+          value={allowedTools}
+          onChange={(e) => setAllowedTools(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="agent-disallowed-tools">禁用的工具</Label>
+        <Input
+          id="agent-disallowed-tools"
+          placeholder="例如：WebFetch, WebSearch"
+          value={disallowedTools}
+          onChange={(e) => setDisallowedTools(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="agent-system-prompt">附加系统提示词</Label>
+        <Textarea
+          id="agent-system-prompt"
+          placeholder="例如：你是一名耐心的助教，回答时先给出思路再给出代码"
+          value={config.systemPrompt}
+          onChange={(e) =>
+            setConfig({ ...config, systemPrompt: e.target.value })
+          }
+          disabled={disabled}
+          rows={4}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="agent-allowed-domains">沙箱允许访问的域名</Label>
+        <Input
+          id="agent-allowed-domains"
+          placeholder="留空表示禁止联网，例如：registry.npmjs.org, *.github.com"
+          value={allowedDomains}
+          onChange={(e) => setAllowedDomains(e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="agent-command-policy">命令策略</Label>
+        <Textarea
+          id="agent-command-policy"
+          className="font-mono text-xs"
+          value={commandPolicy}
+          onChange={(e) => setCommandPolicy(e.target.value)}
+          disabled={disabled}
+          rows={5}
+        />
+        <p className="text-muted-foreground text-xs">
+          每行一条规则：allow 或 deny 加命令模式（* 匹配任意字符），可用
+          deny:student 限定角色，# 后为拒绝时反馈给 Agent 的说明；default deny
+          表示未命中规则的命令一律拒绝。管道、&&、子 shell
+          中的每个命令都会单独检查。
+        </p>
+      </div>
+
+      {canEdit && commandLogs && commandLogs.length > 0 && (
+        <div className="space-y-2">
+          <Label>最近的命令判定</Label>
+          <div className="max-h-40 space-y-1 overflow-y-auto rounded-md border p-2">
+            {commandLogs.map((log) => (
+              <div key={log.id} className="flex items-start gap-2 text-xs">
+                <span
+                  className={
+                    log.decision === "allow"
+                      ? "shrink-0 text-green-600"
+                      : "text-destructive shrink-0"
+                  }
+                >
+                  {log.decision === "allow" ? "允许" : "拒绝"}
+                </span>
+                <code
+                  className="min-w-0 flex-1 truncate font-mono"
+                  title={log.reason}
+                >
+                  {log.command}
+                </code>
+                <span className="text-muted-foreground shrink-0">
+                  {log.createdAt.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={updateConfigMutation.isPending}
+        >
+          {updateConfigMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          保存 Agent 配置
+        </Button>
+      )}
+    </form>
+  );
+}
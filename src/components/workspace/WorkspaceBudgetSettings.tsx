@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Save } from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Checkbox } from "~/components/ui/checkbox";
+import { formatCost, formatTokens, getTotalTokens } from "~/lib/usage-utils";
+import {
+  DEFAULT_USAGE_BUDGET,
+  type BudgetPeriod,
+  type BudgetScope,
+  type UsageBudget,
+} from "~/types/budget";
+
+interface WorkspaceBudgetSettingsProps {
+  workspaceId: string;
+}
+
+type LimitKey = Exclude<keyof UsageBudget, "hardCap">;
+
+const SCOPE_TEXT: Record<BudgetScope, string> = {
+  workspace: "工作区合计",
+  user: "每位成员",
+};
+
+const PERIOD_TEXT: Record<BudgetPeriod, string> = {
+  daily: "每日",
+  monthly: "每月",
+};
+
+const limitKey = (
+  scope: BudgetScope,
+  period: BudgetPeriod,
+  metric: "Tokens" | "CostUsd",
+) => `${scope}${period === "daily" ? "Daily" : "Monthly"}${metric}` as LimitKey;
+
+// 空字符串表示不限制
+const parseLimit = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+export function WorkspaceBudgetSettings({
+  workspaceId,
+}: WorkspaceBudgetSettingsProps) {
+  const utils = api.useUtils();
+  const [limits, setLimits] = useState<Record<LimitKey, string>>(
+    {} as Record<LimitKey, string>,
+  );
+  const [hardCap, setHardCap] = useState(DEFAULT_USAGE_BUDGET.hardCap);
+
+  const { data, isLoading } = api.usage.getBudget.useQuery({ workspaceId });
+
+  useEffect(() => {
+    if (!data) return;
+    const { hardCap: savedHardCap, ...savedLimits } = data.budget;
+    setLimits(
+      Object.fromEntries(
+        Object.entries(savedLimits).map(([key, value]) => [
+          key,
+          value === null ? "" : String(value),
+        ]),
+      ) as Record<LimitKey, string>,
+    );
+    setHardCap(savedHardCap);
+  }, [data]);
+
+  const updateBudgetMutation = api.usage.updateBudget.useMutation({
+    onSuccess: () => {
+      toast.success("预算已保存");
+      void utils.usage.getBudget.invalidate({ workspaceId });
+    },
+    onError: (error) => toast.error(error.message || "保存预算失败"),
+  });
+
+  const canEdit = data?.canEdit ?? false;
+  const disabled = !canEdit || updateBudgetMutation.isPending;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const budget = Object.fromEntries(
+      Object.keys(DEFAULT_USAGE_BUDGET)
+        .filter((key): key is LimitKey => key !== "hardCap")
+        .map((key) => {
+          const value = parseLimit(limits[key] ?? "");
+          return [
+            key,
+            value !== null && key.endsWith("Tokens")
+              ? Math.round(value)
+              : value,
+          ];
+        }),
+    ) as Record<LimitKey, number | null>;
+
+    updateBudgetMutation.mutate({ workspaceId, ...budget, hardCap });
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="text-muted-foreground py-4 text-center text-sm">
+        加载中...
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="max-h-[60vh] space-y-4 overflow-y-auto pr-1"
+    >
+      <p className="text-muted-foreground text-sm">
+        留空表示不限制。超出预算后无法发起新的对话
+        {!canEdit && "，仅拥有者和教师可以修改预算"}
+      </p>
+
+      {(["workspace", "user"] as const).map((scope) => (
+        <div key={scope} className="space-y-2">
+          <Label>{SCOPE_TEXT[scope]}</Label>
+          <div className="space-y-2 rounded-md border p-3">
+            {(["daily", "monthly"] as const).map((period) => {
+              const used = data.usage[scope][period];
+              const tokensKey = limitKey(scope, period, "Tokens");
+              const costKey = limitKey(scope, period, "CostUsd");
+
+              return (
+                <div
+                  key={period}
+                  className="grid grid-cols-[3rem_1fr_1fr] items-center gap-2"
+                >
+                  <span className="text-sm">{PERIOD_TEXT[period]}</span>
+                  <div className="space-y-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1000}
+                      placeholder="Token 上限"
+                      value={limits[tokensKey] ?? ""}
+                      onChange={(e) =>
+                        setLimits({ ...limits, [tokensKey]: e.target.value })
+                      }
+                      disabled={disabled}
+                    />
+                    <p className="text-muted-foreground text-xs">
+                      已用 {formatTokens(getTotalTokens(used))}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      placeholder="费用上限（USD）"
+                      value={limits[costKey] ?? ""}
+                      onChange={(e) =>
+                        setLimits({ ...limits, [costKey]: e.target.value })
+                      }
+                      disabled={disabled}
+                    />
+                    <p className="text-muted-foreground text-xs">
+                      已用 {formatCost(used.costUsd)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            {scope === "user" && (
+              <p className="text-muted-foreground text-xs">
+                “已用”为你本人在该工作区的用量
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="budget-hard-cap"
+          checked={hardCap}
+          onCheckedChange={(checked) => setHardCap(checked === true)}
+          disabled={disabled}
+        />
+        <Label htmlFor="budget-hard-cap" className="font-normal">
+          运行中超出 Token 预算时立即停止对话
+        </Label>
+      </div>
+
+      {canEdit && (
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={updateBudgetMutation.isPending}
+        >
+          {updateBudgetMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          保存预算
+        </Button>
+      )}
+    </form>
+  );
+}
@@ -14,13 +14,14 @@ import { Badge } from "~/components/ui/badge";
 import { Users, Calendar, ArrowRight, Plus, Settings } from "lucide-react";
 import { cn } from "~/lib/utils";
 import { WorkspaceSettingsDialog } from "~/components/shared/dialogs/WorkspaceSettingsDialog";
+import type { WorkspaceRole } from "~/types/workspace";
 
 interface WorkspaceCardProps {
   id: string;
   name: string;
   description?: string;
   memberCount: number;
-  role: "owner" | "teacher" | "student";
+  role: WorkspaceRole;
   updatedAt: Date;
   path?: string;
   className?: string;
@@ -28,7 +29,7 @@ interface WorkspaceCardProps {
     id: string;
     name: string;
     description?: string;
-    role: "owner" | "teacher" | "student";
+    role: WorkspaceRole;
     memberCount: number;
     updatedAt: Date;
     path: string;
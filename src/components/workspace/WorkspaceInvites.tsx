@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Ban, Link2, Loader2, Plus } from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import { CopyIcon } from "~/components/shared/CopyIcon";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import type { MemberRole, WorkspaceRole } from "~/types/workspace";
+
+interface WorkspaceInvitesProps {
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+// 有效期选项（小时），never 表示永不过期
+const EXPIRY_OPTIONS = [
+  { value: "24", label: "1 天" },
+  { value: "168", label: "7 天" },
+  { value: "720", label: "30 天" },
+  { value: "never", label: "永不过期" },
+];
+
+const getInviteLink = (code: string) =>
+  `${window.location.origin}/join/${code}`;
+
+export function WorkspaceInvites({ workspaceId, role }: WorkspaceInvitesProps) {
+  const utils = api.useUtils();
+  const [inviteRole, setInviteRole] = useState<MemberRole>("student");
+  const [expiry, setExpiry] = useState("168");
+  const [maxUses, setMaxUses] = useState("");
+
+  const { data: invites = [], isLoading } = api.invite.getInvites.useQuery({
+    workspaceId,
+  });
+
+  const createInviteMutation = api.invite.createInvite.useMutation({
+    onSuccess: (invite) => {
+      void utils.invite.getInvites.invalidate({ workspaceId });
+      void navigator.clipboard.writeText(getInviteLink(invite.code));
+      toast.success("邀请已创建，链接已复制到剪贴板");
+      setMaxUses("");
+    },
+    onError: (error) => toast.error(error.message || "创建邀请失败"),
+  });
+
+  const revokeInviteMutation = api.invite.revokeInvite.useMutation({
+    onSuccess: () => {
+      void utils.invite.getInvites.invalidate({ workspaceId });
+      toast.success("邀请已撤销");
+    },
+    onError: (error) => toast.error(error.message || "撤销邀请失败"),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedMaxUses = parseInt(maxUses, 10);
+    createInviteMutation.mutate({
+      workspaceId,
+      role: inviteRole,
+      expiresInHours: expiry === "never" ? null : parseInt(expiry, 10),
+      maxUses: parsedMaxUses > 0 ? parsedMaxUses : null,
+    });
+  };
+
+  const handleCopy = (code: string, asLink: boolean) => {
+    void navigator.clipboard.writeText(asLink ? getInviteLink(code) : code);
+    toast.success(asLink ? "邀请链接已复制" : "邀请码已复制");
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="space-y-2">
+        <Label>创建邀请</Label>
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            value={inviteRole}
+            onValueChange={(value) => setInviteRole(value as MemberRole)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="student">学生</SelectItem>
+              {role === "owner" && (
+                <SelectItem value="teacher">教师</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            placeholder="次数不限"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+          />
+        </div>
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={createInviteMutation.isPending}
+        >
+          {createInviteMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          生成邀请链接
+        </Button>
+      </form>
+
+      <div className="max-h-64 space-y-2 overflow-y-auto">
+        {isLoading ? (
+          <div className="text-muted-foreground py-4 text-center text-sm">
+            加载中...
+          </div>
+        ) : invites.length === 0 ? (
+          <div className="text-muted-foreground py-4 text-center text-sm">
+            暂无邀请
+          </div>
+        ) : (
+          invites.map((invite) => (
+            <div
+              key={invite.id}
+              className={`flex items-center justify-between rounded-md border p-2 ${
+                invite.isActive ? "" : "opacity-50"
+              }`}
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium">
+                    {invite.code}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {invite.role === "teacher" ? "教师" : "学生"}
+                  </Badge>
+                  {invite.revokedAt && (
+                    <Badge variant="secondary" className="text-xs">
+                      已撤销
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-muted-foreground truncate text-xs">
+                  已使用 {invite.useCount}
+                  {invite.maxUses !== null ? ` / ${invite.maxUses}` : ""} 次 ·{" "}
+                  {invite.expiresAt
+                    ? `${invite.expiresAt.toLocaleString()} 过期`
+                    : "永不过期"}
+                </div>
+              </div>
+
+              {invite.isActive && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleCopy(invite.code, false)}
+                    title="复制邀请码"
+                  >
+                    <CopyIcon />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleCopy(invite.code, true)}
+                    title="复制邀请链接"
+                  >
+                    <Link2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-destructive/10 hover:text-destructive h-8 w-8 p-0"
+                    onClick={() =>
+                      revokeInviteMutation.mutate({ inviteId: invite.id })
+                    }
+                    disabled={revokeInviteMutation.isPending}
+                    title="撤销邀请"
+                  >
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
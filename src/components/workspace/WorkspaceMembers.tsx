@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { useSession } from "next-auth/react";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import type { MemberRole, WorkspaceRole } from "~/types/workspace";
+
+interface WorkspaceMembersProps {
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
+const ROLE_TEXT: Record<WorkspaceRole, string> = {
+  owner: "拥有者",
+  teacher: "教师",
+  student: "学生",
+};
+
+export function WorkspaceMembers({ workspaceId, role }: WorkspaceMembersProps) {
+  const { data: session } = useSession();
+  const utils = api.useUtils();
+  const [email, setEmail] = useState("");
+  const [newRole, setNewRole] = useState<MemberRole>("student");
+
+  const canManage = role === "owner" || role === "teacher";
+  // 教师只能管理学生
+  const canManageRole = (target: WorkspaceRole) =>
+    target !== "owner" && (role === "owner" || target === "student");
+
+  const { data: members = [], isLoading } = api.workspace.getMembers.useQuery({
+    workspaceId,
+  });
+
+  const refresh = () => {
+    void utils.workspace.getMembers.invalidate({ workspaceId });
+    void utils.workspace.getWorkSpaces.invalidate();
+  };
+
+  const addMemberMutation = api.workspace.addMember.useMutation({
+    onSuccess: () => {
+      toast.success("成员已添加");
+      setEmail("");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message || "添加成员失败"),
+  });
+
+  const updateRoleMutation = api.workspace.updateMemberRole.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message || "修改角色失败"),
+  });
+
+  const removeMemberMutation = api.workspace.removeMember.useMutation({
+    onSuccess: () => {
+      toast.success("成员已移除");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message || "移除成员失败"),
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    addMemberMutation.mutate({
+      workspaceId,
+      email: email.trim(),
+      role: newRole,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <Label htmlFor="member-email">添加成员</Label>
+          <div className="flex gap-2">
+            <Input
+              id="member-email"
+              type="email"
+              placeholder="输入已注册用户的邮箱"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={addMemberMutation.isPending}
+            />
+            <Select
+              value={newRole}
+              onValueChange={(value) => setNewRole(value as MemberRole)}
+            >
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="student">学生</SelectItem>
+                {role === "owner" && (
+                  <SelectItem value="teacher">教师</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!email.trim() || addMemberMutation.isPending}
+            >
+              {addMemberMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="max-h-64 space-y-2 overflow-y-auto">
+        {isLoading ? (
+          <div className="text-muted-foreground py-4 text-center text-sm">
+            加载中...
+          </div>
+        ) : (
+          members.map((member) => {
+            const isSelf = member.userId === session?.user?.id;
+            const manageable =
+              !isSelf && member.id && canManageRole(member.role);
+
+            return (
+              <div
+                key={member.userId}
+                className="flex items-center justify-between rounded-md border p-2"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium">
+                    {member.name ?? member.email ?? "未知用户"}
+                    {isSelf && (
+                      <span className="text-muted-foreground ml-1 text-xs">
+                        （你）
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground truncate text-xs">
+                    {member.email}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {manageable && role === "owner" ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        updateRoleMutation.mutate({
+                          workspaceId,
+                          memberId: member.id!,
+                          role: value as MemberRole,
+                        })
+                      }
+                      disabled={updateRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="h-8 w-20 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="teacher">教师</SelectItem>
+                        <SelectItem value="student">学生</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      {ROLE_TEXT[member.role]}
+                    </Badge>
+                  )}
+                  {manageable && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="hover:bg-destructive/10 hover:text-destructive h-8 w-8 p-0"
+                      onClick={() =>
+                        removeMemberMutation.mutate({
+                          workspaceId,
+                          memberId: member.id!,
+                        })
+                      }
+                      disabled={removeMemberMutation.isPending}
+                      title="移除成员"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Clock, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { Badge } from "~/components/ui/badge";
+import { Checkbox } from "~/components/ui/checkbox";
+
+interface WorkspaceScheduledTasksProps {
+  workspaceId: string;
+}
+
+type ScheduledTaskItem = RouterOutputs["schedule"]["list"]["tasks"][number];
+
+interface TaskForm {
+  name: string;
+  prompt: string;
+  cron: string;
+  timezone: string;
+}
+
+const STATUS_TEXT: Record<string, string> = {
+  running: "运行中",
+  completed: "成功",
+  failed: "失败",
+};
+
+const CRON_EXAMPLES = [
+  { cron: "0 8 * * 1", label: "每周一 8:00" },
+  { cron: "0 9 * * *", label: "每天 9:00" },
+  { cron: "0 18 * * 1-5", label: "工作日 18:00" },
+];
+
+// 默认使用浏览器所在时区
+const getDefaultTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const emptyForm = (): TaskForm => ({
+  name: "",
+  prompt: "",
+  cron: "",
+  timezone: getDefaultTimeZone(),
+});
+
+export function WorkspaceScheduledTasks({
+  workspaceId,
+}: WorkspaceScheduledTasksProps) {
+  const utils = api.useUtils();
+  // null 表示不在编辑，"new" 表示创建新任务
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TaskForm>(emptyForm);
+
+  const { data, isLoading } = api.schedule.list.useQuery({ workspaceId });
+
+  const invalidate = () => utils.schedule.list.invalidate({ workspaceId });
+
+  const createMutation = api.schedule.create.useMutation({
+    onSuccess: () => {
+      toast.success("定时任务已创建");
+      setEditingId(null);
+      void invalidate();
+    },
+    onError: (error) => toast.error(error.message || "创建定时任务失败"),
+  });
+
+  const updateMutation = api.schedule.update.useMutation({
+    onSuccess: () => {
+      setEditingId(null);
+      void invalidate();
+    },
+    onError: (error) => toast.error(error.message || "更新定时任务失败"),
+  });
+
+  const deleteMutation = api.schedule.delete.useMutation({
+    onSuccess: () => {
+      toast.success("定时任务已删除");
+      void invalidate();
+    },
+    onError: (error) => toast.error(error.message || "删除定时任务失败"),
+  });
+
+  const canEdit = data?.canEdit ?? false;
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const startEdit = (task?: ScheduledTaskItem) => {
+    setForm(
+      task
+        ? {
+            name: task.name,
+            prompt: task.prompt,
+            cron: task.cron,
+            timezone: task.timezone,
+          }
+        : emptyForm(),
+    );
+    setEditingId(task ? task.id : "new");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === "new") {
+      createMutation.mutate({ workspaceId, ...form, enabled: true });
+    } else if (editingId) {
+      updateMutation.mutate({ workspaceId, id: editingId, ...form });
+    }
+  };
+
+  const handleDelete = (task: ScheduledTaskItem) => {
+    if (!confirm(`确定删除定时任务「${task.name}」吗？已创建的会话会保留`)) {
+      return;
+    }
+    deleteMutation.mutate({ workspaceId, id: task.id });
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="text-muted-foreground py-4 text-center text-sm">
+        加载中...
+      </div>
+    );
+  }
+
+  if (editingId) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-name">名称</Label>
+          <Input
+            id="schedule-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="例如：生成每周教案"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-prompt">提示</Label>
+          <Textarea
+            id="schedule-prompt"
+            value={form.prompt}
+            onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+            placeholder="每次运行时发送给 Agent 的内容"
+            rows={4}
+            required
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-cron">cron 表达式</Label>
+            <Input
+              id="schedule-cron"
+              value={form.cron}
+              onChange={(e) => setForm({ ...form, cron: e.target.value })}
+              placeholder="分 时 日 月 周"
+              className="font-mono"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-timezone">时区</Label>
+            <Input
+              id="schedule-timezone"
+              value={form.timezone}
+              onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              placeholder="Asia/Shanghai"
+              required
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {CRON_EXAMPLES.map((example) => (
+            <Badge
+              key={example.cron}
+              variant="outline"
+              className="cursor-pointer"
+              onClick={() => setForm({ ...form, cron: example.cron })}
+            >
+              {example.label}
+            </Badge>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setEditingId(null)}
+            disabled={isSaving}
+          >
+            取消
+          </Button>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            保存
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-sm">
+          按计划自动运行提示，每次运行都会创建一个新会话
+          {!canEdit && "，仅拥有者和教师可以管理定时任务"}
+        </p>
+        {canEdit && (
+          <Button size="sm" onClick={() => startEdit()}>
+            <Plus className="mr-1 h-4 w-4" />
+            新建
+          </Button>
+        )}
+      </div>
+
+      {data.tasks.length === 0 ? (
+        <div className="text-muted-foreground py-4 text-center text-sm">
+          暂无定时任务
+        </div>
+      ) : (
+        <div className="max-h-[50vh] divide-y overflow-y-auto rounded-md border">
+          {data.tasks.map((task) => (
+            <div key={task.id} className="space-y-1 px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex min-w-0 items-center gap-2">
+                  <Checkbox
+                    checked={task.enabled}
+                    onCheckedChange={(checked) =>
+                      updateMutation.mutate({
+                        workspaceId,
+                        id: task.id,
+                        enabled: checked === true,
+                      })
+                    }
+                    disabled={!task.editable || updateMutation.isPending}
+                    title={task.enabled ? "停用" : "启用"}
+                  />
+                  <span
+                    className="truncate text-sm font-medium"
+                    title={task.prompt}
+                  >
+                    {task.name}
+                  </span>
+                  {task.lastStatus && (
+                    <Badge
+                      variant={
+                        task.lastStatus === "failed"
+                          ? "destructive"
+                          : "secondary"
+                      }
+                      title={task.lastError ?? undefined}
+                    >
+                      {STATUS_TEXT[task.lastStatus] ?? task.lastStatus}
+                    </Badge>
+                  )}
+                </div>
+                {task.editable && (
+                  <div className="flex shrink-0 items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => startEdit(task)}
+                      title="编辑"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="hover:bg-destructive/10 hover:text-destructive h-7 w-7 p-0"
+                      onClick={() => handleDelete(task)}
+                      disabled={deleteMutation.isPending}
+                      title="删除"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <p className="text-muted-foreground flex flex-wrap items-center gap-x-3 text-xs">
+                <span className="flex items-center gap-1 font-mono">
+                  <Clock className="h-3 w-3" />
+                  {task.cron}
+                </span>
+                <span>{task.timezone}</span>
+                {task.nextRunAt && (
+                  <span>下次：{task.nextRunAt.toLocaleString()}</span>
+                )}
+                {task.lastRunAt && (
+                  <span>上次：{task.lastRunAt.toLocaleString()}</span>
+                )}
+                <span className="truncate">
+                  {task.user.name ?? task.user.email ?? "未知用户"}
+                </span>
+              </p>
+              {task.lastStatus === "failed" && task.lastError && (
+                <p
+                  className="text-destructive truncate text-xs"
+                  title={task.lastError}
+                >
+                  {task.lastError}
+                </p>
+              )}
+
+              {task.sessions.length > 0 && (
+                <div className="flex flex-wrap gap-x-3 text-xs">
+                  {task.sessions.map((session) => (
+                    <Link
+                      key={session.id}
+                      href={`/workspace/${workspaceId}?id=${session.id}`}
+                      className="text-primary hover:underline"
+                      title={session.title}
+                    >
+                      {session.createdAt.toLocaleDateString()}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { MessageSquare } from "lucide-react";
+import { api } from "~/trpc/react";
+import { SessionExportMenu } from "~/components/features/chat/SessionExportMenu";
+
+interface WorkspaceSessionArchiveProps {
+  workspaceId: string;
+}
+
+export function WorkspaceSessionArchive({
+  workspaceId,
+}: WorkspaceSessionArchiveProps) {
+  const { data: sessions, isLoading } = api.agent.getReviewSessions.useQuery({
+    workspaceId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-muted-foreground py-4 text-center text-sm">
+        加载中...
+      </div>
+    );
+  }
+
+  if (!sessions?.length) {
+    return (
+      <div className="text-muted-foreground py-4 text-center text-sm">
+        暂无会话
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-muted-foreground text-sm">
+        导出成员的对话记录用于归档和批改，保存到工作区的文件位于 exports 目录
+      </p>
+      <div className="max-h-[50vh] divide-y overflow-y-auto rounded-md border">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-2 px-3 py-2"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium" title={session.title}>
+                {session.title}
+              </p>
+              <p className="text-muted-foreground flex items-center gap-2 text-xs">
+                <span className="truncate">
+                  {session.user.name ?? session.user.email ?? "未知用户"}
+                </span>
+                <span>{session.updatedAt.toLocaleString()}</span>
+                <span className="flex items-center gap-0.5">
+                  <MessageSquare className="h-3 w-3" />
+                  {session._count.messages}
+                </span>
+              </p>
+            </div>
+            <SessionExportMenu sessionId={session.id} canSaveToWorkspace />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,18 +3,37 @@ import { useRouter, usePathname, useSearchParams } from 'next/navigation';
 import { api } from '~/trpc/react';
 import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import type { TaskStatus } from '~/server/api/routers/agent';
+import type { PermissionDecision, ToolPermissionRequestInfo } from '~/types/permission';
+import type { AgentProgress } from '~/types/queue';
+
+// 运行中追加、等待当前运行结束后发送的提示
+export interface PendingPrompt {
+  id: string;
+  content: string;
+}
 
 // Hook 返回类型 - 直接使用推断类型
 interface UseBackgroundQueryReturn {
   messages: SDKMessage[];
   isLoading: boolean;
   status: TaskStatus;
+  queuePosition: number | null;  // 排队位置（从 1 开始），仅 queued 状态时有值
+  estimatedStartAt: number | null;  // 预计开始时间（毫秒时间戳）
+  progress: AgentProgress | null;  // 运行中任务的进度
   error: string | null;
   id: string | null;
   sessionId: string | null; // 保持向后兼容，但现在返回数据库 ID
   jobId: string | null;
   isCancelling: boolean;
-  sendQuery: (query: string) => Promise<void>;
+  pendingPermissions: ToolPermissionRequestInfo[];  // 等待用户审批的工具调用
+  pendingPrompts: PendingPrompt[];  // 待发送的后续提示
+  sendQuery: (query: string) => Promise<void>;  // 运行中调用时加入待发送队列
+  updatePendingPrompt: (promptId: string, content: string) => Promise<void>;
+  removePendingPrompt: (promptId: string) => Promise<void>;
+  sendPendingPrompt: () => Promise<void>;  // 立即发送下一条待发送的提示
+  injectPendingPrompt: (promptId: string) => Promise<void>;  // 运行中插话，不等当前运行结束
+  editQuery: (messageIndex: number, query: string) => Promise<void>;  // 编辑之前的提示，在新分支中重新发送
+  respondPermission: (requestId: string, decision: PermissionDecision) => Promise<void>;
   cancelQuery: () => Promise<void>;
   reset: () => void;
 }
@@ -35,18 +54,43 @@ export function useBackgroundQuery(
   const [error, setError] = useState<string | null>(null);
   const [id, setId] = useState<string | null>(initialId ?? null);
   const [jobId, setJobId] = useState<string | null>(null);
+  const [pendingPermissions, setPendingPermissions] = useState<ToolPermissionRequestInfo[]>([]);
+  const [progress, setProgress] = useState<AgentProgress | null>(null);
+  const [queueInfo, setQueueInfo] = useState<{ queuePosition: number | null; estimatedStartAt: number | null }>({
+    queuePosition: null,
+    estimatedStartAt: null,
+  });
 
   // Refs 用于跟踪当前任务
   const currentIdRef = useRef<string | null>(initialId ?? null);
   const currentJobRef = useRef<string | null>(null);
+  // 已收到的最后一条消息序号，用于合并增量消息
+  const cursorRef = useRef<number>(-1);
 
   // API hooks
+  const utils = api.useUtils();
   const startQueryMutation = api.agent.startQuery.useMutation();
+  const addPendingPromptMutation = api.agent.addPendingPrompt.useMutation();
+  const updatePendingPromptMutation = api.agent.updatePendingPrompt.useMutation();
+  const deletePendingPromptMutation = api.agent.deletePendingPrompt.useMutation();
+  const sendPendingPromptMutation = api.agent.sendPendingPrompt.useMutation();
+  const injectPendingPromptMutation = api.agent.injectPendingPrompt.useMutation();
+  const editPromptMutation = api.agent.editPrompt.useMutation();
   const cancelQueryMutation = api.agent.cancelQuery.useMutation();
+  const respondPermissionMutation = api.agent.respondPermission.useMutation();
 
   // 取消状态管理
   const [isCancelling, setIsCancelling] = useState(false);
 
+  // 待发送的提示
+  const { data: pendingPrompts = [] } = api.agent.getPendingPrompts.useQuery(
+    { id: id ?? '' },
+    { enabled: !!id }
+  );
+  const refetchPendingPrompts = useCallback(() => {
+    if (id) void utils.agent.getPendingPrompts.invalidate({ id });
+  }, [id, utils]);
+
   // 更新URL中的id参数
   const updateIdInUrl = useCallback((newId: string) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -64,29 +108,81 @@ export function useBackgroundQuery(
       setStatus('idle');
       setError(null);
       setMessages([]);
+      setPendingPermissions([]);
+      setProgress(null);
+      cursorRef.current = -1;
     }
   }, [initialId]);
 
   // 动态订阅 - watchQuery 作为唯一的数据源
-  api.agent.watchQuery.useSubscription(
+  const watchSubscription = api.agent.watchQuery.useSubscription(
     { id: id ?? '' },
     {
       enabled: !!id, // 只要有 id 就启用订阅
-      onData: (data) => {
+      onData: ({ data }) => {
         console.log('📡 Received subscription data:', data);
 
-        // 处理消息更新 - 无论是否有 sessionId 都要更新消息
+        // 处理消息更新 - 服务端只推送游标之后的消息（断线重连时由 lastEventId 补发），按序号去重后追加
         if (data.messages && Array.isArray(data.messages)) {
-          setMessages(data.messages);
+          const incoming = data.messages;
+          const cursor = data.cursor;
+
+          if (cursor === undefined) {
+            setMessages(prev => [...prev, ...incoming]);
+          } else if (cursor > cursorRef.current) {
+            // 只追加尚未收到的部分
+            const fresh = incoming.slice(
+              Math.max(0, incoming.length - (cursor - cursorRef.current))
+            );
+            cursorRef.current = cursor;
+            setMessages(prev => [...prev, ...fresh]);
+          }
+        }
+
+        // 处理工具调用审批
+        if (data.pendingPermissions) {
+          setPendingPermissions(data.pendingPermissions);
+        }
+        if (data.type === 'permission_request' && data.permissionRequest) {
+          const request = data.permissionRequest;
+          setPendingPermissions(prev => [...prev.filter(p => p.id !== request.id), request]);
+        }
+        if (data.type === 'permission_resolved' && data.permissionRequest) {
+          const requestId = data.permissionRequest.id;
+          setPendingPermissions(prev => prev.filter(p => p.id !== requestId));
+        }
+
+        // 运行进度：init 和 progress_update 事件携带，运行结束后清除
+        if (data.progress !== undefined) {
+          setProgress(data.progress);
+        }
+        if (data.status && data.status !== 'running') {
+          setProgress(null);
         }
 
+        // 自动生成标题后刷新 session 列表
+        if (data.type === 'session_updated') {
+          onMessageCompleted?.();
+          return;
+        }
+
+        // 运行开始或结束时，待发送的提示可能已被取走
+        if (data.status && data.status !== 'running' && data.type !== 'queue_update') {
+          refetchPendingPrompts();
+        }
 
         // 处理状态更新 - 直接从 data 中获取
         if (data.status) {
           setStatus(data.status);
+          setQueueInfo({
+            queuePosition: data.status === 'queued' ? data.queuePosition ?? null : null,
+            estimatedStartAt: data.status === 'queued' ? data.estimatedStartAt ?? null : null,
+          });
 
           // 根据状态更新 loading 和 error
-          if (data.status === 'running') {
+          if (data.status === 'queued') {
+            setIsLoading(true);
+          } else if (data.status === 'running') {
             setIsLoading(true);
             setError(null);
           } else if (data.status === 'completed') {
@@ -132,7 +228,21 @@ export function useBackgroundQuery(
 
   // 发送查询
   const sendQuery = useCallback(async (query: string) => {
-    if (!workspaceId || isLoading) return;
+    if (!workspaceId) return;
+
+    // 当前运行未结束：加入待发送队列，运行结束后自动发送
+    if (isLoading) {
+      if (!id) return;
+      try {
+        await addPendingPromptMutation.mutateAsync({ id, content: query });
+        refetchPendingPrompts();
+      } catch (err: unknown) {
+        const error = err as { message?: string };
+        console.error('Failed to queue prompt:', error);
+        setError(error?.message ?? '加入待发送队列失败');
+      }
+      return;
+    }
 
     try {
       setIsLoading(true);
@@ -172,7 +282,77 @@ export function useBackgroundQuery(
       setIsLoading(false);
       setStatus('failed');
     }
-  }, [workspaceId, isLoading, startQueryMutation, id, searchParams, updateIdInUrl]);
+  }, [workspaceId, isLoading, startQueryMutation, addPendingPromptMutation, refetchPendingPrompts, id, searchParams, updateIdInUrl]);
+
+  // 修改 / 删除待发送的提示
+  const updatePendingPrompt = useCallback(async (promptId: string, content: string) => {
+    try {
+      await updatePendingPromptMutation.mutateAsync({ promptId, content });
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      setError(error?.message ?? '修改提示失败');
+    } finally {
+      refetchPendingPrompts();
+    }
+  }, [updatePendingPromptMutation, refetchPendingPrompts]);
+
+  const removePendingPrompt = useCallback(async (promptId: string) => {
+    try {
+      await deletePendingPromptMutation.mutateAsync({ promptId });
+    } finally {
+      refetchPendingPrompts();
+    }
+  }, [deletePendingPromptMutation, refetchPendingPrompts]);
+
+  // 上一次运行失败或被取消后，待发送队列不会自动继续，由用户手动发送
+  const sendPendingPrompt = useCallback(async () => {
+    if (!id || isLoading) return;
+
+    try {
+      setError(null);
+      await sendPendingPromptMutation.mutateAsync({ id });
+      setIsLoading(true);
+      setStatus('queued');
+      // 上一次运行结束时订阅已关闭，重新订阅以接收新的运行
+      watchSubscription.reset();
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      setError(error?.message ?? '发送失败');
+    } finally {
+      refetchPendingPrompts();
+    }
+  }, [id, isLoading, sendPendingPromptMutation, refetchPendingPrompts, watchSubscription]);
+
+  // 把待发送的提示直接发给运行中的 Agent，插话消息由订阅推送
+  const injectPendingPrompt = useCallback(async (promptId: string) => {
+    try {
+      setError(null);
+      await injectPendingPromptMutation.mutateAsync({ promptId });
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      setError(error?.message ?? '插话失败');
+    } finally {
+      refetchPendingPrompts();
+    }
+  }, [injectPendingPromptMutation, refetchPendingPrompts]);
+
+  // 编辑之前的提示并重新发送 - 服务端创建分支会话，切换到分支后由订阅加载消息
+  const editQuery = useCallback(async (messageIndex: number, query: string) => {
+    if (!id || isLoading) return;
+
+    try {
+      setError(null);
+      const result = await editPromptMutation.mutateAsync({ id, messageIndex, query });
+      if (!result.id) {
+        throw new Error('Invalid response from server');
+      }
+      updateIdInUrl(result.id);
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      console.error('Failed to edit query:', error);
+      setError(error?.message ?? '重新发送失败');
+    }
+  }, [id, isLoading, editPromptMutation, updateIdInUrl]);
 
   // 取消查询
   const cancelQuery = useCallback(async () => {
@@ -206,9 +386,26 @@ export function useBackgroundQuery(
     }
   }, [id, isCancelling, cancelQueryMutation]);
 
+  // 回应工具调用审批
+  const respondPermission = useCallback(async (requestId: string, decision: PermissionDecision) => {
+    try {
+      await respondPermissionMutation.mutateAsync({ requestId, ...decision });
+      setPendingPermissions(prev => prev.filter(p => p.id !== requestId));
+    } catch (err: unknown) {
+      const error = err as { message?: string };
+      console.error('Failed to respond permission:', error);
+      // 已处理或已超时的请求从列表中移除
+      setPendingPermissions(prev => prev.filter(p => p.id !== requestId));
+      setError(error?.message ?? '审批失败');
+    }
+  }, [respondPermissionMutation]);
+
   // 重置状态
   const reset = useCallback(() => {
     setMessages([]);
+    setPendingPermissions([]);
+    setProgress(null);
+    cursorRef.current = -1;
     setIsLoading(false);
     setStatus('idle');
     setError(null);
@@ -222,13 +419,24 @@ export function useBackgroundQuery(
     messages,
     isLoading,
     status,
+    queuePosition: queueInfo.queuePosition,
+    estimatedStartAt: queueInfo.estimatedStartAt,
+    progress,
     error,
     id, // 数据库主键
     sessionId: id, // 向后兼容，返回数据库 ID
     jobId,
     isCancelling,
+    pendingPermissions,
+    pendingPrompts,
     sendQuery,
+    updatePendingPrompt,
+    removePendingPrompt,
+    sendPendingPrompt,
+    injectPendingPrompt,
+    editQuery,
     cancelQuery,
+    respondPermission,
     reset,
   };
 }
\ No newline at end of file
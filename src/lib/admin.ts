@@ -0,0 +1,19 @@
+/**
+ * 系统管理员
+ * 由环境变量 ADMIN_EMAILS（逗号分隔的邮箱列表）指定，可以查看和管理全局任务队列
+ */
+
+function getAdminEmails() {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * 判断用户是否为系统管理员
+ */
+export function isAdminEmail(email: string | null | undefined) {
+  if (!email) return false;
+  return getAdminEmails().includes(email.toLowerCase());
+}
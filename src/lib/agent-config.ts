@@ -0,0 +1,135 @@
+/**
+ * 工作区 Agent 配置
+ * 读取 WorkspaceAgentConfig 并与默认值合并，生成 query() 所需的系统提示词
+ */
+
+import type { PrismaClient, WorkspaceAgentConfig } from '@prisma/client';
+import {
+  DEFAULT_AGENT_CONFIG,
+  PERMISSION_MODES,
+  REPLY_LANGUAGES,
+  type AgentConfig,
+} from '~/types/agent-config';
+import { DEFAULT_COMMAND_POLICY, type CommandPolicy, type CommandRule } from '~/types/command-policy';
+
+// 回复语言对应的提示词
+const LANGUAGE_INSTRUCTIONS: Record<AgentConfig['language'], string> = {
+  'zh-CN': '使用中文回复。',
+  en: 'Always reply in English.',
+  auto: '使用与用户提问相同的语言回复。',
+};
+
+// 受限环境说明，所有工作区共用
+const BASE_SYSTEM_PROMPT = `
+           - 始终在workspace目录下操作。
+           - 对于workspace以外的文件路径，拒绝访问并说明原因。
+           - 如果需要创建文件，请确保文件路径在workspace目录下。
+           - 如果需要运行命令，请确保命令不会破坏系统环境。
+           - 若需要安装node依赖，请使用pnpm进行安装。
+           - [important] 你处在一个受限环境中，无法直接使用任何bash指令，只能使用srt命令与外界交互。
+              Usage: srt [options] <command...>
+
+              Run commands in a sandbox with network and filesystem restrictions
+
+              Arguments:
+                command                command to run in the sandbox
+
+              Options:
+                -V, --version          output the version number
+                -d, --debug            enable debug logging
+                -s, --settings <path>  path to config file (default: ~/.srt-settings.json)
+                -h, --help             display help for command
+           `;
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+function isCommandRule(value: unknown): value is CommandRule {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  return (rule.effect === 'allow' || rule.effect === 'deny') && typeof rule.pattern === 'string';
+}
+
+/**
+ * 解析存储的命令策略，为空或格式错误时使用默认策略
+ */
+function toCommandPolicy(value: unknown): CommandPolicy {
+  if (!value || typeof value !== 'object') return DEFAULT_COMMAND_POLICY;
+
+  const policy = value as Record<string, unknown>;
+  if (!Array.isArray(policy.rules)) return DEFAULT_COMMAND_POLICY;
+
+  return {
+    defaultEffect: policy.defaultEffect === 'allow' ? 'allow' : 'deny',
+    rules: policy.rules.filter(isCommandRule),
+  };
+}
+
+/**
+ * 将数据库记录转换为 AgentConfig，非法值回退到默认值
+ */
+export function toAgentConfig(row: WorkspaceAgentConfig | null): AgentConfig {
+  if (!row) return { ...DEFAULT_AGENT_CONFIG };
+
+  const permissionMode = PERMISSION_MODES.find(mode => mode === row.permissionMode);
+  const language = REPLY_LANGUAGES.find(lang => lang === row.language);
+
+  return {
+    model: row.model?.trim() ? row.model.trim() : null,
+    maxTurns: row.maxTurns > 0 ? row.maxTurns : DEFAULT_AGENT_CONFIG.maxTurns,
+    permissionMode: permissionMode ?? DEFAULT_AGENT_CONFIG.permissionMode,
+    allowedTools: toStringArray(row.allowedTools),
+    disallowedTools: toStringArray(row.disallowedTools),
+    systemPrompt: row.systemPrompt,
+    language: language ?? DEFAULT_AGENT_CONFIG.language,
+    commandPolicy: toCommandPolicy(row.commandPolicy),
+    allowedDomains: toStringArray(row.allowedDomains),
+  };
+}
+
+/**
+ * 获取工作区的 Agent 配置，未配置时返回默认值
+ */
+export async function getWorkspaceAgentConfig(
+  db: PrismaClient,
+  workspaceId: string
+): Promise<AgentConfig> {
+  const row = await db.workspaceAgentConfig.findUnique({
+    where: { workspaceId },
+  });
+  return toAgentConfig(row);
+}
+
+/**
+ * 生成追加到 claude_code 预设后的系统提示词
+ */
+export function buildSystemPromptAppend(
+  config: AgentConfig,
+  sandbox?: { settingsPath: string; tmpDir: string; readOnly: boolean }
+): string {
+  const sections = [
+    BASE_SYSTEM_PROMPT,
+    `           - ${LANGUAGE_INSTRUCTIONS[config.language]}`,
+  ];
+
+  if (sandbox) {
+    sections.push(
+      `           - [important] 运行命令时必须指定本工作区的沙箱配置：srt --settings ${sandbox.settingsPath} <command...>`,
+      sandbox.readOnly
+        ? `           - 当前用户对工作区只有只读权限，不能修改工作区中的文件；沙箱中只能写入临时目录 ${sandbox.tmpDir}，不要写入 /tmp。`
+        : `           - 沙箱中只能写入工作区目录和临时目录 ${sandbox.tmpDir}，不要写入 /tmp。`,
+      config.allowedDomains.length > 0
+        ? `           - 沙箱只允许访问以下域名：${config.allowedDomains.join(', ')}。`
+        : '           - 沙箱禁止访问网络。',
+    );
+  }
+
+  if (config.systemPrompt.trim()) {
+    sections.push(`\n工作区附加说明：\n${config.systemPrompt.trim()}`);
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Agent 消息存储
+ * 每条 SDKMessage 单独存一行（AgentMessage），按会话内 seq 递增，
+ * 追加消息和增量订阅都只涉及新增的行
+ */
+
+import type { AgentSession, Prisma, PrismaClient } from '@prisma/client';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+
+// 同一会话的追加按调用顺序串行执行，避免并发读取到相同的最大 seq
+const appendQueues = new Map<string, Promise<unknown>>();
+// 其他进程同时写入同一会话时 seq 仍可能冲突，冲突后重新分配序号
+const APPEND_MAX_ATTEMPTS = 5;
+
+function isUniqueConstraintError(error: unknown) {
+  return (error as { code?: unknown } | null)?.code === 'P2002';
+}
+
+async function insertSessionMessage(
+  db: PrismaClient,
+  agentSessionId: string,
+  message: SDKMessage,
+  additionalData?: Prisma.AgentSessionUpdateInput
+) {
+  return await db.$transaction(async (tx) => {
+    const last = await tx.agentMessage.findFirst({
+      where: { agentSessionId },
+      orderBy: { seq: 'desc' },
+      select: { seq: true },
+    });
+    const seq = (last?.seq ?? -1) + 1;
+
+    await tx.agentMessage.create({
+      data: {
+        agentSessionId,
+        seq,
+        type: message.type,
+        payload: message as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await tx.agentSession.update({
+      where: { id: agentSessionId },
+      data: {
+        updatedAt: new Date(),
+        ...additionalData,
+      },
+    });
+
+    return { seq, message };
+  });
+}
+
+/**
+ * 追加一条消息到会话，同时更新会话的其他字段（如 sessionId）
+ * 返回分配到的序号
+ */
+export async function appendSessionMessage(
+  db: PrismaClient,
+  agentSessionId: string,
+  message: SDKMessage,
+  additionalData?: Prisma.AgentSessionUpdateInput
+) {
+  const previous = appendQueues.get(agentSessionId) ?? Promise.resolve();
+  const current = previous
+    .catch(() => undefined)
+    .then(async () => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await insertSessionMessage(db, agentSessionId, message, additionalData);
+        } catch (error) {
+          if (!isUniqueConstraintError(error) || attempt >= APPEND_MAX_ATTEMPTS) throw error;
+        }
+      }
+    });
+
+  appendQueues.set(agentSessionId, current);
+  try {
+    return await current;
+  } finally {
+    // 队列中没有后续追加时释放
+    if (appendQueues.get(agentSessionId) === current) appendQueues.delete(agentSessionId);
+  }
+}
+
+/**
+ * 读取会话消息
+ * 传入 afterSeq 时只返回序号大于 afterSeq 的消息；cursor 为最后一条消息的序号，没有消息时为 -1
+ */
+export async function getSessionMessages(
+  db: PrismaClient,
+  agentSessionId: string,
+  afterSeq?: number
+) {
+  const rows = await db.agentMessage.findMany({
+    where: {
+      agentSessionId,
+      ...(afterSeq !== undefined ? { seq: { gt: afterSeq } } : {}),
+    },
+    orderBy: { seq: 'asc' },
+    select: { seq: true, payload: true },
+  });
+
+  return {
+    messages: rows.map(row => row.payload as unknown as SDKMessage),
+    cursor: rows.at(-1)?.seq ?? afterSeq ?? -1,
+  };
+}
+
+type BranchSource = { id: string; sessionId: string | null; workspaceId: string; userId: string; title: string };
+
+// 用户输入的提示（工具结果也是 user 消息，但 content 为数组）
+export function isUserPrompt(message: SDKMessage) {
+  return message.type === 'user' && typeof message.message.content === 'string';
+}
+
+/**
+ * 保留会话前 keep 条消息创建分支会话
+ * 分支点为保留部分最后一条 assistant 消息，分支会话首次运行时以 forkSession + resumeSessionAt 方式恢复 Claude 会话；
+ * 保留部分没有 assistant 消息时：allowEmpty 为 true 则创建空的分支会话（从头开始对话），否则返回 null
+ */
+async function createBranchSession(db: PrismaClient, source: BranchSource, keep: number, allowEmpty: true): Promise<AgentSession>;
+async function createBranchSession(db: PrismaClient, source: BranchSource, keep: number, allowEmpty: boolean): Promise<AgentSession | null>;
+async function createBranchSession(
+  db: PrismaClient,
+  source: BranchSource,
+  keep: number,
+  allowEmpty: boolean
+): Promise<AgentSession | null> {
+  const rows = keep > 0
+    ? await db.agentMessage.findMany({
+      where: { agentSessionId: source.id },
+      orderBy: { seq: 'asc' },
+      take: keep,
+      select: { seq: true, type: true, payload: true },
+    })
+    : [];
+  const messages = rows.map(row => row.payload as unknown as SDKMessage);
+
+  const forkPoint = [...messages].reverse().find(message => message.type === 'assistant');
+  const canResume = forkPoint?.type === 'assistant' && !!source.sessionId;
+  if (!canResume && !allowEmpty) return null;
+
+  return await db.$transaction(async (tx) => {
+    const branch = await tx.agentSession.create({
+      data: {
+        workspaceId: source.workspaceId,
+        userId: source.userId,
+        title: `${source.title}（分支）`,
+        parentId: source.id,
+        branchPromptIndex: canResume ? messages.filter(isUserPrompt).length : 0,
+        ...(canResume && {
+          forkedFromSessionId: source.sessionId,
+          forkedAtMessageId: forkPoint.message.id,
+        }),
+      },
+    });
+
+    if (canResume) {
+      await tx.agentMessage.createMany({
+        data: rows.map(row => ({
+          agentSessionId: branch.id,
+          seq: row.seq,
+          type: row.type,
+          payload: row.payload as Prisma.InputJsonValue,
+        })),
+      });
+    }
+
+    return branch;
+  });
+}
+
+/**
+ * 从指定消息处创建分支会话，复制 messageIndex 及之前的消息
+ * 分支点之前没有 assistant 消息时返回 null
+ */
+export async function forkSessionAt(db: PrismaClient, source: BranchSource, messageIndex: number) {
+  return await createBranchSession(db, source, messageIndex + 1, false);
+}
+
+/**
+ * 编辑用户提示后重新发送：复制该提示之前的消息创建分支会话，原会话保持不变
+ * 编辑的是第一条提示时，分支会话从头开始对话
+ */
+export async function branchBeforeMessage(db: PrismaClient, source: BranchSource, messageIndex: number) {
+  return await createBranchSession(db, source, messageIndex, true);
+}
@@ -0,0 +1,102 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProgressTracker } from './agent-progress';
+
+function assistant(id: string, content: unknown[], parentToolUseId: string | null = null) {
+  return {
+    type: 'assistant',
+    parent_tool_use_id: parentToolUseId,
+    message: { id, content },
+  } as unknown as SDKMessage;
+}
+
+function toolResult(toolUseId: string) {
+  return {
+    type: 'user',
+    parent_tool_use_id: null,
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUseId, content: 'ok' }] },
+  } as unknown as SDKMessage;
+}
+
+const toolUse = (id: string, name: string, input: unknown = {}) => ({ type: 'tool_use', id, name, input });
+
+describe('createProgressTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with an empty snapshot', () => {
+    expect(createProgressTracker(30).snapshot()).toEqual({
+      turn: 0,
+      maxTurns: 30,
+      todos: [],
+      activeTool: null,
+      startedAt: new Date('2026-10-19T08:00:00Z').getTime(),
+    });
+  });
+
+  it('counts one turn per main-agent response', () => {
+    const tracker = createProgressTracker(30);
+    expect(tracker.track(assistant('m1', [{ type: 'text', text: 'a' }]))).toBe(true);
+    // 同一响应拆分出的消息
+    expect(tracker.track(assistant('m1', [{ type: 'text', text: 'b' }]))).toBe(false);
+    // 子 Agent 的响应
+    expect(tracker.track(assistant('s1', [{ type: 'text', text: 'c' }], 'tool-1'))).toBe(false);
+    expect(tracker.track(assistant('m2', [{ type: 'text', text: 'd' }]))).toBe(true);
+    expect(tracker.snapshot().turn).toBe(2);
+  });
+
+  it('shows the latest tool that has not returned', () => {
+    const tracker = createProgressTracker(30);
+    tracker.track(assistant('m1', [toolUse('t1', 'Read'), toolUse('t2', 'Grep')]));
+    expect(tracker.snapshot().activeTool).toBe('Grep');
+
+    expect(tracker.track(toolResult('t2'))).toBe(true);
+    expect(tracker.snapshot().activeTool).toBe('Read');
+
+    tracker.track(toolResult('t1'));
+    expect(tracker.snapshot().activeTool).toBeNull();
+  });
+
+  it('clears running tools when the run ends', () => {
+    const tracker = createProgressTracker(30);
+    tracker.track(assistant('m1', [toolUse('t1', 'Bash')]));
+    expect(tracker.track({ type: 'result' } as unknown as SDKMessage)).toBe(true);
+    expect(tracker.snapshot().activeTool).toBeNull();
+  });
+
+  it('replaces todos from TodoWrite and drops malformed items', () => {
+    const tracker = createProgressTracker(30);
+    tracker.track(assistant('m1', [toolUse('t1', 'TodoWrite', {
+      todos: [
+        { content: '读代码', status: 'completed', activeForm: '正在读代码' },
+        { content: '写测试', status: 'in_progress' },
+        { content: '无效状态', status: 'done' },
+        { status: 'pending' },
+      ],
+    })]));
+
+    expect(tracker.snapshot().todos).toEqual([
+      { content: '读代码', status: 'completed', activeForm: '正在读代码' },
+      { content: '写测试', status: 'in_progress', activeForm: undefined },
+    ]);
+
+    // 输入格式不对时保留原列表
+    tracker.track(assistant('m2', [toolUse('t2', 'TodoWrite', { items: [] })]));
+    expect(tracker.snapshot().todos).toHaveLength(2);
+  });
+
+  it('returns snapshots that later tracking does not change', () => {
+    const tracker = createProgressTracker(30);
+    tracker.track(assistant('m1', [toolUse('t1', 'TodoWrite', { todos: [{ content: 'a', status: 'pending' }] })]));
+    const snapshot = tracker.snapshot();
+    tracker.track(assistant('m2', [toolUse('t2', 'TodoWrite', { todos: [] })]));
+    expect(snapshot.todos).toHaveLength(1);
+    expect(snapshot.turn).toBe(1);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Agent 运行进度
+ * 从消息流中提取当前回合、TodoWrite 任务列表和正在执行的工具
+ */
+
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { AgentProgress, AgentTodo } from '~/types/queue';
+
+const TODO_STATUSES: readonly AgentTodo['status'][] = ['pending', 'in_progress', 'completed'];
+
+// 解析 TodoWrite 的输入，忽略格式不对的项
+function parseTodos(input: unknown): AgentTodo[] | null {
+  const todos = (input as { todos?: unknown } | null)?.todos;
+  if (!Array.isArray(todos)) return null;
+
+  return todos.flatMap((item): AgentTodo[] => {
+    const todo = item as Partial<AgentTodo> | null;
+    if (typeof todo?.content !== 'string' || !TODO_STATUSES.includes(todo.status!)) return [];
+    return [{
+      content: todo.content,
+      status: todo.status!,
+      activeForm: typeof todo.activeForm === 'string' ? todo.activeForm : undefined,
+    }];
+  });
+}
+
+/**
+ * 创建一次运行的进度跟踪器
+ * track 返回进度是否发生变化，只在变化时保存和推送
+ */
+export function createProgressTracker(maxTurns: number) {
+  const progress: AgentProgress = {
+    turn: 0,
+    maxTurns,
+    todos: [],
+    activeTool: null,
+    startedAt: Date.now(),
+  };
+  // 本回合已计入的 assistant 消息（同一响应可能拆成多条消息）
+  const countedMessages = new Set<string>();
+  // 尚未返回结果的工具调用，按调用顺序记录
+  const runningTools = new Map<string, string>();
+
+  const refreshActiveTool = () => {
+    const names = [...runningTools.values()];
+    const activeTool = names[names.length - 1] ?? null;
+    if (activeTool === progress.activeTool) return false;
+    progress.activeTool = activeTool;
+    return true;
+  };
+
+  return {
+    snapshot: (): AgentProgress => ({ ...progress, todos: [...progress.todos] }),
+
+    track: (message: SDKMessage): boolean => {
+      let changed = false;
+
+      if (message.type === 'assistant') {
+        // 子 Agent 的消息不计入回合数
+        if (message.parent_tool_use_id === null && !countedMessages.has(message.message.id)) {
+          countedMessages.add(message.message.id);
+          progress.turn += 1;
+          changed = true;
+        }
+
+        for (const block of message.message.content) {
+          if (block.type !== 'tool_use') continue;
+          runningTools.set(block.id, block.name);
+
+          if (block.name === 'TodoWrite') {
+            const todos = parseTodos(block.input);
+            if (todos) {
+              progress.todos = todos;
+              changed = true;
+            }
+          }
+        }
+        changed = refreshActiveTool() || changed;
+      }
+
+      if (message.type === 'user' && Array.isArray(message.message.content)) {
+        for (const block of message.message.content) {
+          if (block.type === 'tool_result') runningTools.delete(block.tool_use_id);
+        }
+        changed = refreshActiveTool() || changed;
+      }
+
+      if (message.type === 'result') {
+        runningTools.clear();
+        changed = refreshActiveTool() || changed;
+      }
+
+      return changed;
+    },
+  };
+}
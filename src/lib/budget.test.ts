@@ -0,0 +1,96 @@
+import type { PrismaClient } from '@prisma/client';
+import type { SDKAssistantMessage } from '@anthropic-ai/claude-agent-sdk';
+import { describe, expect, it } from 'vitest';
+import { createBudgetGuard, findBudgetViolation, formatBudgetViolation } from './budget';
+import { DEFAULT_USAGE_BUDGET, type BudgetUsage, type UsageBudget } from '~/types/budget';
+import type { UsageTotals } from '~/types/usage';
+
+function totals(tokens: number, costUsd = 0): UsageTotals {
+  return {
+    runs: 1,
+    inputTokens: tokens,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd,
+    durationMs: 0,
+    numTurns: 0,
+  };
+}
+
+function usage(user: number, workspace: number, costUsd = 0): BudgetUsage {
+  return {
+    user: { daily: totals(user, costUsd), monthly: totals(user, costUsd) },
+    workspace: { daily: totals(workspace, costUsd), monthly: totals(workspace, costUsd) },
+  };
+}
+
+function assistant(id: string, outputTokens: number) {
+  return {
+    type: 'assistant',
+    message: { id, usage: { input_tokens: 0, output_tokens: outputTokens } },
+  } as unknown as SDKAssistantMessage;
+}
+
+// 预算和已用量固定的数据库
+function fakeDb(budget: Partial<UsageBudget>, usedTokens: number) {
+  return {
+    workspaceBudget: {
+      findUnique: () => Promise.resolve({ ...DEFAULT_USAGE_BUDGET, ...budget }),
+    },
+    usageRecord: {
+      aggregate: () => Promise.resolve({
+        _sum: { inputTokens: usedTokens },
+        _count: { _all: 1 },
+      }),
+    },
+  } as unknown as PrismaClient;
+}
+
+describe('findBudgetViolation', () => {
+  it('returns null without limits', () => {
+    expect(findBudgetViolation(DEFAULT_USAGE_BUDGET, usage(1e9, 1e9, 1e6))).toBeNull();
+  });
+
+  it('checks member budgets before workspace budgets', () => {
+    const budget = { ...DEFAULT_USAGE_BUDGET, userMonthlyTokens: 100, workspaceDailyTokens: 100 };
+    expect(findBudgetViolation(budget, usage(100, 100))).toEqual({
+      scope: 'user',
+      period: 'monthly',
+      metric: 'tokens',
+      limit: 100,
+      used: 100,
+    });
+    expect(findBudgetViolation(budget, usage(50, 100))).toMatchObject({ scope: 'workspace', period: 'daily' });
+    expect(findBudgetViolation(budget, usage(50, 99))).toBeNull();
+  });
+
+  it('adds pending tokens to token limits only', () => {
+    const budget = { ...DEFAULT_USAGE_BUDGET, userDailyTokens: 100, userDailyCostUsd: 1 };
+    expect(findBudgetViolation(budget, usage(60, 60, 0.5), 40)).toMatchObject({ metric: 'tokens', used: 100 });
+    expect(findBudgetViolation(budget, usage(0, 0, 1))).toMatchObject({ metric: 'cost', used: 1 });
+  });
+});
+
+describe('formatBudgetViolation', () => {
+  it('describes the exceeded budget', () => {
+    expect(formatBudgetViolation({ scope: 'workspace', period: 'monthly', metric: 'cost', limit: 5, used: 5.126 }))
+      .toBe('工作区本月用量已达上限（已用 $5.13 / 预算 $5.00），请联系教师调整预算');
+  });
+});
+
+describe('createBudgetGuard', () => {
+  it('stops a run once its tokens reach the limit, counting each message id once', async () => {
+    const guard = await createBudgetGuard(fakeDb({ userDailyTokens: 1000 }, 900), 'w1', 'u1');
+    expect(guard.check()).toBeNull();
+    expect(guard.track(assistant('m1', 60))).toBeNull();
+    // 同一条 API 消息拆分出的后续消息不重复计数
+    expect(guard.track(assistant('m1', 60))).toBeNull();
+    expect(guard.track(assistant('m2', 40))).toMatchObject({ scope: 'user', metric: 'tokens', used: 1000 });
+  });
+
+  it('does not stop runs without a hard cap', async () => {
+    const guard = await createBudgetGuard(fakeDb({ userDailyTokens: 1000, hardCap: false }, 900), 'w1', 'u1');
+    expect(guard.track(assistant('m1', 500))).toBeNull();
+  });
+});
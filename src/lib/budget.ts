@@ -0,0 +1,176 @@
+/**
+ * 用量预算
+ * 入队前检查工作区和成员的日/月预算，运行中按 assistant 消息累计 token，超出硬上限时停止查询
+ */
+
+import { TRPCError } from '@trpc/server';
+import type { PrismaClient, WorkspaceBudget } from '@prisma/client';
+import type { SDKAssistantMessage } from '@anthropic-ai/claude-agent-sdk';
+import { sumUsage } from './usage';
+import { getTotalTokens } from './usage-utils';
+import {
+  DEFAULT_USAGE_BUDGET,
+  type BudgetPeriod,
+  type BudgetUsage,
+  type BudgetViolation,
+  type UsageBudget,
+} from '~/types/budget';
+
+/**
+ * 将数据库记录转换为 UsageBudget
+ */
+export function toUsageBudget(row: WorkspaceBudget | null): UsageBudget {
+  if (!row) return { ...DEFAULT_USAGE_BUDGET };
+
+  return {
+    workspaceDailyTokens: row.workspaceDailyTokens,
+    workspaceMonthlyTokens: row.workspaceMonthlyTokens,
+    workspaceDailyCostUsd: row.workspaceDailyCostUsd,
+    workspaceMonthlyCostUsd: row.workspaceMonthlyCostUsd,
+    userDailyTokens: row.userDailyTokens,
+    userMonthlyTokens: row.userMonthlyTokens,
+    userDailyCostUsd: row.userDailyCostUsd,
+    userMonthlyCostUsd: row.userMonthlyCostUsd,
+    hardCap: row.hardCap,
+  };
+}
+
+export async function getWorkspaceBudget(db: PrismaClient, workspaceId: string): Promise<UsageBudget> {
+  const row = await db.workspaceBudget.findUnique({ where: { workspaceId } });
+  return toUsageBudget(row);
+}
+
+// 统计周期起点（服务器本地时间）
+function getPeriodStart(period: BudgetPeriod, now = new Date()) {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * 获取当前周期内工作区和成员的已用量
+ */
+export async function getBudgetUsage(
+  db: PrismaClient,
+  workspaceId: string,
+  userId: string
+): Promise<BudgetUsage> {
+  const daily = { gte: getPeriodStart('daily') };
+  const monthly = { gte: getPeriodStart('monthly') };
+
+  const [workspaceDaily, workspaceMonthly, userDaily, userMonthly] = await Promise.all([
+    sumUsage(db, { workspaceId, createdAt: daily }),
+    sumUsage(db, { workspaceId, createdAt: monthly }),
+    sumUsage(db, { workspaceId, userId, createdAt: daily }),
+    sumUsage(db, { workspaceId, userId, createdAt: monthly }),
+  ]);
+
+  return {
+    workspace: { daily: workspaceDaily, monthly: workspaceMonthly },
+    user: { daily: userDaily, monthly: userMonthly },
+  };
+}
+
+/**
+ * 找出第一个超出的预算项
+ * pendingTokens 为运行中尚未记录的 token 数
+ */
+export function findBudgetViolation(
+  budget: UsageBudget,
+  usage: BudgetUsage,
+  pendingTokens = 0
+): BudgetViolation | null {
+  const checks: Array<Omit<BudgetViolation, 'limit'> & { limit: number | null }> = [];
+
+  for (const scope of ['user', 'workspace'] as const) {
+    for (const period of ['daily', 'monthly'] as const) {
+      const totals = usage[scope][period];
+      const prefix = `${scope}${period === 'daily' ? 'Daily' : 'Monthly'}` as const;
+      checks.push(
+        {
+          scope,
+          period,
+          metric: 'tokens',
+          limit: budget[`${prefix}Tokens`],
+          used: getTotalTokens(totals) + pendingTokens,
+        },
+        {
+          scope,
+          period,
+          metric: 'cost',
+          limit: budget[`${prefix}CostUsd`],
+          used: totals.costUsd,
+        },
+      );
+    }
+  }
+
+  for (const check of checks) {
+    if (check.limit !== null && check.used >= check.limit) {
+      return { ...check, limit: check.limit };
+    }
+  }
+  return null;
+}
+
+/**
+ * 预算超出的提示
+ */
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const scope = violation.scope === 'workspace' ? '工作区' : '你在该工作区的';
+  const period = violation.period === 'daily' ? '今日' : '本月';
+  const amount = (value: number) => violation.metric === 'cost'
+    ? `$${value.toFixed(2)}`
+    : `${value.toLocaleString()} tokens`;
+
+  return `${scope}${period}用量已达上限（已用 ${amount(violation.used)} / 预算 ${amount(violation.limit)}），请联系教师调整预算`;
+}
+
+/**
+ * 入队前检查预算，超出时抛出 TRPCError
+ */
+export async function ensureWithinBudget(db: PrismaClient, workspaceId: string, userId: string) {
+  const budget = await getWorkspaceBudget(db, workspaceId);
+  const usage = await getBudgetUsage(db, workspaceId, userId);
+  const violation = findBudgetViolation(budget, usage);
+
+  if (violation) {
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: formatBudgetViolation(violation),
+    });
+  }
+}
+
+/**
+ * 运行中的预算守卫
+ * 同一条 API 消息会拆成多条 assistant 消息，按消息 id 去重后累计 token
+ */
+export async function createBudgetGuard(db: PrismaClient, workspaceId: string, userId: string) {
+  const budget = await getWorkspaceBudget(db, workspaceId);
+  const usage = await getBudgetUsage(db, workspaceId, userId);
+  const counted = new Map<string, number>();
+
+  return {
+    // 运行前检查
+    check: () => findBudgetViolation(budget, usage),
+
+    // 累计一条 assistant 消息，超出硬上限时返回超出的预算项
+    track: (message: SDKAssistantMessage): BudgetViolation | null => {
+      const { id, usage: messageUsage } = message.message;
+      counted.set(
+        id,
+        messageUsage.input_tokens +
+          messageUsage.output_tokens +
+          (messageUsage.cache_read_input_tokens ?? 0) +
+          (messageUsage.cache_creation_input_tokens ?? 0)
+      );
+
+      if (!budget.hardCap) return null;
+
+      const runTokens = [...counted.values()].reduce((sum, tokens) => sum + tokens, 0);
+      const violation = findBudgetViolation(budget, usage, runTokens);
+      return violation?.metric === 'tokens' ? violation : null;
+    },
+  };
+}
@@ -2,17 +2,40 @@
  * BullMQ Worker 处理逻辑
  */
 
-import { Worker } from 'bullmq';
+import { DelayedError, Queue, UnrecoverableError, Worker } from 'bullmq';
 import type { Job } from 'bullmq';
 import { PrismaClient } from '@prisma/client';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import type { HookInput, HookJSONOutput, SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { HookInput, HookJSONOutput, PermissionMode, SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
 import { join } from 'path';
 import type { TaskStatus } from '~/types/status';
 import { getWorkspaceBaseDir } from './workspace-config';
-import type { AgentTaskData } from '~/types/queue';
+import type { AgentTaskData, AgentTaskResult, JobAttempt } from '~/types/queue';
 import type { Redis } from 'ioredis';
 import type { BashInput } from '~/types/tools';
+import { appendSessionMessage } from './agent-messages';
+import { summarizeSession } from './session-title';
+import { buildSystemPromptAppend, getWorkspaceAgentConfig } from './agent-config';
+import { createCanUseTool } from './tool-permissions';
+import { subscriptionManager } from './subscription-manager';
+import { evaluateCommand } from './command-policy';
+import { hasPermission, resolveWorkspaceAccess } from './workspace-access';
+import type { CommandPolicy } from '~/types/command-policy';
+import type { WorkspaceRole } from '~/types/workspace';
+import { recordUsage, toUsageBaseline } from './usage';
+import { createBudgetGuard, formatBudgetViolation } from './budget';
+import type { BudgetViolation } from '~/types/budget';
+import { createJobSandbox, FILE_EDIT_TOOLS, findUnsandboxedCommands } from './sandbox-settings';
+import { isUserAtConcurrencyLimit } from './fair-queue';
+import { classifyJobError, classifyResultError, JobError } from './job-errors';
+import { redisConnection } from './redis';
+import { acquireLiveSession, startLiveSession, type LiveSession } from './live-session';
+import { createProgressTracker } from './agent-progress';
+import { ensureResumableTranscript } from './session-import';
+import { PERMISSION_MODES, type AgentConfig } from '~/types/agent-config';
+
+// 用户并发数达到上限时，任务延后重新排队的间隔
+const USER_LIMIT_RETRY_DELAY_MS = 5000;
 
 // PrismaClient 单例
 let prismaInstance: PrismaClient | null = null;
@@ -21,71 +44,310 @@ export const getPrisma = () => {
   return prismaInstance;
 };
 
-async function checkBashCommand(
-  input_data: HookInput,
-): Promise<HookJSONOutput> {
+// 查询队列中其他任务用的 Queue 单例（不能引用 bullmq.ts，避免循环依赖）
+let queueInstance: Queue<AgentTaskData> | null = null;
+const getAgentQueue = () => {
+  queueInstance ??= new Queue<AgentTaskData>('agent-tasks', { connection: redisConnection });
+  return queueInstance;
+};
 
-  if (input_data.hook_event_name === 'PreToolUse') {
-    const bashinput = input_data.tool_input as BashInput
+/**
+ * 创建 Bash 命令策略检查 hook
+ * 按工作区策略和用户角色判定命令，每次判定都会记录日志
+ */
+function createCommandPolicyHook(options: {
+  db: PrismaClient;
+  workspaceId: string;
+  agentSessionId: string;
+  userId: string;
+  role: WorkspaceRole;
+  policy: CommandPolicy;
+  settingsPath: string;
+}) {
+  const { db, workspaceId, agentSessionId, userId, role, policy, settingsPath } = options;
+
+  return async (input_data: HookInput): Promise<HookJSONOutput> => {
+    if (input_data.hook_event_name !== 'PreToolUse') return {};
+
+    const bashinput = input_data.tool_input as BashInput;
     const command = bashinput.command;
+    const decision = evaluateCommand(command, policy, role);
 
-    // 只允许 srt 命令
-    if (!command.startsWith('srt')) {
-      return {
-        reason: "Only srt commands are allowed",
-        hookSpecificOutput: {
-          hookEventName: "PreToolUse",
-          permissionDecision: "deny",
-          permissionDecisionReason: "Security policy: only srt commands permitted"
-        }
-      };
+    // srt 必须使用本任务生成的沙箱配置
+    const unsandboxed = decision.allowed ? findUnsandboxedCommands(command, settingsPath) : [];
+    if (unsandboxed.length > 0) {
+      decision.allowed = false;
+      decision.reason = `沙箱配置错误：${unsandboxed.map(cmd => `\`${cmd}\``).join('；')} 未在本工作区的沙箱中执行，请使用 srt --settings ${settingsPath} <command...> 重试；读写文件的重定向需要放在沙箱内，如 srt --settings ${settingsPath} sh -c '<command> > file'。`;
     }
-  }
 
-  // 允许 srt 命令
-  return {};
+    console.log(`🛡️ Command ${decision.allowed ? 'allowed' : 'denied'} for session ${agentSessionId}: ${command}`);
+
+    try {
+      await db.commandPolicyLog.create({
+        data: {
+          workspaceId,
+          agentSessionId,
+          userId,
+          role,
+          command,
+          decision: decision.allowed ? 'allow' : 'deny',
+          reason: decision.reason,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to write command policy log:', error);
+    }
+
+    if (decision.allowed) return {};
+
+    return {
+      reason: decision.reason,
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: decision.reason,
+      },
+    };
+  };
 }
 
-// 公共方法：更新会话消息
-async function updateSessionMessages(
-  where: { id: string } | { sessionId: string },
-  newMessage: SDKMessage,
-  additionalData?: Record<string, unknown>
-) {
-  const prisma = getPrisma();
-  const currentSession = await prisma.agentSession.findUnique({
-    where,
-    select: { messages: true, id: true, sessionId: true }
+/**
+ * 定时任务触发的 job 没有会话 ID：为本次运行创建新会话，并写回 job 数据，重试时复用同一会话
+ * 任务已删除或已停用时返回 null
+ */
+async function createScheduledSession(db: PrismaClient, job: Job<AgentTaskData>) {
+  const { scheduledTaskId, workspaceId, userId } = job.data;
+  if (!scheduledTaskId) return null;
+
+  const task = await db.scheduledTask.findUnique({
+    where: { id: scheduledTaskId },
+    select: { name: true, enabled: true },
+  });
+  if (!task?.enabled) return null;
+
+  const session = await db.agentSession.create({
+    data: {
+      workspaceId,
+      userId,
+      title: task.name,
+      scheduledTaskId,
+    },
+    select: { id: true },
   });
+  await job.updateData({ ...job.data, id: session.id });
 
-  if (!currentSession) return null;
+  return session.id;
+}
 
-  const messagesStr = typeof currentSession.messages === 'string'
-    ? currentSession.messages
-    : '[]';
-  const currentMessages = JSON.parse(messagesStr) as SDKMessage[];
-  const updatedMessages = [...currentMessages, newMessage];
+// 记录定时任务最近一次运行的状态
+async function updateScheduledTaskStatus(
+  db: PrismaClient,
+  scheduledTaskId: string | undefined,
+  status: TaskStatus,
+  error: string | null = null
+) {
+  if (!scheduledTaskId) return;
 
-  await prisma.agentSession.update({
-    where,
-    data: {
-      messages: JSON.stringify(updatedMessages),
-      ...additionalData
-    }
+  try {
+    await db.scheduledTask.updateMany({
+      where: { id: scheduledTaskId },
+      data: {
+        lastStatus: status,
+        lastError: error,
+        ...(status === 'running' ? { lastRunAt: new Date() } : {}),
+      },
+    });
+  } catch (err) {
+    console.error(`Failed to update scheduled task ${scheduledTaskId}:`, err);
+  }
+}
+
+// 更新 job 数据中最近一次尝试的记录
+async function updateLastAttempt(job: Job<AgentTaskData>, patch: Partial<JobAttempt>) {
+  const attempts = [...(job.data.attempts ?? [])];
+  const last = attempts.pop();
+  if (!last) return;
+  await job.updateData({ ...job.data, attempts: [...attempts, { ...last, ...patch }] });
+}
+
+// 重试时发送给恢复会话的提示：附上原始请求，提醒模型跳过已完成的步骤
+function buildResumePrompt(queryText: string) {
+  return [
+    '上一次执行因临时错误中断。下面是原始请求，请先检查哪些步骤已经完成，不要重复已完成的操作（例如再次写入同样的文件），然后继续完成剩余部分。',
+    '',
+    '<original_request>',
+    queryText,
+    '</original_request>',
+  ].join('\n');
+}
+
+/**
+ * 为会话启动新的 Claude Code 进程（流式输入模式）
+ * 沙箱配置、命令策略 hook 和审批回调随进程创建，进程退出后清理沙箱
+ */
+async function launchLiveSession(options: {
+  db: PrismaClient;
+  id: string;
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  agentConfig: AgentConfig;
+  cwd: string;
+  fingerprint: string;
+  model: string | null;
+  permissionMode: PermissionMode;
+  resume?: string;
+  forkSession: boolean;
+  resumeSessionAt?: string;
+}): Promise<LiveSession> {
+  const { db, id, workspaceId, userId, agentConfig, cwd } = options;
+  // 没有写文件权限的角色只读运行：沙箱不允许写入工作区，并禁用编辑文件的工具
+  const readOnly = !hasPermission(options.role, 'file:write');
+
+  // 生成只允许访问当前工作区的沙箱配置
+  const sandbox = await createJobSandbox({
+    jobId: `${id}-${Date.now()}`,
+    workspaceDir: cwd,
+    allowedDomains: agentConfig.allowedDomains,
+    readOnly,
+  });
+
+  const checkBashCommand = createCommandPolicyHook({
+    db,
+    workspaceId,
+    agentSessionId: id,
+    userId,
+    role: options.role,
+    policy: agentConfig.commandPolicy,
+    settingsPath: sandbox.settingsPath,
   });
 
-  return { currentSession, updatedMessages };
+  // 逐项审批模式：工具调用前等待用户在对话中批准
+  const canUseTool = options.permissionMode === 'default'
+    ? createCanUseTool({
+      db,
+      agentSessionId: id,
+      emit: (data) => subscriptionManager.emit(id, data),
+      getSessionId: () => live.sessionId,
+    })
+    : undefined;
+
+  // 运行结束后才处理的插话：照常保存消息、记录用量并推送
+  const onIdleMessage = async (message: SDKMessage) => {
+    if (message.type !== 'user' && message.type !== 'assistant' && message.type !== 'result') return;
+    if (message.type === 'result') {
+      await recordUsage(db, { agentSessionId: id, workspaceId, userId }, message, live.usageBaseline);
+      live.usageBaseline = toUsageBaseline(message);
+    }
+
+    const { seq } = await appendSessionMessage(db, id, message);
+    subscriptionManager.emit(id, {
+      type: 'message_update',
+      id,
+      sessionId: live.sessionId,
+      messages: [message],
+      cursor: seq,
+      status: message.type === 'result' ? (message.subtype === 'success' ? 'completed' : 'failed') : 'running',
+      timestamp: new Date()
+    });
+  };
+
+  let live: LiveSession;
+  try {
+    live = startLiveSession({
+      id,
+      fingerprint: options.fingerprint,
+      model: options.model,
+      permissionMode: options.permissionMode,
+      start: (prompt) => query({
+        prompt,
+        options: {
+          model: options.model ?? undefined,
+          maxTurns: agentConfig.maxTurns,
+          permissionMode: options.permissionMode,
+          canUseTool,
+          allowedTools: agentConfig.allowedTools.length > 0 ? agentConfig.allowedTools : undefined,
+          disallowedTools: readOnly ? [...agentConfig.disallowedTools, ...FILE_EDIT_TOOLS] : agentConfig.disallowedTools,
+          settingSources: ['project'],
+          hooks: {
+            PreToolUse: [
+              { matcher: "Bash", hooks: [checkBashCommand] }
+            ]
+          },
+          resume: options.resume,
+          forkSession: options.forkSession,
+          resumeSessionAt: options.resumeSessionAt,
+          cwd,
+          env: { ...process.env, TMPDIR: sandbox.tmpDir },
+          systemPrompt: {
+            type: "preset",
+            preset: "claude_code",
+            append: buildSystemPromptAppend(agentConfig, sandbox)
+          },
+        }
+      }),
+      onIdleMessage,
+      // 进程启动后新建的工作区不在配置的禁止读取列表中，每次运行前重新生成
+      beforeRun: () => sandbox.refresh(),
+      onClose: () => sandbox.cleanup(),
+    });
+  } catch (error) {
+    await sandbox.cleanup().catch(() => undefined);
+    throw error;
+  }
+
+  return live;
 }
 
 // Worker 处理函数
-export async function processAgentTask(job: Job<AgentTaskData>) {
-  const { id, sessionId, query: queryText, workspaceId } = job.data;
+export async function processAgentTask(job: Job<AgentTaskData>, token?: string): Promise<AgentTaskResult> {
+  const { sessionId, query: queryText, workspaceId, userId, scheduledTaskId } = job.data;
   const prisma = getPrisma();
 
-  // 延迟导入 subscriptionManager
-  const { subscriptionManager } = await import('~/server/api/routers/agent');
+  // 用户同时运行的任务数达到上限时延后重新排队，不计入重试次数
+  if (token && await isUserAtConcurrencyLimit(getAgentQueue(), job)) {
+    console.log(`⏸️ User ${userId} reached concurrency limit, delaying job ${job.id}`);
+    await job.moveToDelayed(Date.now() + USER_LIMIT_RETRY_DELAY_MS, token);
+    throw new DelayedError();
+  }
+
+  const id = job.data.id ?? await createScheduledSession(prisma, job);
+  if (!id) {
+    console.log(`⏭️ Skipping job ${job.id}: scheduled task ${scheduledTaskId} no longer exists or is disabled`);
+    return { success: false };
+  }
+
+  // 记录本次尝试；上一次尝试已开始执行时，恢复该 SDK 会话继续，而不是重新发送提示，
+  // 避免重复执行已完成的文件写入等操作
+  // （管理员手动重试失败任务时 attemptsMade 会清零，因此以 job 数据中的记录为准）
+  const attemptNumber = (job.data.attempts?.length ?? 0) + 1;
+  const canRetry = job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+  const resumeSessionId = job.data.startedSessionId;
+  await job.updateData({
+    ...job.data,
+    id,
+    attempts: [
+      ...(job.data.attempts ?? []),
+      {
+        attempt: attemptNumber,
+        startedAt: Date.now(),
+        finishedAt: null,
+        resumed: !!resumeSessionId,
+        errorKind: null,
+        error: null,
+        willRetry: false,
+      },
+    ],
+  });
+
+  console.log(`🚀 Starting job ${job.id} for session ${id} (attempt ${attemptNumber}${resumeSessionId ? ', resuming' : ''})`);
+  await updateScheduledTaskStatus(prisma, scheduledTaskId, 'running');
 
-  console.log(`🚀 Starting job ${job.id} for session ${id}`);
+  let live: LiveSession | null = null;
+  // 正常结束的运行保留进程等待后续提示，中断或出错时关闭
+  let keepAlive = false;
+  // 查询注册后被注销说明用户中断了运行
+  let queryRegistered = false;
 
   try {
     // 1. 更新任务状态为运行中（先清理可能已有相同 bullJobId 的 session，防止唯一约束冲突）
@@ -112,203 +374,361 @@ export async function processAgentTask(job: Job<AgentTaskData>) {
 
     const cwd = join(getWorkspaceBaseDir(), workspace.path);
 
-    // 3. 执行查询
-    const queryInstance = query({
-      prompt: queryText,
-      options: {
-        maxTurns: 30,
-        permissionMode: 'bypassPermissions',
-        settingSources: ['project'],
-        hooks: {
-          PreToolUse: [
-            { matcher: "Bash", hooks: [checkBashCommand] }
-          ]
-        },
-        resume: sessionId,
+    // 3. 读取工作区 Agent 配置并执行查询
+    const agentConfig = await getWorkspaceAgentConfig(prisma, workspaceId);
+    const access = await resolveWorkspaceAccess(prisma, workspaceId, userId);
+    if (!access) {
+      throw new Error(`User ${userId} has no access to workspace ${workspaceId}`);
+    }
+
+    // 排队期间可能已超出预算，开始前再检查一次
+    const budgetGuard = await createBudgetGuard(prisma, workspaceId, userId);
+    const startViolation = budgetGuard.check();
+    if (startViolation) {
+      throw new JobError('budget', formatBudgetViolation(startViolation));
+    }
+    // 以下状态在消息回调中更新，用 as 声明类型，避免被收窄为初始值
+    let budgetViolation = null as BudgetViolation | null;
+    let resultError = null as string | null;
+    let retryableResult = null as JobError | null;
+    let interrupted = false as boolean;
+
+    // 会话中选择的模型和权限模式优先于工作区配置
+    const sessionSettings = await prisma.agentSession.findUnique({
+      where: { id },
+      select: { model: true, permissionMode: true, forkedFromSessionId: true, forkedAtMessageId: true }
+    });
+    const resolveModel = (model: string | null | undefined) => model ?? agentConfig.model;
+    const resolvePermissionMode = (mode: string | null | undefined) =>
+      PERMISSION_MODES.find(item => item === mode) ?? agentConfig.permissionMode;
+    const model = resolveModel(sessionSettings?.model);
+    const permissionMode = resolvePermissionMode(sessionSettings?.permissionMode);
+    // 逐项审批需要在进程启动时注册 canUseTool，运行中只能在同类模式之间切换
+    const approval = permissionMode === 'default';
+
+    // 影响进程启动参数的配置，变化后不能复用保持中的进程
+    const fingerprint = JSON.stringify({
+      cwd,
+      role: access.role,
+      approval,
+      maxTurns: agentConfig.maxTurns,
+      allowedTools: agentConfig.allowedTools,
+      disallowedTools: agentConfig.disallowedTools,
+      systemPrompt: agentConfig.systemPrompt,
+      language: agentConfig.language,
+      commandPolicy: agentConfig.commandPolicy,
+      allowedDomains: agentConfig.allowedDomains,
+    });
+
+    // 4. 复用会话保持中的进程，没有时启动新进程
+    const reused = await acquireLiveSession(id, fingerprint);
+    let liveSession: LiveSession;
+    if (reused) {
+      console.log(`🔥 Reusing live session for ${id}`);
+      liveSession = reused;
+      if (liveSession.model !== model) {
+        await liveSession.query.setModel(model ?? undefined);
+        liveSession.model = model;
+      }
+      if (liveSession.permissionMode !== permissionMode) {
+        await liveSession.query.setPermissionMode(permissionMode);
+        liveSession.permissionMode = permissionMode;
+      }
+    } else {
+      // 分支会话首次运行：从来源会话的分支点派生新的 Claude 会话
+      const forkSource = sessionId ?? resumeSessionId ? null : sessionSettings;
+      const isFirstForkRun = !!forkSource?.forkedFromSessionId;
+      const resume = resumeSessionId ?? sessionId ?? forkSource?.forkedFromSessionId ?? undefined;
+
+      // 导入的会话记录只保存在数据库中，恢复前写入本机的 Claude 项目目录（分支会话恢复来源会话时同样需要）
+      if (resume) {
+        const imported = await prisma.agentSession.findUnique({
+          where: { sessionId: resume },
+          select: { importedTranscript: true }
+        });
+        if (imported?.importedTranscript) {
+          await ensureResumableTranscript(resume, imported.importedTranscript, cwd);
+        }
+      }
+
+      liveSession = await launchLiveSession({
+        db: prisma,
+        id,
+        workspaceId,
+        userId,
+        role: access.role,
+        agentConfig,
         cwd,
-        systemPrompt: {
-          type: "preset",
-          preset: "claude_code",
-          append: `
-           - 始终在workspace目录下操作，使用中文回复。
-           - 对于workspace以外的文件路径，拒绝访问并说明原因。
-           - 如果需要创建文件，请确保文件路径在workspace目录下。
-           - 如果需要运行命令，请确保命令不会破坏系统环境。
-           - 若需要安装node依赖，请使用pnpm进行安装。
-           - [important] 你处在一个受限环境中，无法直接使用任何bash指令，只能使用srt命令与外界交互。
-              Usage: srt [options] <command...>
-                      
-              Run commands in a sandbox with network and filesystem restrictions
-                      
-              Arguments:
-                command                command to run in the sandbox
-                      
-              Options:
-                -V, --version          output the version number
-                -d, --debug            enable debug logging
-                -s, --settings <path>  path to config file (default: ~/.srt-settings.json)
-                -h, --help             display help for command
-           `
+        fingerprint,
+        model,
+        permissionMode,
+        resume,
+        forkSession: isFirstForkRun,
+        resumeSessionAt: isFirstForkRun ? forkSource?.forkedAtMessageId ?? undefined : undefined,
+      });
+    }
+    live = liveSession;
+
+    let realSessionId = liveSession.sessionId ?? sessionId;
+
+    // 公共方法：保存一条消息并推送增量
+    const pushMessage = async (
+      message: SDKMessage,
+      status: TaskStatus,
+      additionalData?: { sessionId: string }
+    ) => {
+      const { seq } = await appendSessionMessage(prisma, id, message, additionalData);
+      subscriptionManager.emit(id, {
+        type: 'message_update',
+        id,
+        sessionId: realSessionId ?? null,
+        messages: [message],
+        cursor: seq,
+        status,
+        timestamp: new Date()
+      });
+    };
+
+    // 记录已开始执行的会话（之后的重试从这里恢复），并保存用户提示
+    let promptSaved = false;
+    const savePrompt = async (claudeSessionId: string) => {
+      if (promptSaved) return;
+      promptSaved = true;
+
+      if (job.data.startedSessionId !== claudeSessionId) {
+        await job.updateData({ ...job.data, startedSessionId: claudeSessionId });
+      }
+
+      // 恢复执行时用户提示已在记录中，不再重复保存
+      if (resumeSessionId) return;
+      const userMessage: SDKUserMessage = {
+        type: "user",
+        message: {
+          role: "user",
+          content: queryText,
         },
+        session_id: claudeSessionId,
+        parent_tool_use_id: null,
+      };
+
+      await pushMessage(userMessage, 'running');
+    };
+
+    // 复用的进程已经确定 sessionId，不一定会再发送 init 消息
+    if (liveSession.sessionId) {
+      await savePrompt(liveSession.sessionId);
+    }
+
+    // 5. 注册查询实例到 SubscriptionManager，处理插话和模型、权限模式切换
+    subscriptionManager.registerQuery(id, liveSession.query, async (control) => {
+      if (control.action === 'inject') {
+        // 运行已经结束：放回待发送队列，由待发送提示的调度继续处理
+        if (!liveSession.inject(control.prompt)) {
+          await prisma.pendingPrompt.create({ data: { agentSessionId: id, content: control.prompt } });
+          return;
+        }
+        await pushMessage({
+          type: 'user',
+          message: { role: 'user', content: control.prompt },
+          session_id: realSessionId ?? '',
+          parent_tool_use_id: null,
+        }, 'running');
+        return;
       }
-    });
 
-    // 4. 注册查询实例到 SubscriptionManager
-    subscriptionManager.registerQuery(id, queryInstance);
-    let realSessionId = sessionId;
+      if (control.action === 'set_model') {
+        const nextModel = resolveModel(control.model);
+        await liveSession.query.setModel(nextModel ?? undefined);
+        liveSession.model = nextModel;
+        return;
+      }
 
-    // 5. 处理消息流
-    for await (const message of queryInstance) {
+      // 是否逐项审批与进程启动时不同：下一次运行重新启动进程后生效
+      const nextMode = resolvePermissionMode(control.mode);
+      if ((nextMode === 'default') !== approval) return;
+      await liveSession.query.setPermissionMode(nextMode);
+      liveSession.permissionMode = nextMode;
+    });
+    queryRegistered = true;
+
+    // 运行进度：保存为 job progress，变化时推送给前端
+    const progressTracker = createProgressTracker(agentConfig.maxTurns);
+    const reportProgress = async () => {
+      const progress = progressTracker.snapshot();
+      await job.updateProgress(progress);
+      subscriptionManager.emit(id, {
+        type: 'progress_update',
+        id,
+        sessionId: realSessionId ?? null,
+        status: 'running',
+        progress,
+        timestamp: new Date()
+      });
+    };
+    await reportProgress();
+
+    // 6. 发送提示并处理本次运行的消息
+    await liveSession.run(resumeSessionId ? buildResumePrompt(queryText) : queryText, async (message) => {
       // 检查是否被中断
       if (!subscriptionManager.hasActiveQuery(id)) {
-        console.log(`⚠️ Query interrupted for session ${id}, breaking out of message loop`);
-        break;
+        console.log(`⚠️ Query interrupted for session ${id}, stopping run`);
+        interrupted = true;
+        return 'stop';
       }
 
       // 更新任务进度
-      await job.updateProgress(50);
+      if (progressTracker.track(message)) {
+        await reportProgress();
+      }
 
       if (message.type === 'system' && message.subtype === 'init') {
-        const sessionId = message.session_id;
-
-        await updateSessionMessages(
-          { id: job.data.id },
-          message,
-          { sessionId: message.session_id }
-        );
-
-        const userMessage: SDKUserMessage = {
-          type: "user",
-          message: {
-            role: "user",
-            content: queryText,
-          },
-          session_id: sessionId,
-          parent_tool_use_id: null,
-        };
-
-        realSessionId = sessionId;
-
-        const result = await updateSessionMessages(
-          { id: job.data.id },
-          userMessage,
-          { sessionId: message.session_id }
-        );
-
-        if (result) {
-          subscriptionManager.emit(job.data.id, {
-            type: 'message_update',
-            id: job.data.id,
-            sessionId: result.currentSession.sessionId,
-            messages: result.updatedMessages,
-            status: 'running' as TaskStatus,
-            timestamp: new Date()
-          });
-        }
+        realSessionId = message.session_id;
+
+        await pushMessage(message, 'running', { sessionId: message.session_id });
+        await savePrompt(message.session_id);
       }
 
-      if (message.type === 'user') {
-        const result = await updateSessionMessages(
-          { sessionId: message.session_id },
-          message
-        );
-
-        if (result) {
-          subscriptionManager.emit(job.data.id, {
-            type: 'message_update',
-            id: job.data.id,
-            sessionId: message.session_id,
-            messages: result.updatedMessages,
-            status: 'running' as TaskStatus,
-            timestamp: new Date()
-          });
-        }
+      if (message.type === 'user' || message.type === 'assistant') {
+        await pushMessage(message, 'running');
       }
 
-      if (message.type === "assistant") {
-        const result = await updateSessionMessages(
-          { sessionId: message.session_id },
-          message
-        );
-
-        if (result) {
-          subscriptionManager.emit(job.data.id, {
-            type: 'message_update',
-            id: job.data.id,
-            sessionId: message.session_id,
-            messages: result.updatedMessages,
-            status: 'running' as TaskStatus,
-            timestamp: new Date()
-          });
+      // 超出 token 硬上限：中断查询，等待 result 消息记录本次用量
+      if (message.type === 'assistant' && !budgetViolation) {
+        budgetViolation = budgetGuard.track(message);
+        if (budgetViolation) {
+          console.log(`💸 Budget exceeded for session ${id}, interrupting query`);
+          await liveSession.query.interrupt();
         }
       }
 
       if (message.type === "result") {
-        const result = await updateSessionMessages(
-          { sessionId: message.session_id },
-          message
-        );
-
-        if (result) {
-          const success = message.subtype === 'success';
-          subscriptionManager.emit(job.data.id, {
-            type: 'message_update',
-            id: job.data.id,
-            sessionId: message.session_id,
-            messages: result.updatedMessages,
-            status: (success ? 'completed' : 'failed') as TaskStatus,
-            timestamp: new Date()
-          });
+        const success = message.subtype === 'success';
+        resultError = success ? null : message.subtype;
+        await recordUsage(prisma, { agentSessionId: id, workspaceId, userId }, message, liveSession.usageBaseline);
+        liveSession.usageBaseline = toUsageBaseline(message);
+
+        // API 限流等暂时性错误：还有重试机会时不保存这条结果，交给重试继续
+        retryableResult = success && message.is_error && canRetry
+          ? classifyResultError(message.result)
+          : null;
+        if (retryableResult) return;
+
+        await pushMessage(message, success ? 'completed' : 'failed');
+
+        // 首次运行成功后在后台生成标题和摘要，完成后通知前端刷新会话列表
+        if (message.subtype === 'success') {
+          void summarizeSession(prisma, { agentSessionId: id, workspaceId, userId }, queryText, message.result)
+            .then((updated) => {
+              if (!updated) return;
+              subscriptionManager.emit(id, {
+                type: 'session_updated',
+                id,
+                sessionId: realSessionId ?? null,
+                title: updated.title,
+                timestamp: new Date()
+              });
+            })
+            .catch((error: unknown) => {
+              console.error(`Failed to summarize session ${id}:`, error);
+            });
         }
       }
+    });
+
+    if (budgetViolation) {
+      throw new JobError('budget', formatBudgetViolation(budgetViolation));
     }
+    if (retryableResult) {
+      throw retryableResult;
+    }
+    keepAlive = !interrupted;
+
+    await updateLastAttempt(job, {
+      finishedAt: Date.now(),
+      errorKind: resultError ? 'unknown' : null,
+      error: resultError,
+    });
+    await updateScheduledTaskStatus(prisma, scheduledTaskId, resultError ? 'failed' : 'completed', resultError);
 
     // 返回结果
     return {
-      success: true,
+      success: !resultError,
       id,
-      sessionId: realSessionId
+      sessionId: realSessionId,
+      interrupted
     };
-
   } catch (error) {
-    // 推送失败状态
-    const { subscriptionManager } = await import('~/server/api/routers/agent');
+    const { kind, retryable, message: errorMessage } = classifyJobError(error, {
+      interrupted: queryRegistered && !subscriptionManager.hasActiveQuery(id),
+    });
+    const willRetry = retryable && canRetry;
+    await updateLastAttempt(job, { finishedAt: Date.now(), errorKind: kind, error: errorMessage, willRetry });
+
+    // 更新会话时间
+    await prisma.agentSession.update({
+      where: { id },
+      data: {
+        updatedAt: new Date()
+      }
+    }).catch(() => undefined);
+
+    // 用户取消：不重试，也不算失败
+    if (kind === 'cancelled') {
+      console.log(`🛑 Job ${job.id} cancelled by user`);
+      await updateScheduledTaskStatus(prisma, scheduledTaskId, 'failed', errorMessage);
+      subscriptionManager.emit(id, {
+        type: 'message_update',
+        id,
+        sessionId: null,
+        messages: [],
+        status: 'idle' as TaskStatus,
+        timestamp: new Date()
+      });
+      return { success: false, id, sessionId: null };
+    }
+
+    if (!willRetry) {
+      await updateScheduledTaskStatus(prisma, scheduledTaskId, 'failed', errorMessage);
+    }
+
+    // 推送状态：等待重试时回到排队状态，否则推送失败
     subscriptionManager.emit(id, {
       type: 'message_update',
       id,
       sessionId: null,
       messages: [],
-      status: 'failed' as TaskStatus,
-      error: error instanceof Error ? error.message : String(error),
+      status: (willRetry ? 'queued' : 'failed') as TaskStatus,
+      error: errorMessage,
       timestamp: new Date()
     });
 
-    // 更新错误信息到数据库
-    try {
-      await prisma.agentSession.update({
-        where: { id },
-        data: {
-          updatedAt: new Date()
-        }
-      });
-    } catch {
-      throw error;
-    }
+    // 暂时性错误交给 BullMQ 按退避策略重试，其余错误不再重试
+    console.error(`❌ Job ${job.id} attempt ${attemptNumber} failed (${kind})${willRetry ? ', will retry' : ''}:`, errorMessage);
+    throw willRetry ? error : new UnrecoverableError(errorMessage);
   } finally {
-    // 清理：注销查询实例
-    const { subscriptionManager } = await import('~/server/api/routers/agent');
+    // 清理：注销查询实例；进程保持空闲等待后续提示，沙箱配置在进程退出后删除
     subscriptionManager.unregisterQuery(id);
+    if (keepAlive) {
+      live?.release();
+    } else {
+      live?.close();
+    }
   }
 }
 
+// Worker 并发数
+export function getWorkerConcurrency() {
+  return parseInt(process.env.WORKER_CONCURRENCY ?? '2');
+}
+
 // 创建 Worker
-export function createAgentWorker(connection: Redis) {
+export function createAgentWorker(connection: Redis, concurrency = getWorkerConcurrency()) {
   return new Worker<AgentTaskData>(
     'agent-tasks',
     processAgentTask,
     {
       connection,
-      concurrency: parseInt(process.env.WORKER_CONCURRENCY ?? '2'),
+      concurrency,
     }
   );
-}
\ No newline at end of file
+}
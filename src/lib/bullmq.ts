@@ -3,29 +3,29 @@
  * 核心 BullMQ 设置
  */
 
-import { Queue, QueueEvents } from 'bullmq';
-import Redis from 'ioredis';
-import { createAgentWorker, getPrisma } from './bullmq-worker';
+import { Queue, QueueEvents, type JobsOptions } from 'bullmq';
+import { createAgentWorker, getPrisma, getWorkerConcurrency } from './bullmq-worker';
+import { redisConnection } from './redis';
+import type { AgentTaskData } from '~/types/queue';
+import { closeSubscriptionManager } from './subscription-manager';
+import { closeAllLiveSessions } from './live-session';
+import { drainWorker, getDrainTimeout, startWorkerHeartbeat } from './worker-health';
 
-// Redis 配置
-const redisConfig = {
-  host: process.env.REDIS_HOST ?? 'localhost',
-  port: parseInt(process.env.REDIS_PORT ?? '6379'),
-  maxRetriesPerRequest: null,
-  lazyConnect: true,
-};
+export { redisConnection };
 
-// 创建 Redis 连接
-export const redisConnection = new Redis(redisConfig);
+// Agent 任务的重试策略，手动提交和定时任务入队时使用同一配置
+export const AGENT_JOB_RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 2000 },
+} satisfies JobsOptions;
 
 // 创建队列
-export const agentQueue = new Queue('agent-tasks', {
+export const agentQueue = new Queue<AgentTaskData>('agent-tasks', {
   connection: redisConnection,
   defaultJobOptions: {
     removeOnComplete: 100,
     removeOnFail: 50,
-    attempts: 3,
-    backoff: { type: 'exponential', delay: 2000 },
+    ...AGENT_JOB_RETRY_OPTIONS,
   },
 });
 
@@ -42,11 +42,20 @@ queueEvents.on('progress', ({ jobId, data }) => console.log(`📊 Job ${jobId} p
 let initialized = false;
 export function initializeBullMQ() {
   if (initialized) return;
+  initialized = true;
+
+  // 使用独立 worker 进程（npm run worker）时，Web 进程只负责入队
+  if (process.env.EMBEDDED_WORKER === 'false') {
+    console.log('ℹ️ Embedded worker disabled, expecting standalone workers (npm run worker)');
+    return;
+  }
 
   console.log('🚀 Initializing BullMQ...');
 
   // 创建 Worker
-  const worker = createAgentWorker(redisConnection);
+  const concurrency = getWorkerConcurrency();
+  const worker = createAgentWorker(redisConnection, concurrency);
+  const heartbeat = startWorkerHeartbeat(worker, { concurrency, embedded: true });
 
   // Worker 事件监听
   worker.on('completed', (job) => console.log(`🎉 Worker completed job ${job?.id}`));
@@ -55,16 +64,21 @@ export function initializeBullMQ() {
 
   console.log('✅ BullMQ initialized');
   console.log('   - Queue: agent-tasks');
-  console.log('   - Worker: running with concurrency 2');
+  console.log(`   - Worker: running with concurrency ${concurrency}`);
 
-  // 优雅关闭
-  process.on('SIGINT', () => {
-    console.log('\n🔄 Closing BullMQ...');
+  // 优雅关闭：先排空进行中的任务
+  let shuttingDown = false;
+  const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\n🔄 Received ${signal}, closing BullMQ...`);
     (async () => {
+      await drainWorker(worker, heartbeat, getDrainTimeout());
+      closeAllLiveSessions();
       await Promise.all([
         agentQueue.close(),
         queueEvents.close(),
-        worker.close(),
+        closeSubscriptionManager(),
         redisConnection.quit(),
         getPrisma().$disconnect(),
       ]);
@@ -73,7 +87,8 @@ export function initializeBullMQ() {
       console.error('Error during shutdown:', err);
       process.exit(1);
     });
-  });
+  };
 
-  initialized = true;
-}
\ No newline at end of file
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCommand, formatCommandPolicyText, parseCommandPolicyText, parseShellCommand } from './command-policy';
+import { findUnsandboxedCommands } from './sandbox-settings';
+import { DEFAULT_COMMAND_POLICY } from '~/types/command-policy';
+
+const SETTINGS = '/tmp/srt-job.json';
+
+// 默认策略下是否放行（同时检查是否都使用了本任务的沙箱配置，与 worker 中的 hook 一致）
+function isAllowed(command: string) {
+  const decision = evaluateCommand(command, DEFAULT_COMMAND_POLICY, 'student');
+  return decision.allowed && findUnsandboxedCommands(command, SETTINGS).length === 0;
+}
+
+describe('parseShellCommand', () => {
+  it('splits pipelines, lists and subshells into simple commands', () => {
+    expect(parseShellCommand('ls -la | grep foo && (cd a; pwd) || echo done &').commands).toEqual([
+      ['ls', '-la'],
+      ['grep', 'foo'],
+      ['cd', 'a'],
+      ['pwd'],
+      ['echo', 'done'],
+    ]);
+  });
+
+  it('collects commands from $(), backticks and process substitution', () => {
+    expect(parseShellCommand('echo "$(whoami)" `id` <(date)').commands).toEqual([
+      ['whoami'],
+      ['id'],
+      ['date'],
+      ['echo', '$(whoami)', '`id`'],
+    ]);
+  });
+
+  it('collects commands nested in ${} and $(())', () => {
+    expect(parseShellCommand('echo ${a:-$(rm -rf ~)}').commands).toContainEqual(['rm', '-rf', '~']);
+    expect(parseShellCommand('echo $(( $(rm -rf ~) + 1 ))').commands).toContainEqual(['rm', '-rf', '~']);
+    expect(parseShellCommand('echo "${a:-`rm x`}"').commands).toContainEqual(['rm', 'x']);
+    expect(parseShellCommand('echo ${a:-${b:-$(rm y)}}').commands).toContainEqual(['rm', 'y']);
+  });
+
+  it('keeps plain parameter and arithmetic expansions', () => {
+    expect(parseShellCommand('echo ${HOME} $((1 + (2 * 3)))').commands).toEqual([
+      ['echo', '${HOME}', '$((1 + (2 * 3)))'],
+    ]);
+  });
+
+  it('returns file redirections as their own segments', () => {
+    expect(parseShellCommand('cat < in.txt > out.txt 2>>err.log').commands).toEqual([
+      ['<', 'in.txt'],
+      ['>', 'out.txt'],
+      ['2>>', 'err.log'],
+      ['cat'],
+    ]);
+    expect(parseShellCommand('ls &> all.log').commands).toEqual([['&>', 'all.log'], ['ls']]);
+  });
+
+  it('skips redirections that do not touch files', () => {
+    expect(parseShellCommand('ls 2>&1 >/dev/null 3>&- <<< hi').commands).toEqual([['ls']]);
+    expect(parseShellCommand('ls > ').error).toBeDefined();
+  });
+
+  it('strips harmless assignments and leading keywords', () => {
+    expect(parseShellCommand('FOO=1 BAR=2 time srt ls').commands).toEqual([['srt', 'ls']]);
+  });
+
+  it('rejects assignments that change how commands run', () => {
+    for (const command of ['PATH=. ls', 'BASH_ENV=./evil.sh ls', 'LD_PRELOAD=x.so ls', 'IFS=/ ls', 'ENV=x ls', 'PATH+=:. ls', 'PATH=.; ls']) {
+      expect(parseShellCommand(command).error, command).toBeDefined();
+    }
+  });
+
+  it('reports incomplete syntax', () => {
+    expect(parseShellCommand('echo "abc').error).toBeDefined();
+    expect(parseShellCommand('echo ${a').error).toBeDefined();
+    expect(parseShellCommand('echo $((1 + 2)').error).toBeDefined();
+    expect(parseShellCommand("echo ${a:-'}'}").error).toBeDefined();
+    expect(parseShellCommand('case x in a) ;; esac').error).toBeDefined();
+  });
+});
+
+describe('evaluateCommand with the default policy', () => {
+  it('allows sandboxed commands', () => {
+    expect(isAllowed(`srt --settings ${SETTINGS} ls -la`)).toBe(true);
+    expect(isAllowed(`srt --settings ${SETTINGS} echo \${HOME}`)).toBe(true);
+  });
+
+  it('denies commands outside the sandbox', () => {
+    expect(isAllowed('ls')).toBe(false);
+    expect(isAllowed(`srt --settings ${SETTINGS} ls; rm -rf ~`)).toBe(false);
+    expect(isAllowed('srt ls')).toBe(false);
+    expect(isAllowed(`srt --settings ${SETTINGS} echo $(rm -rf ~)`)).toBe(false);
+  });
+
+  it('denies substitutions hidden in parameter and arithmetic expansions', () => {
+    expect(isAllowed(`srt --settings ${SETTINGS} echo \${a:-$(rm -rf ~)}`)).toBe(false);
+    expect(isAllowed(`srt --settings ${SETTINGS} echo $(( $(rm -rf ~) ))`)).toBe(false);
+  });
+
+  it('denies redirections outside the sandbox', () => {
+    expect(isAllowed(`srt --settings ${SETTINGS} true > /root/workspaces/other/x`)).toBe(false);
+    expect(isAllowed(`srt --settings ${SETTINGS} cat < /etc/shadow`)).toBe(false);
+    expect(isAllowed(`srt --settings ${SETTINGS} echo x >> ~/.bashrc`)).toBe(false);
+    expect(findUnsandboxedCommands(`srt --settings ${SETTINGS} echo x >> ~/.bashrc`, SETTINGS)).toEqual(['>> ~/.bashrc']);
+  });
+
+  it('allows redirections inside the sandbox and harmless ones outside', () => {
+    expect(isAllowed(`srt --settings ${SETTINGS} sh -c 'echo x > out.txt'`)).toBe(true);
+    expect(isAllowed(`srt --settings ${SETTINGS} ls 2>&1 > /dev/null`)).toBe(true);
+  });
+
+  it('lets deny rules match redirections', () => {
+    const { policy } = parseCommandPolicyText('deny *> /etc/*\nallow *\ndefault deny');
+    expect(evaluateCommand('echo x > /etc/passwd', policy, 'owner').allowed).toBe(false);
+    expect(evaluateCommand('echo x > out.txt', policy, 'owner').allowed).toBe(true);
+  });
+
+  it('denies environment assignments that bypass the sandbox', () => {
+    expect(isAllowed(`PATH=. srt --settings ${SETTINGS} ls`)).toBe(false);
+    expect(isAllowed(`BASH_ENV=./evil.sh srt --settings ${SETTINGS} ls`)).toBe(false);
+  });
+
+  it('applies deny rules before allow rules and respects roles', () => {
+    const { policy } = parseCommandPolicyText('allow srt *\ndeny:student srt curl *\ndefault deny');
+    expect(evaluateCommand('srt curl x', policy, 'student').allowed).toBe(false);
+    expect(evaluateCommand('srt curl x', policy, 'teacher').allowed).toBe(true);
+  });
+});
+
+describe('command policy text', () => {
+  it('round-trips rules', () => {
+    const text = 'allow srt *\ndeny:student srt curl *  # 学生禁止联网\ndefault deny';
+    const { policy, errors } = parseCommandPolicyText(text);
+    expect(errors).toEqual([]);
+    expect(formatCommandPolicyText(policy)).toBe(text);
+  });
+
+  it('reports invalid lines and roles', () => {
+    const { errors } = parseCommandPolicyText('permit ls\nallow:admin ls');
+    expect(errors).toHaveLength(2);
+  });
+});
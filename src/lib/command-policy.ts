@@ -0,0 +1,539 @@
+/**
+ * 命令策略引擎
+ * - 解析 shell 命令，拆出所有会被执行的简单命令（管道、;、&&、||、&、子 shell、$()、``、<()，
+ *   以及嵌套在 ${} 和 $(()) 中的命令替换）；读写文件的重定向作为单独的一段（如 "> out.txt"）
+ * - 设置 PATH、LD_*、BASH_ENV 等会影响命令执行的环境变量时直接拒绝
+ * - 按工作区规则和角色逐个判定，任一简单命令被拒绝则整条命令被拒绝
+ * 纯函数，不依赖数据库，前端也可以使用（规则文本的解析与格式化）
+ */
+
+import type {
+  CommandDecision,
+  CommandEffect,
+  CommandPolicy,
+  CommandRule,
+  CommandSegmentDecision,
+} from '~/types/command-policy';
+import type { WorkspaceRole } from '~/types/workspace';
+
+export interface ParsedCommand {
+  commands: string[][];  // 每个简单命令的参数列表（已去掉环境变量赋值和流程关键字），重定向为 [运算符, 目标]
+  error?: string;
+}
+
+interface ParserState {
+  src: string;
+  pos: number;
+  commands: string[][];
+  inBacktick: boolean;  // 反引号不能嵌套，遇到下一个反引号即结束
+}
+
+class ShellParseError extends Error {}
+
+// 结束一个单词的字符
+const WORD_BREAK = new Set([' ', '\t', '\n', ';', '&', '|', '(', ')', '<', '>']);
+
+// 出现在命令开头、本身不执行任何程序的关键字
+const LEADING_KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', 'time', '{']);
+// 只起结构作用的关键字
+const STRUCTURAL_KEYWORDS = new Set(['fi', 'done', 'esac', '}']);
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)\+?=/;
+// 会改变后续命令的查找或让 shell 额外执行代码的变量，出现赋值时整条命令拒绝
+const DANGEROUS_VARIABLES = new Set(['PATH', 'IFS', 'ENV', 'BASH_ENV', 'SHELLOPTS', 'BASHOPTS', 'PS4', 'PROMPT_COMMAND', 'CDPATH']);
+const DANGEROUS_VARIABLE_PREFIXES = ['LD_', 'DYLD_'];
+
+function isDangerousVariable(name: string) {
+  return DANGEROUS_VARIABLES.has(name) || DANGEROUS_VARIABLE_PREFIXES.some(prefix => name.startsWith(prefix));
+}
+
+const REDIRECT = /^(\d*(>>|>&|>\||>|<<<|<<-|<<|<&|<>|<)|&>>|&>)/;
+// 不读写文件的重定向目标：文件描述符编号、关闭描述符（-）和 /dev/null
+const HARMLESS_REDIRECT_TARGET = /^(\d+|-|\/dev\/null)$/;
+
+function isFileRedirect(operator: string, target: string) {
+  if (operator.endsWith('<<') || operator.endsWith('<<-') || operator.endsWith('<<<')) return false;
+  return !HARMLESS_REDIRECT_TARGET.test(target);
+}
+
+/**
+ * 是否为重定向段（parseShellCommand 返回的 [运算符, 目标]）
+ */
+export function isRedirectSegment(argv: string[]) {
+  return argv.length === 2 && REDIRECT.exec(argv[0]!)?.[0] === argv[0];
+}
+
+/**
+ * 解析 shell 命令，返回其中所有的简单命令
+ * 遇到不支持或不完整的语法时返回 error，调用方应按拒绝处理
+ */
+export function parseShellCommand(command: string): ParsedCommand {
+  const state: ParserState = { src: command, pos: 0, commands: [], inBacktick: false };
+
+  try {
+    parseSequence(state, null);
+    return { commands: state.commands };
+  } catch (error) {
+    if (error instanceof ShellParseError) {
+      return { commands: state.commands, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// 解析命令序列，直到输入结束或遇到 terminator（子 shell 的 ")"、反引号）
+function parseSequence(state: ParserState, terminator: ')' | '`' | null) {
+  let current: string[] = [];
+
+  const flush = () => {
+    const argv = normalizeArgv(current);
+    if (argv.length > 0) state.commands.push(argv);
+    current = [];
+  };
+
+  while (true) {
+    skipBlanks(state);
+
+    if (state.pos >= state.src.length) {
+      if (terminator) throw new ShellParseError(`缺少匹配的 ${terminator}`);
+      break;
+    }
+
+    const c = state.src[state.pos]!;
+    const next = state.src[state.pos + 1];
+
+    if (terminator && c === terminator) {
+      state.pos++;
+      break;
+    }
+
+    // 注释
+    if (c === '#' && current.length === 0) {
+      while (state.pos < state.src.length && state.src[state.pos] !== '\n') state.pos++;
+      continue;
+    }
+
+    // 进程替换 <(...) >(...)
+    if ((c === '<' || c === '>') && next === '(') {
+      state.pos += 2;
+      parseSequence(state, ')');
+      continue;
+    }
+
+    // 重定向由外层 shell 执行，不在沙箱中：读写文件的重定向作为单独的一段交给策略判定，
+    // 复制文件描述符、here document 和 /dev/null 不涉及文件读写，直接跳过（目标中的命令替换仍会被解析）
+    const redirect = REDIRECT.exec(state.src.slice(state.pos));
+    if (redirect) {
+      const operator = redirect[0];
+      state.pos += operator.length;
+      skipBlanks(state);
+      const target = readWord(state);
+      if (!target) throw new ShellParseError(`重定向 ${operator} 缺少目标`);
+      if (isFileRedirect(operator, target)) state.commands.push([operator, target]);
+      continue;
+    }
+
+    // 命令分隔符：; && || | |& & 换行
+    if (c === ';' || c === '&' || c === '|' || c === '\n') {
+      if ((c === '&' || c === '|') && next === c) state.pos += 2;
+      else if (c === '|' && next === '&') state.pos += 2;
+      else if (c === ';' && next === ';') throw new ShellParseError('不支持 case 语句');
+      else state.pos++;
+      flush();
+      continue;
+    }
+
+    // 子 shell
+    if (c === '(') {
+      if (current.length > 0) throw new ShellParseError('不支持函数定义');
+      state.pos++;
+      parseSequence(state, ')');
+      continue;
+    }
+
+    if (c === ')') {
+      throw new ShellParseError('多余的 )');
+    }
+
+    const word = readWord(state);
+    if (current.length === 0 && (word === 'case' || word === 'function')) {
+      throw new ShellParseError(`不支持 ${word} 语句`);
+    }
+    current.push(word);
+  }
+
+  flush();
+}
+
+function skipBlanks(state: ParserState) {
+  while (state.pos < state.src.length) {
+    const c = state.src[state.pos];
+    if (c === ' ' || c === '\t') {
+      state.pos++;
+    } else if (c === '\\' && state.src[state.pos + 1] === '\n') {
+      state.pos += 2;  // 续行
+    } else {
+      break;
+    }
+  }
+}
+
+// 读取一个单词，处理引号、转义和命令替换（替换中的命令会被加入结果）
+function readWord(state: ParserState): string {
+  let word = '';
+
+  while (state.pos < state.src.length) {
+    const c = state.src[state.pos]!;
+
+    if (WORD_BREAK.has(c)) break;
+    if (c === '`' && state.inBacktick) break;
+
+    if (c === '\\') {
+      word += state.src[state.pos + 1] ?? '';
+      state.pos += 2;
+      continue;
+    }
+
+    if (c === "'") {
+      const end = state.src.indexOf("'", state.pos + 1);
+      if (end === -1) throw new ShellParseError('缺少匹配的单引号');
+      word += state.src.slice(state.pos + 1, end);
+      state.pos = end + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      state.pos++;
+      word += readDoubleQuoted(state);
+      continue;
+    }
+
+    if (c === '$' || c === '`') {
+      word += readSubstitution(state);
+      continue;
+    }
+
+    word += c;
+    state.pos++;
+  }
+
+  return word;
+}
+
+function readDoubleQuoted(state: ParserState): string {
+  let value = '';
+
+  while (state.pos < state.src.length) {
+    const c = state.src[state.pos]!;
+
+    if (c === '"') {
+      state.pos++;
+      return value;
+    }
+
+    if (c === '`' && state.inBacktick) break;
+
+    if (c === '\\') {
+      value += state.src[state.pos + 1] ?? '';
+      state.pos += 2;
+      continue;
+    }
+
+    if (c === '$' || c === '`') {
+      value += readSubstitution(state);
+      continue;
+    }
+
+    value += c;
+    state.pos++;
+  }
+
+  throw new ShellParseError('缺少匹配的双引号');
+}
+
+// 处理 $(...)、`...`、$((...))、${...} 和普通变量
+function readSubstitution(state: ParserState): string {
+  const start = state.pos;
+  const c = state.src[state.pos];
+  const next = state.src[state.pos + 1];
+
+  if (c === '`') {
+    state.pos++;
+    state.inBacktick = true;
+    try {
+      parseSequence(state, '`');
+    } finally {
+      state.inBacktick = false;
+    }
+    return state.src.slice(start, state.pos);
+  }
+
+  // 算术展开 $((...))：其中的命令替换同样会被执行
+  if (next === '(' && state.src[state.pos + 2] === '(') {
+    state.pos += 3;
+    readArithmetic(state);
+    return state.src.slice(start, state.pos);
+  }
+
+  if (next === '(') {
+    state.pos += 2;
+    parseSequence(state, ')');
+    return state.src.slice(start, state.pos);
+  }
+
+  // 参数展开 ${...}：默认值等部分中的命令替换同样会被执行
+  if (next === '{') {
+    state.pos += 2;
+    readParameterExpansion(state);
+    return state.src.slice(start, state.pos);
+  }
+
+  state.pos++;
+  return '$';
+}
+
+// 嵌套在展开中的命令替换和引号，按与命令中相同的规则解析，返回是否已处理
+function readNested(state: ParserState) {
+  const c = state.src[state.pos]!;
+
+  // 反引号中的反引号会提前结束外层替换，无法安全判断
+  if (c === '`' && state.inBacktick) throw new ShellParseError('不支持在反引号中嵌套展开');
+
+  if (c === '\\') {
+    state.pos += 2;
+  } else if (c === "'") {
+    // 单引号在双引号内的展开中是普通字符，在双引号外才起引用作用，两种情况无法区分
+    throw new ShellParseError('不支持在展开中使用单引号');
+  } else if (c === '"') {
+    state.pos++;
+    readDoubleQuoted(state);
+  } else if (c === '$' || c === '`') {
+    readSubstitution(state);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+// 读取 $(( 之后的算术表达式，直到匹配的 ))
+function readArithmetic(state: ParserState) {
+  let depth = 0;
+
+  while (state.pos < state.src.length) {
+    if (readNested(state)) continue;
+
+    const c = state.src[state.pos]!;
+    if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      if (depth > 0) {
+        depth--;
+      } else if (state.src[state.pos + 1] === ')') {
+        state.pos += 2;
+        return;
+      } else {
+        throw new ShellParseError('算术展开中的括号不匹配');
+      }
+    }
+    state.pos++;
+  }
+
+  throw new ShellParseError('缺少匹配的 ))');
+}
+
+// 读取 ${ 之后的参数展开，直到匹配的 }
+function readParameterExpansion(state: ParserState) {
+  while (state.pos < state.src.length) {
+    if (readNested(state)) continue;
+
+    if (state.src[state.pos] === '}') {
+      state.pos++;
+      return;
+    }
+    state.pos++;
+  }
+
+  throw new ShellParseError('缺少匹配的 }');
+}
+
+// 去掉环境变量赋值和流程关键字，得到真正执行的程序及参数
+function normalizeArgv(words: string[]): string[] {
+  const argv = [...words];
+
+  while (argv.length > 0) {
+    const first = argv[0]!;
+    const assignment = ASSIGNMENT.exec(first);
+    if (assignment && isDangerousVariable(assignment[1]!)) {
+      throw new ShellParseError(`不允许设置环境变量 ${assignment[1]}`);
+    }
+    if (LEADING_KEYWORDS.has(first) || assignment) {
+      argv.shift();
+      continue;
+    }
+    break;
+  }
+
+  if (argv.length === 0) return [];
+
+  // for/select 循环头只做变量展开，不执行程序
+  if (argv[0] === 'for' || argv[0] === 'select') return [];
+  if (argv.every(word => STRUCTURAL_KEYWORDS.has(word))) return [];
+
+  return argv;
+}
+
+/**
+ * glob 模式 → 正则
+ * 末尾的 " *" 也匹配没有参数的情况，例如 "srt *" 可以匹配 "srt"
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const trimmed = pattern.trim().replace(/\s+/g, ' ');
+  const hasTrailingArgs = trimmed.endsWith(' *');
+  const body = hasTrailingArgs ? trimmed.slice(0, -2) : trimmed;
+
+  const source = body
+    .split('')
+    .map(ch => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}${hasTrailingArgs ? '(?: .*)?' : ''}$`);
+}
+
+function ruleApplies(rule: CommandRule, role: WorkspaceRole) {
+  return !rule.roles?.length || rule.roles.includes(role);
+}
+
+function evaluateSegment(
+  argv: string[],
+  policy: CommandPolicy,
+  role: WorkspaceRole
+): CommandSegmentDecision {
+  const command = argv.join(' ');
+  const rules = policy.rules.filter(rule => ruleApplies(rule, role));
+  const matches = (rule: CommandRule) => patternToRegExp(rule.pattern).test(command);
+
+  // 拒绝规则优先
+  const denyRule = rules.find(rule => rule.effect === 'deny' && matches(rule));
+  if (denyRule) return { command, effect: 'deny', rule: denyRule };
+
+  const allowRule = rules.find(rule => rule.effect === 'allow' && matches(rule));
+  if (allowRule) return { command, effect: 'allow', rule: allowRule };
+
+  return { command, effect: policy.defaultEffect };
+}
+
+/**
+ * 按策略判定整条命令
+ */
+export function evaluateCommand(
+  command: string,
+  policy: CommandPolicy,
+  role: WorkspaceRole
+): CommandDecision {
+  const parsed = parseShellCommand(command);
+
+  if (parsed.error) {
+    return {
+      allowed: false,
+      reason: `命令无法安全解析（${parsed.error}），已拒绝执行`,
+      segments: [],
+    };
+  }
+
+  const segments = parsed.commands.map(argv => evaluateSegment(argv, policy, role));
+  const denied = segments.filter(segment => segment.effect === 'deny');
+
+  if (denied.length === 0) {
+    return { allowed: true, reason: '命令符合工作区命令策略', segments };
+  }
+
+  const details = denied.map(segment => {
+    if (segment.rule) {
+      return `\`${segment.command}\` 命中禁止规则 "${segment.rule.pattern}"${segment.rule.reason ? `（${segment.rule.reason}）` : ''}`;
+    }
+    return `\`${segment.command}\` 不在允许列表中`;
+  });
+
+  const allowHints = policy.rules
+    .filter(rule => rule.effect === 'allow' && ruleApplies(rule, role))
+    .map(rule => `"${rule.pattern}"`);
+
+  return {
+    allowed: false,
+    reason: [
+      `命令策略拒绝执行：${details.join('；')}。`,
+      allowHints.length > 0 ? `允许的命令模式：${allowHints.join('、')}。` : '',
+      '请调整命令后重试，不要尝试绕过策略。',
+    ].filter(Boolean).join(''),
+    segments,
+  };
+}
+
+// ========================
+// 规则文本（设置界面中逐行编辑）
+// 格式：allow srt *
+//       deny:student srt curl *  # 学生禁止联网
+//       default deny
+// ========================
+
+const RULE_LINE = /^(allow|deny)(?::([a-z,]+))?\s+(.+?)(?:\s+#\s*(.*))?$/;
+const DEFAULT_LINE = /^default\s+(allow|deny)$/;
+const ROLES: readonly WorkspaceRole[] = ['owner', 'teacher', 'student'];
+
+/**
+ * 解析规则文本，返回策略和出错的行
+ */
+export function parseCommandPolicyText(text: string): { policy: CommandPolicy; errors: string[] } {
+  const policy: CommandPolicy = { defaultEffect: 'deny', rules: [] };
+  const errors: string[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const defaultMatch = DEFAULT_LINE.exec(line);
+    if (defaultMatch) {
+      policy.defaultEffect = defaultMatch[1] as CommandEffect;
+      return;
+    }
+
+    const match = RULE_LINE.exec(line);
+    if (!match) {
+      errors.push(`第 ${index + 1} 行格式错误：${line}`);
+      return;
+    }
+
+    const [, effect, roleList, pattern, reason] = match;
+    const roles = roleList?.split(',').filter(Boolean) ?? [];
+    const invalidRole = roles.find(role => !ROLES.includes(role as WorkspaceRole));
+    if (invalidRole) {
+      errors.push(`第 ${index + 1} 行角色无效：${invalidRole}`);
+      return;
+    }
+
+    policy.rules.push({
+      effect: effect as CommandEffect,
+      pattern: pattern!.trim(),
+      ...(roles.length > 0 ? { roles: roles as WorkspaceRole[] } : {}),
+      ...(reason?.trim() ? { reason: reason.trim() } : {}),
+    });
+  });
+
+  return { policy, errors };
+}
+
+/**
+ * 策略 → 规则文本
+ */
+export function formatCommandPolicyText(policy: CommandPolicy): string {
+  const lines = policy.rules.map(rule => {
+    const head = rule.roles?.length ? `${rule.effect}:${rule.roles.join(',')}` : rule.effect;
+    return `${head} ${rule.pattern}${rule.reason ? `  # ${rule.reason}` : ''}`;
+  });
+  lines.push(`default ${policy.defaultEffect}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,84 @@
+import type { Job, Queue } from 'bullmq';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AgentTaskData } from '~/types/queue';
+import {
+  getJobPriority,
+  getPriorityLevel,
+  getUserConcurrencyLimit,
+  isUserAtConcurrencyLimit,
+  SCHEDULED_JOB_PRIORITY,
+} from './fair-queue';
+
+type FakeJob = { id: string; data: { userId: string; workspaceId: string }; processedOn?: number };
+
+function job(id: string, userId: string, workspaceId = 'w1', processedOn?: number): FakeJob {
+  return { id, data: { userId, workspaceId }, processedOn };
+}
+
+// 只实现 getJobs，按状态过滤时返回同一组任务
+function fakeQueue(jobs: FakeJob[]) {
+  return { getJobs: vi.fn(() => Promise.resolve(jobs)) } as unknown as Queue<AgentTaskData>;
+}
+
+describe('getPriorityLevel', () => {
+  it('orders interactive runs before scheduled ones', () => {
+    expect(getPriorityLevel('interactive', 'owner')).toBe(1);
+    expect(getPriorityLevel('interactive', 'teacher')).toBe(1);
+    expect(getPriorityLevel('interactive', 'student')).toBe(2);
+    expect(getPriorityLevel('scheduled', 'owner')).toBe(3);
+    expect(SCHEDULED_JOB_PRIORITY).toBe(3000);
+  });
+});
+
+describe('getJobPriority', () => {
+  const params = { workspaceId: 'w1', userId: 'u1', role: 'student' as const, source: 'interactive' as const };
+
+  it('uses the level base when nothing is pending', async () => {
+    expect(await getJobPriority(fakeQueue([]), params)).toBe(2000);
+  });
+
+  it('moves a user behind other users by their pending jobs', async () => {
+    const queue = fakeQueue([job('1', 'u1'), job('2', 'u1'), job('3', 'u2'), job('4', 'u3', 'w2')]);
+    // 用户 2 个任务 × 10 + 工作区 3 个任务 × 1
+    expect(await getJobPriority(queue, params)).toBe(2023);
+  });
+
+  it('never crosses into the next level', async () => {
+    const queue = fakeQueue(Array.from({ length: 200 }, (_, index) => job(String(index), 'u1')));
+    expect(await getJobPriority(queue, params)).toBe(2999);
+  });
+});
+
+describe('isUserAtConcurrencyLimit', () => {
+  beforeEach(() => {
+    vi.stubEnv('USER_CONCURRENCY_LIMIT', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const current = job('b', 'u1', 'w1', 200) as unknown as Job<AgentTaskData>;
+
+  it('defaults to one running job per user', () => {
+    expect(getUserConcurrencyLimit()).toBe(1);
+  });
+
+  it('counts only jobs of the same user that started earlier', async () => {
+    expect(await isUserAtConcurrencyLimit(fakeQueue([job('a', 'u1', 'w1', 100), job('b', 'u1', 'w1', 200)]), current)).toBe(true);
+    expect(await isUserAtConcurrencyLimit(fakeQueue([job('c', 'u1', 'w1', 300), job('d', 'u2', 'w1', 100)]), current)).toBe(false);
+  });
+
+  it('breaks ties on start time by job id', async () => {
+    expect(await isUserAtConcurrencyLimit(fakeQueue([job('a', 'u1', 'w1', 200)]), current)).toBe(true);
+    expect(await isUserAtConcurrencyLimit(fakeQueue([job('c', 'u1', 'w1', 200)]), current)).toBe(false);
+  });
+
+  it('honours USER_CONCURRENCY_LIMIT', async () => {
+    const queue = fakeQueue([job('a', 'u1', 'w1', 100)]);
+    vi.stubEnv('USER_CONCURRENCY_LIMIT', '2');
+    expect(await isUserAtConcurrencyLimit(queue, current)).toBe(false);
+    vi.stubEnv('USER_CONCURRENCY_LIMIT', '0');
+    expect(await isUserAtConcurrencyLimit(queue, current)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * 任务优先级与公平调度
+ * BullMQ 中 priority 数值越小越先执行。任务按来源和角色分为几个级别，级别之间严格有序；
+ * 同一级别内按用户和工作区当前排队/运行中的任务数加权，任务多的用户排在后面，实现用户之间轮转
+ */
+
+import type { Job, Queue } from 'bullmq';
+import type { AgentTaskData } from '~/types/queue';
+import type { WorkspaceRole } from '~/types/workspace';
+
+export type JobSource = 'interactive' | 'scheduled';
+
+// 每个级别占用的优先级区间
+const LEVEL_SPAN = 1000;
+// 同一用户每多一个待处理任务，新任务后移的幅度
+const USER_LOAD_WEIGHT = 10;
+// 同一工作区每多一个待处理任务，新任务后移的幅度
+const WORKSPACE_LOAD_WEIGHT = 1;
+
+/**
+ * 任务级别（越小越优先）：拥有者和教师的对话 > 学生的对话 > 定时任务
+ */
+export function getPriorityLevel(source: JobSource, role: WorkspaceRole | null) {
+  if (source === 'scheduled') return 3;
+  return role === 'student' ? 2 : 1;
+}
+
+/**
+ * 定时任务的优先级，在创建 job scheduler 时确定，不参与负载加权
+ */
+export const SCHEDULED_JOB_PRIORITY = getPriorityLevel('scheduled', null) * LEVEL_SPAN;
+
+/**
+ * 计算新任务的优先级
+ * 用户已有 n 个待处理任务时，新任务排在其他用户的前 n 个任务之后
+ */
+export async function getJobPriority(
+  queue: Queue<AgentTaskData>,
+  params: { workspaceId: string; userId: string; role: WorkspaceRole | null; source: JobSource }
+) {
+  const pending = await queue.getJobs(['active', 'wait', 'prioritized', 'delayed']);
+
+  let userLoad = 0;
+  let workspaceLoad = 0;
+  for (const job of pending) {
+    if (!job) continue;
+    if (job.data.userId === params.userId) userLoad++;
+    if (job.data.workspaceId === params.workspaceId) workspaceLoad++;
+  }
+
+  const offset = Math.min(
+    userLoad * USER_LOAD_WEIGHT + workspaceLoad * WORKSPACE_LOAD_WEIGHT,
+    LEVEL_SPAN - 1
+  );
+  return getPriorityLevel(params.source, params.role) * LEVEL_SPAN + offset;
+}
+
+/**
+ * 每个用户同时运行的任务数上限，0 表示不限制
+ */
+export function getUserConcurrencyLimit() {
+  return parseInt(process.env.USER_CONCURRENCY_LIMIT ?? '1');
+}
+
+/**
+ * 用户运行中的任务数是否已达上限
+ * 只统计比当前任务更早开始运行的任务，多个任务同时被领取时判定结果一致，不会互相让出
+ */
+export async function isUserAtConcurrencyLimit(queue: Queue<AgentTaskData>, job: Job<AgentTaskData>) {
+  const limit = getUserConcurrencyLimit();
+  if (limit <= 0) return false;
+
+  const startedAt = job.processedOn ?? 0;
+  const active = await queue.getJobs(['active']);
+  const earlier = active.filter(other => {
+    if (!other?.id || other.id === job.id || other.data.userId !== job.data.userId) return false;
+    const otherStartedAt = other.processedOn ?? 0;
+    return otherStartedAt < startedAt || (otherStartedAt === startedAt && other.id < job.id!);
+  });
+
+  return earlier.length >= limit;
+}
@@ -0,0 +1,40 @@
+import { AbortError } from '@anthropic-ai/claude-agent-sdk';
+import { describe, expect, it } from 'vitest';
+import { classifyJobError, classifyResultError, JobError } from './job-errors';
+
+describe('classifyJobError', () => {
+  it('retries transient errors', () => {
+    expect(classifyJobError(new Error('429 Too Many Requests'))).toMatchObject({ kind: 'rate_limit', retryable: true });
+    expect(classifyJobError(new Error('API Error: 529 overloaded'))).toMatchObject({ kind: 'rate_limit', retryable: true });
+    expect(classifyJobError(new Error('connect ECONNRESET 1.2.3.4:443'))).toMatchObject({ kind: 'network', retryable: true });
+    expect(classifyJobError(new Error('Claude Code process exited with code 1'))).toMatchObject({ kind: 'sdk_crash', retryable: true });
+  });
+
+  it('keeps the kind of known job errors', () => {
+    expect(classifyJobError(new JobError('budget', '已超出预算'))).toEqual({
+      kind: 'budget',
+      retryable: false,
+      message: '已超出预算',
+    });
+  });
+
+  it('treats only interrupts and AbortError as cancelled', () => {
+    expect(classifyJobError(new Error('boom'), { interrupted: true })).toMatchObject({ kind: 'cancelled', retryable: false });
+    expect(classifyJobError(new AbortError('Operation aborted'))).toMatchObject({ kind: 'cancelled', retryable: false });
+    expect(classifyJobError(new Error('Tool execution was interrupted'))).toMatchObject({ kind: 'unknown', retryable: false });
+    expect(classifyJobError(new Error('Request aborted by user'))).toMatchObject({ kind: 'unknown', retryable: false });
+  });
+
+  it('does not retry unknown errors', () => {
+    expect(classifyJobError('something else')).toEqual({ kind: 'unknown', retryable: false, message: 'something else' });
+  });
+});
+
+describe('classifyResultError', () => {
+  it('returns a job error only for transient failures', () => {
+    const error = classifyResultError('API Error: 429 rate_limit_error');
+    expect(error).toBeInstanceOf(JobError);
+    expect(error?.kind).toBe('rate_limit');
+    expect(classifyResultError('Invalid API key')).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Agent 任务错误分类
+ * 只有暂时性错误（限流、网络、SDK 进程异常退出）会自动重试，其余错误直接判定为失败
+ */
+
+import { AbortError } from '@anthropic-ai/claude-agent-sdk';
+import type { JobErrorKind } from '~/types/queue';
+
+const RETRYABLE_KINDS: readonly JobErrorKind[] = ['rate_limit', 'network', 'sdk_crash'];
+
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|overloaded|\b(429|529)\b/i;
+const NETWORK_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE|socket hang up|fetch failed|network error|connection error|request timed out/i;
+const SDK_CRASH_PATTERN = /Claude Code process (exited with code|terminated by signal)/i;
+
+/**
+ * 已知原因的任务错误
+ */
+export class JobError extends Error {
+  constructor(readonly kind: JobErrorKind, message: string) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+/**
+ * 判断错误类型
+ * 只有 worker 确认用户中断了运行（interrupted）或 SDK 抛出 AbortError 时才视为取消，不根据错误文本判断
+ */
+export function classifyJobError(
+  error: unknown,
+  options: { interrupted?: boolean } = {}
+): { kind: JobErrorKind; retryable: boolean; message: string } {
+  const message = error instanceof Error ? error.message : String(error);
+
+  let kind: JobErrorKind = 'unknown';
+  if (error instanceof JobError) {
+    kind = error.kind;
+  } else if (options.interrupted || error instanceof AbortError) {
+    kind = 'cancelled';
+  } else if (RATE_LIMIT_PATTERN.test(message)) {
+    kind = 'rate_limit';
+  } else if (NETWORK_PATTERN.test(message)) {
+    kind = 'network';
+  } else if (SDK_CRASH_PATTERN.test(message)) {
+    kind = 'sdk_crash';
+  }
+
+  return { kind, retryable: RETRYABLE_KINDS.includes(kind), message };
+}
+
+/**
+ * 以错误结束的 result 消息（如 API 限流）转换为任务错误，非暂时性错误返回 null
+ */
+export function classifyResultError(resultText: string): JobError | null {
+  const { kind, retryable } = classifyJobError(new Error(resultText));
+  return retryable ? new JobError(kind, resultText) : null;
+}
@@ -0,0 +1,145 @@
+import type { Query, SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { closeAllLiveSessions, startLiveSession } from './live-session';
+
+vi.mock('./redis', () => ({
+  instanceId: 'test-instance',
+  redisConnection: { set: () => Promise.resolve('OK'), get: () => Promise.resolve('test-instance') },
+}));
+
+// 模拟 Claude Code 进程：emit 推送消息，输入流结束后进程退出
+function fakeQuery(input: AsyncIterable<SDKUserMessage>) {
+  const pending: SDKMessage[] = [];
+  let wakeUp = null as (() => void) | null;
+  let exited = false;
+
+  // 只消费输入
+  void (async () => {
+    const iterator = input[Symbol.asyncIterator]();
+    while (!(await iterator.next()).done);
+    exited = true;
+    wakeUp?.();
+  })();
+
+  const query = {
+    interrupt: vi.fn(() => Promise.resolve()),
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        const next = pending.shift();
+        if (next) {
+          yield next;
+          continue;
+        }
+        if (exited) return;
+        await new Promise<void>(resolve => {
+          wakeUp = resolve;
+        });
+      }
+    },
+  };
+
+  const emit = (message: SDKMessage) => {
+    pending.push(message);
+    wakeUp?.();
+  };
+
+  return { query: query as unknown as Query & { interrupt: typeof query.interrupt }, emit };
+}
+
+function start(id: string) {
+  let process!: ReturnType<typeof fakeQuery>;
+  const onIdleMessage = vi.fn(() => Promise.resolve());
+  const beforeRun = vi.fn(() => Promise.resolve());
+  const onClose = vi.fn(() => Promise.resolve());
+  const live = startLiveSession({
+    id,
+    fingerprint: 'fp',
+    model: null,
+    permissionMode: 'default',
+    start: (input) => {
+      process = fakeQuery(input);
+      return process.query;
+    },
+    onIdleMessage,
+    beforeRun,
+    onClose,
+  });
+  return { live, process, onIdleMessage, beforeRun, onClose };
+}
+
+const assistant = { type: 'assistant', message: { id: 'm1', content: [] } } as unknown as SDKMessage;
+const result = { type: 'result', subtype: 'success' } as unknown as SDKMessage;
+
+// 等待 run 记录归属并发出提示
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// 发送一次运行并以 result 结束
+async function completeRun(session: ReturnType<typeof start>) {
+  const run = session.live.run('hi', () => Promise.resolve());
+  await tick();
+  session.process.emit(result);
+  await run;
+}
+
+describe('live sessions', () => {
+  afterEach(() => {
+    closeAllLiveSessions();
+    vi.unstubAllEnvs();
+  });
+
+  it('interrupts the turn and drops its remaining messages when the handler stops', async () => {
+    const session = start('stop');
+    const run = session.live.run('hi', () => Promise.resolve('stop'));
+    await tick();
+    session.process.emit(assistant);
+    await run;
+
+    expect(session.process.query.interrupt).toHaveBeenCalledTimes(1);
+
+    session.process.emit(result);
+    await tick();
+    expect(session.onIdleMessage).not.toHaveBeenCalled();
+  });
+
+  it('closes the longest-idle session when the idle pool is full', async () => {
+    vi.stubEnv('AGENT_MAX_IDLE_SESSIONS', '2');
+    const sessions = ['a', 'b', 'c'].map(start);
+
+    for (const session of sessions) {
+      await completeRun(session);
+      session.live.release();
+    }
+
+    await vi.waitFor(() => expect(sessions[0]!.onClose).toHaveBeenCalled());
+    expect(sessions[1]!.onClose).not.toHaveBeenCalled();
+    expect(sessions[2]!.onClose).not.toHaveBeenCalled();
+  });
+
+  it('does not count running sessions as idle', async () => {
+    vi.stubEnv('AGENT_MAX_IDLE_SESSIONS', '1');
+    const first = start('first');
+    const second = start('second');
+
+    await completeRun(first);
+    first.live.release();
+    // 再次运行时离开空闲池，另一个会话空闲后不会关闭它
+    const run = first.live.run('again', () => Promise.resolve());
+    await tick();
+    await completeRun(second);
+    second.live.release();
+
+    first.process.emit(result);
+    await run;
+    expect(first.onClose).not.toHaveBeenCalled();
+    expect(second.onClose).not.toHaveBeenCalled();
+  });
+
+  it('calls beforeRun before every run of a reused process', async () => {
+    const session = start('refresh');
+    await completeRun(session);
+    session.live.release();
+    await completeRun(session);
+
+    expect(session.beforeRun).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * 流式输入的 Agent 会话
+ * query() 的 prompt 使用异步可迭代的输入流，每个会话在 worker 进程中保持一个 Query：
+ * 后续提示直接写入输入流，不再为每次运行启动新的 Claude Code 进程，运行中可以插话、切换模型和权限模式。
+ * 运行结束后进程保持空闲一段时间（AGENT_IDLE_TIMEOUT_MS），超时后关闭；每个 worker 的空闲进程数不超过 AGENT_MAX_IDLE_SESSIONS
+ */
+
+import type { PermissionMode, Query, SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import { instanceId, redisConnection } from './redis';
+import type { UsageBaseline } from './usage';
+
+// 会话最近一次运行所在的进程，其他进程中残留的空闲 Query 缺少之后的对话，不能再复用
+const LIVE_OWNER_PREFIX = 'agent:live-owner:';
+const LIVE_OWNER_TTL = 24 * 60 * 60;
+// result 之后还有未处理的插话时，等待其后续消息的时长
+const INJECTION_SETTLE_MS = 15000;
+
+/**
+ * 运行结束后 Query 保持空闲的时长（毫秒），0 表示运行结束后立即关闭
+ */
+export function getIdleTimeout() {
+  return parseInt(process.env.AGENT_IDLE_TIMEOUT_MS ?? '300000');
+}
+
+/**
+ * 每个 worker 进程最多保持的空闲 Query 数，默认与 worker 并发数相同，超出时关闭空闲最久的
+ */
+export function getMaxIdleSessions() {
+  return parseInt(process.env.AGENT_MAX_IDLE_SESSIONS ?? process.env.WORKER_CONCURRENCY ?? '2');
+}
+
+// 处理运行期间的一条消息，返回 'stop' 时立即结束本次运行
+export type LiveMessageHandler = (message: SDKMessage) => Promise<void | 'stop'>;
+
+export interface LiveSession {
+  readonly id: string;
+  readonly query: Query;
+  readonly fingerprint: string;  // 启动参数摘要，配置变化后不能复用
+  sessionId: string | null;  // Claude 的 sessionId，收到 init 消息后确定
+  model: string | null;
+  permissionMode: PermissionMode;
+  usageBaseline: UsageBaseline | null;  // 上一次 result 的累计用量，记录用量时减去
+  // 发送提示并等待本次运行结束
+  run: (prompt: string, handler: LiveMessageHandler) => Promise<void>;
+  // 运行中追加一条用户消息，没有运行中的任务时返回 false
+  inject: (prompt: string) => boolean;
+  // 运行结束后保持空闲，超时后关闭
+  release: () => void;
+  close: () => void;
+}
+
+interface ActiveRun {
+  handler: LiveMessageHandler;
+  injected: string[];  // 尚未被处理的插话
+  settleTimer?: NodeJS.Timeout;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// 本进程内保持中的会话
+const liveSessions = new Map<string, LiveSession>();
+// 空闲中的会话，按开始空闲的先后排列
+const idleSessions = new Set<string>();
+
+// 空闲会话超出上限时关闭空闲最久的
+function evictIdleSessions() {
+  const max = getMaxIdleSessions();
+  for (const idleId of idleSessions) {
+    if (idleSessions.size <= max) break;
+    console.log(`♻️ Idle session limit (${max}) reached, closing live session ${idleId}`);
+    liveSessions.get(idleId)?.close();
+    idleSessions.delete(idleId);
+  }
+}
+
+// 输入流：push 写入的消息依次交给 SDK，close 后迭代结束，Claude Code 进程随之退出
+function createInputStream() {
+  const buffer: SDKUserMessage[] = [];
+  let wakeUp: (() => void) | null = null;
+  let closed = false;
+
+  const iterable: AsyncIterable<SDKUserMessage> = {
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        const next = buffer.shift();
+        if (next) {
+          yield next;
+          continue;
+        }
+        if (closed) return;
+        await new Promise<void>(resolve => {
+          wakeUp = resolve;
+        });
+        wakeUp = null;
+      }
+    },
+  };
+
+  return {
+    iterable,
+    push: (message: SDKUserMessage) => {
+      buffer.push(message);
+      wakeUp?.();
+    },
+    close: () => {
+      closed = true;
+      wakeUp?.();
+    },
+  };
+}
+
+/**
+ * 取出可复用的会话：启动参数一致且会话最近一次运行就在本进程，否则关闭残留的 Query 并返回 null
+ */
+export async function acquireLiveSession(id: string, fingerprint: string): Promise<LiveSession | null> {
+  const live = liveSessions.get(id);
+  if (!live) return null;
+
+  const owner = await redisConnection.get(`${LIVE_OWNER_PREFIX}${id}`).catch(() => null);
+  if (live.fingerprint === fingerprint && owner === instanceId) return live;
+
+  console.log(`♻️ Closing stale live session ${id}`);
+  live.close();
+  return null;
+}
+
+/**
+ * 启动新的流式输入会话
+ * start 使用给定的输入流调用 query()；onIdleMessage 处理不属于任何运行的消息（如结束后才处理的插话）；
+ * beforeRun 在每次运行发送提示前调用，用于刷新沙箱配置等；onClose 在进程退出后调用，用于清理沙箱等资源
+ */
+export function startLiveSession(options: {
+  id: string;
+  fingerprint: string;
+  model: string | null;
+  permissionMode: PermissionMode;
+  start: (prompt: AsyncIterable<SDKUserMessage>) => Query;
+  onIdleMessage: (message: SDKMessage) => Promise<void>;
+  beforeRun?: () => Promise<void>;
+  onClose: () => Promise<void>;
+}): LiveSession {
+  const { id } = options;
+  const input = createInputStream();
+  const query = options.start(input.iterable);
+
+  let current: ActiveRun | null = null;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+  // handler 要求停止后，被中断的回合剩余的消息不再交给 onIdleMessage
+  let stopped = false;
+
+  const finishRun = (error?: unknown) => {
+    const run = current;
+    if (!run) return;
+    current = null;
+    clearTimeout(run.settleTimer);
+    if (error) {
+      run.reject(error);
+    } else {
+      run.resolve();
+    }
+  };
+
+  const dispatch = async (message: SDKMessage) => {
+    if (message.type === 'system' && message.subtype === 'init') {
+      live.sessionId = message.session_id;
+    }
+
+    const run = current;
+    if (!run) {
+      if (stopped || closed) return;
+      await options.onIdleMessage(message);
+      return;
+    }
+    clearTimeout(run.settleTimer);
+
+    // 插话被合并到当前回合时 SDK 会回显这条用户消息，插话时已经保存过，不再交给 handler
+    if (message.type === 'user' && typeof message.message.content === 'string') {
+      const index = run.injected.indexOf(message.message.content);
+      if (index >= 0) {
+        run.injected.splice(index, 1);
+        return;
+      }
+    }
+
+    if (await run.handler(message) === 'stop') {
+      // 先中断进程中的回合再结束运行，close 时 current 已为空，不会再中断
+      stopped = true;
+      query.interrupt().catch(() => undefined);
+      finishRun();
+      return;
+    }
+
+    if (message.type === 'result') {
+      if (run.injected.length === 0) {
+        finishRun();
+        return;
+      }
+      // 未合并的插话会作为新的回合继续执行
+      run.injected.shift();
+      run.settleTimer = setTimeout(() => finishRun(), INJECTION_SETTLE_MS);
+    }
+  };
+
+  const sendUserMessage = (prompt: string) => {
+    input.push({
+      type: 'user',
+      message: { role: 'user', content: prompt },
+      session_id: live.sessionId ?? '',
+      parent_tool_use_id: null,
+    });
+  };
+
+  const live: LiveSession = {
+    id,
+    query,
+    fingerprint: options.fingerprint,
+    sessionId: null,
+    model: options.model,
+    permissionMode: options.permissionMode,
+    usageBaseline: null,
+
+    run: async (prompt, handler) => {
+      if (closed) throw new Error(`Live session ${id} is closed`);
+      if (current) throw new Error(`Live session ${id} is already running`);
+
+      clearTimeout(idleTimer);
+      idleSessions.delete(id);
+      stopped = false;
+      await redisConnection.set(`${LIVE_OWNER_PREFIX}${id}`, instanceId, 'EX', LIVE_OWNER_TTL);
+      await options.beforeRun?.();
+
+      await new Promise<void>((resolve, reject) => {
+        current = { handler, injected: [], resolve, reject };
+        sendUserMessage(prompt);
+      });
+    },
+
+    inject: (prompt) => {
+      if (!current || closed) return false;
+      current.injected.push(prompt);
+      sendUserMessage(prompt);
+      return true;
+    },
+
+    release: () => {
+      if (closed) return;
+      const timeout = getIdleTimeout();
+      if (timeout <= 0) {
+        live.close();
+        return;
+      }
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        console.log(`💤 Live session ${id} idle for ${timeout}ms, closing`);
+        live.close();
+      }, timeout);
+
+      idleSessions.delete(id);
+      idleSessions.add(id);
+      evictIdleSessions();
+    },
+
+    close: () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(idleTimer);
+      if (liveSessions.get(id) === live) {
+        liveSessions.delete(id);
+        idleSessions.delete(id);
+      }
+
+      // 运行中关闭时先中断当前回合，输入流结束后进程退出
+      if (current) {
+        query.interrupt().catch(() => undefined);
+      }
+      input.close();
+    },
+  };
+
+  liveSessions.set(id, live);
+
+  // 持续读取消息，直到进程退出
+  void (async () => {
+    try {
+      for await (const message of query) {
+        try {
+          await dispatch(message);
+        } catch (error) {
+          finishRun(error);
+        }
+      }
+      finishRun();
+    } catch (error) {
+      finishRun(error);
+    } finally {
+      closed = true;
+      clearTimeout(idleTimer);
+      if (liveSessions.get(id) === live) {
+        liveSessions.delete(id);
+        idleSessions.delete(id);
+      }
+      await options.onClose().catch((error: unknown) => {
+        console.error(`Failed to clean up live session ${id}:`, error);
+      });
+    }
+  })();
+
+  return live;
+}
+
+/**
+ * 关闭本进程内所有保持中的会话（进程退出时调用）
+ */
+export function closeAllLiveSessions() {
+  for (const live of [...liveSessions.values()]) {
+    live.close();
+  }
+}
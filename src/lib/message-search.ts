@@ -0,0 +1,69 @@
+/**
+ * 会话消息全文搜索
+ * 索引表 AgentMessageSearch（FTS5 trigram）由数据库触发器维护，这里只负责查询
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { MessageSearchResult } from '~/types/search';
+
+// trigram 分词至少需要 3 个字符才能使用 MATCH，更短的查询退化为 LIKE 扫描
+const MIN_MATCH_LENGTH = 3;
+const SNIPPET_RADIUS = 40;
+
+interface SearchRow {
+  agentSessionId: string;
+  seq: number | bigint;
+  content: string;
+  title: string;
+  updatedAt: Date | string | number;
+}
+
+// 截取匹配位置附近的文本
+function makeSnippet(content: string, query: string) {
+  const text = content.replace(/\s+/g, ' ');
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * 搜索用户在工作区中的会话消息，按相关度排序
+ */
+export async function searchSessionMessages(
+  db: PrismaClient,
+  params: { workspaceId: string; userId: string; query: string; limit: number }
+): Promise<MessageSearchResult[]> {
+  const query = params.query.trim();
+  if (!query) return [];
+
+  const rows = [...query].length >= MIN_MATCH_LENGTH
+    ? await db.$queryRaw<SearchRow[]>`
+      SELECT s."agentSessionId", s."seq", s."content", a."title", a."updatedAt"
+      FROM "AgentMessageSearch" s
+      JOIN "AgentSession" a ON a."id" = s."agentSessionId"
+      WHERE "AgentMessageSearch" MATCH ${`"${query.replace(/"/g, '""')}"`}
+        AND a."workspaceId" = ${params.workspaceId}
+        AND a."userId" = ${params.userId}
+      ORDER BY s."rank"
+      LIMIT ${params.limit}`
+    : await db.$queryRaw<SearchRow[]>`
+      SELECT s."agentSessionId", s."seq", s."content", a."title", a."updatedAt"
+      FROM "AgentMessageSearch" s
+      JOIN "AgentSession" a ON a."id" = s."agentSessionId"
+      WHERE s."content" LIKE ${`%${query.replace(/[\\%_]/g, '\\$&')}%`} ESCAPE '\\'
+        AND a."workspaceId" = ${params.workspaceId}
+        AND a."userId" = ${params.userId}
+      ORDER BY a."updatedAt" DESC, s."seq"
+      LIMIT ${params.limit}`;
+
+  return rows.map(row => ({
+    id: row.agentSessionId,
+    title: row.title,
+    messageIndex: Number(row.seq),
+    snippet: makeSnippet(row.content, query),
+    updatedAt: new Date(row.updatedAt),
+  }));
+}
@@ -3,25 +3,107 @@
  */
 
 import { createId } from '@paralleldrive/cuid2';
-import { agentQueue } from './bullmq';
-import { getPrisma } from './bullmq-worker';
-import { subscriptionManager } from '~/server/api/routers/agent';
-import type { AddTaskParams, SessionWithStatus } from '~/types/queue';
+import { TRPCError } from '@trpc/server';
+import { AGENT_JOB_RETRY_OPTIONS, agentQueue, queueEvents } from './bullmq';
+import { instanceId, redisConnection } from './redis';
+import { getPrisma, getWorkerConcurrency } from './bullmq-worker';
+import { subscriptionManager } from './subscription-manager';
+import { getWorkerHeartbeats } from './worker-health';
+import type { AddTaskParams, AgentProgress, AgentTaskData, AgentTaskResult, JobAttempt, QueueJobInfo, QueueJobState, QueueOverview, SessionWithStatus } from '~/types/queue';
 import type { TaskStatus } from '~/types/status';
 import type { Job } from 'bullmq';
+import { sumUsageBy } from './usage';
+import { ensureWithinBudget } from './budget';
+import { deriveSessionTitle } from './session-title';
+import { EMPTY_USAGE_TOTALS } from '~/types/usage';
+import { getJobPriority } from './fair-queue';
+import { ensureWorkspaceAccess, resolveWorkspaceAccess } from './workspace-access';
+
+// 参与估算排队时间的最近完成任务数
+const DURATION_SAMPLE_SIZE = 20;
+
+const ENQUEUE_LOCK_PREFIX = 'agent:enqueue-lock:';
+const ENQUEUE_LOCK_TTL_MS = 10000;
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+// 每个 Web 进程都会收到完成事件，只有先标记该 job 的进程发送下一条待发送提示
+const DISPATCH_CLAIM_PREFIX = 'agent:dispatch-claim:';
+const DISPATCH_CLAIM_TTL = 24 * 60 * 60;
 
 // 辅助函数：检查是否有消息
-function hasMessages(messages: unknown): boolean {
-  if (!messages) return false;
-  if (typeof messages === 'string') {
-    try {
-      const parsed = JSON.parse(messages) as unknown[];
-      return Array.isArray(parsed) && parsed.length > 0;
-    } catch {
-      return false;
-    }
+function hasMessages(session: { _count: { messages: number } }): boolean {
+  return session._count.messages > 0;
+}
+
+// 辅助函数：将 BullMQ 的 job 状态映射为 TaskStatus
+function toTaskStatus(state: string): TaskStatus {
+  switch (state) {
+    case 'active': return 'running';
+    case 'waiting':
+    case 'prioritized':
+    case 'waiting-children':
+    case 'delayed': return 'queued';
+    case 'completed': return 'completed';
+    case 'failed': return 'failed';
+    default: return 'idle';
+  }
+}
+
+// 辅助函数：读取 job 中保存的运行进度（旧版本保存的是数字，视为没有进度）
+function toAgentProgress(progress: unknown): AgentProgress | null {
+  return typeof progress === 'object' && progress !== null && 'turn' in progress
+    ? progress as AgentProgress
+    : null;
+}
+
+/**
+ * 当前排队情况：等待中任务的位置和预计开始时间
+ * worker 先领取 wait 列表中的任务，再按优先级领取 prioritized 中的任务
+ */
+async function getQueueSnapshot() {
+  const [waitingIds, completed, workers] = await Promise.all([
+    agentQueue.getRanges(['wait', 'prioritized'], 0, -1, true),
+    agentQueue.getJobs(['completed'], 0, DURATION_SAMPLE_SIZE - 1),
+    getWorkerHeartbeats(),
+  ]);
+
+  const positions = new Map(waitingIds.map((jobId, index) => [jobId, index + 1]));
+
+  const durations = completed
+    .filter(job => job?.processedOn && job.finishedOn)
+    .map(job => job.finishedOn! - job.processedOn!);
+  const averageDurationMs = durations.length > 0
+    ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+    : null;
+
+  // 可用的 worker 槽位数，没有心跳信息时按本进程的并发数估算
+  const slots = workers
+    .filter(worker => worker.status === 'running')
+    .reduce((sum, worker) => sum + worker.concurrency, 0) || getWorkerConcurrency();
+
+  // 排在第 position 位的任务需要等前面的任务按 worker 槽位分批完成
+  const estimateStartAt = (position: number | null) =>
+    position !== null && averageDurationMs !== null
+      ? Date.now() + Math.ceil(position / slots) * averageDurationMs
+      : null;
+
+  return { positions, averageDurationMs, estimateStartAt };
+}
+
+// 会话入队锁（SET NX），持有者在锁内检查已有任务并入队
+async function withEnqueueLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${ENQUEUE_LOCK_PREFIX}${sessionId}`;
+  const token = createId();
+  const locked = await redisConnection.set(key, token, 'PX', ENQUEUE_LOCK_TTL_MS, 'NX');
+  if (!locked) {
+    throw new Error('Session already has a running task');
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // 只释放自己持有的锁
+    await redisConnection.eval(RELEASE_LOCK_SCRIPT, 1, key, token).catch(() => undefined);
   }
-  return Array.isArray(messages) && (messages as unknown[]).length > 0;
 }
 
 /**
@@ -32,30 +114,29 @@ export async function addAgentTask({
   workspaceId,
   userId,
   query,
+  jobId,
 }: AddTaskParams) {
   const userIdStr = String(userId);
   const prisma = getPrisma();
   let session;
+
+  // 超出工作区或成员预算时拒绝入队
+  await ensureWithinBudget(prisma, workspaceId, userIdStr);
   let mutableId = id;
 
   if (mutableId) {
     session = await prisma.agentSession.findUnique({
       where: { id: mutableId },
-      select: { sessionId: true, bullJobId: true }
+      select: { sessionId: true, bullJobId: true, workspaceId: true, userId: true }
     });
-  }
 
-  if (session) {
-    if (session.bullJobId) {
-      const job = await agentQueue.getJob(session.bullJobId);
-      if (job) {
-        const state = await job.getState();
-        if (state === 'active' || state === 'waiting') {
-          throw new Error('Session already has a running task');
-        }
-      }
+    // 只能在自己的、属于该工作区的会话中继续对话，否则会恢复他人的 Claude 会话并写入其记录
+    if (session && (session.workspaceId !== workspaceId || session.userId !== userIdStr)) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Session not found or access denied' });
     }
-  } else {
+  }
+
+  if (!session) {
     const newId = createId();
     session = await prisma.agentSession.create({
       data: {
@@ -63,26 +144,53 @@ export async function addAgentTask({
         sessionId: null,
         workspaceId,
         userId: userIdStr,
-        title: query.slice(0, 50),
-        messages: [],
+        title: deriveSessionTitle(query),
       }
     });
     mutableId = newId;
   }
+  const sessionId = mutableId!;
+  const claudeSessionId = session.sessionId ?? undefined;
+
+  // 按角色和用户当前的排队任务数计算优先级，避免单个用户占满队列
+  const access = await resolveWorkspaceAccess(prisma, workspaceId, userIdStr);
+  const priority = await getJobPriority(agentQueue, {
+    workspaceId,
+    userId: userIdStr,
+    role: access?.role ?? null,
+    source: 'interactive',
+  });
 
-  const job = await agentQueue.add(
-    'execute-query',
-    { id: mutableId, sessionId: session?.sessionId, query, workspaceId, userId: userIdStr },
-    { attempts: 3, backoff: { type: 'exponential', delay: 2000 } }
-  );
+  // 检查已有任务和入队在锁内完成，多个进程同时为同一会话入队时只有一个成功
+  return await withEnqueueLock(sessionId, async () => {
+    const current = await prisma.agentSession.findUnique({
+      where: { id: sessionId },
+      select: { bullJobId: true }
+    });
+    if (current?.bullJobId) {
+      const job = await agentQueue.getJob(current.bullJobId);
+      if (job) {
+        const state = await job.getState();
+        if (state === 'active' || state === 'waiting' || state === 'prioritized' || state === 'delayed') {
+          throw new Error('Session already has a running task');
+        }
+      }
+    }
 
-  // 将 bullJobId 分配给当前 session 前，先清理数据库中可能已有相同 bullJobId 的记录，避免唯一约束冲突
-  await prisma.$transaction([
-    prisma.agentSession.updateMany({ where: { bullJobId: job.id! }, data: { bullJobId: null } }),
-    prisma.agentSession.update({ where: { id: mutableId }, data: { bullJobId: job.id! } })
-  ]);
+    const job = await agentQueue.add(
+      'execute-query',
+      { id: sessionId, sessionId: claudeSessionId, query, workspaceId, userId: userIdStr },
+      { jobId, ...AGENT_JOB_RETRY_OPTIONS, priority }
+    );
 
-  return { id: mutableId, jobId: job.id, sessionId: session?.sessionId };
+    // 将 bullJobId 分配给当前 session 前，先清理数据库中可能已有相同 bullJobId 的记录，避免唯一约束冲突
+    await prisma.$transaction([
+      prisma.agentSession.updateMany({ where: { bullJobId: job.id! }, data: { bullJobId: null } }),
+      prisma.agentSession.update({ where: { id: sessionId }, data: { bullJobId: job.id! } })
+    ]);
+
+    return { id: sessionId, jobId: job.id, sessionId: claudeSessionId };
+  });
 }
 
 /**
@@ -90,13 +198,20 @@ export async function addAgentTask({
  */
 export async function getTaskStatus(sessionId: string): Promise<SessionWithStatus | null> {
   const prisma = getPrisma();
-  const session = await prisma.agentSession.findUnique({ where: { id: sessionId } });
+  const session = await prisma.agentSession.findUnique({
+    where: { id: sessionId },
+    include: { _count: { select: { messages: true } } },
+    // 导入的会话记录可能很大，只在 worker 恢复会话时读取
+    omit: { importedTranscript: true },
+  });
 
   if (!session) return null;
 
   let jobState: string | null = null;
-  let jobProgress = 0;
+  let jobProgress: AgentProgress | null = null;
   let attemptsMade = 0;
+  let maxAttempts = 1;
+  let attempts: JobAttempt[] = [];
   let failedReason = null;
 
   if (session.bullJobId) {
@@ -104,40 +219,48 @@ export async function getTaskStatus(sessionId: string): Promise<SessionWithStatu
     if (job) {
       try {
         jobState = await job.getState();
-        jobProgress = typeof job.progress === 'number' ? job.progress : 0;
+        jobProgress = toAgentProgress(job.progress);
         attemptsMade = job.attemptsMade ?? 0;
+        maxAttempts = job.opts.attempts ?? 1;
+        attempts = job.data.attempts ?? [];
         failedReason = job.failedReason;
       } catch {
         // Job 状态获取失败，根据消息判断
-        jobState = hasMessages(session.messages) ? 'completed' : 'failed';
+        jobState = hasMessages(session) ? 'completed' : 'failed';
       }
     } else {
       // Job 已被清理，根据消息判断
-      jobState = hasMessages(session.messages) ? 'completed' : 'failed';
+      jobState = hasMessages(session) ? 'completed' : 'failed';
     }
   }
 
   let finalStatus: TaskStatus = 'idle';
 
   if (jobState) {
-    switch (jobState) {
-      case 'active': finalStatus = 'running'; break;
-      case 'waiting':
-      case 'delayed': finalStatus = 'idle'; break;
-      case 'completed': finalStatus = 'completed'; break;
-      case 'failed': finalStatus = 'failed'; break;
-    }
+    finalStatus = toTaskStatus(jobState);
   } else if (session.bullJobId) {
-    finalStatus = hasMessages(session.messages) ? 'completed' : 'failed';
+    finalStatus = hasMessages(session) ? 'completed' : 'failed';
+  }
+
+  // 排队中的任务附带排队位置和预计开始时间
+  let queuePosition: number | null = null;
+  let estimatedStartAt: number | null = null;
+  if (finalStatus === 'queued' && session.bullJobId) {
+    const snapshot = await getQueueSnapshot();
+    queuePosition = snapshot.positions.get(session.bullJobId) ?? null;
+    estimatedStartAt = snapshot.estimateStartAt(queuePosition);
   }
 
   return {
     ...session,
     status: finalStatus,
+    queuePosition,
+    estimatedStartAt,
     progress: jobProgress,
     isActive: finalStatus === 'running',
     attemptsMade,
-    attemptsRemaining: Math.max(0, 3 - attemptsMade),
+    attemptsRemaining: Math.max(0, maxAttempts - attemptsMade),
+    attempts,
     failedReason,
     processedAt: null,
     finishedAt: null,
@@ -162,7 +285,7 @@ export async function cancelTask(sessionId: string): Promise<boolean> {
 
     const state = await job.getState();
 
-    if (state === 'waiting' || state === 'delayed') {
+    if (state === 'waiting' || state === 'prioritized' || state === 'delayed') {
       await job.remove();
       await prisma.agentSession.update({
         where: { id: sessionId },
@@ -172,8 +295,8 @@ export async function cancelTask(sessionId: string): Promise<boolean> {
     }
 
     if (state === 'active') {
-      subscriptionManager.unregisterQuery(sessionId);
-      return true;
+      // Query 可能运行在其他 worker 进程，通过事件总线转发中断请求
+      return await subscriptionManager.interruptQuery(sessionId);
     }
 
     return false;
@@ -193,7 +316,21 @@ export async function getWorkspaceSessionsWithStatus(
   const prisma = getPrisma();
   const sessions = await prisma.agentSession.findMany({
     where: { workspaceId, userId: String(userId) },
-    orderBy: { updatedAt: 'desc' },
+    omit: { importedTranscript: true },
+    include: {
+      _count: {
+        select: {
+          messages: true,
+          permissionRequests: { where: { status: 'pending', expiresAt: { gt: new Date() } } },
+        },
+      },
+    },
+    // 置顶的会话排在最前
+    orderBy: [{ pinnedAt: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+  });
+
+  const usageBySession = await sumUsageBy(prisma, 'agentSessionId', {
+    agentSessionId: { in: sessions.map(s => s.id) },
   });
 
   const jobIds = sessions
@@ -201,16 +338,16 @@ export async function getWorkspaceSessionsWithStatus(
     .filter((id): id is string => id !== null);
 
   const activeJobs: Array<{
-    job: Job;
+    job: Job<AgentTaskData>;
     state: string;
-    progress: number;
+    progress: AgentProgress | null;
     attemptsMade: number;
     failedReason: string | null;
   }> = [];
 
   if (jobIds.length > 0) {
     const allJobs = await Promise.all(jobIds.map(id => agentQueue.getJob(id)));
-    const jobs = allJobs.filter((job): job is Job => job != null);
+    const jobs = allJobs.filter((job): job is Job<AgentTaskData> => job != null);
 
     const jobStates = await Promise.all(
       jobs.map(async job => {
@@ -218,7 +355,7 @@ export async function getWorkspaceSessionsWithStatus(
           return {
             job,
             state: await job.getState(),
-            progress: typeof job.progress === 'number' ? job.progress : 0,
+            progress: toAgentProgress(job.progress),
             attemptsMade: job.attemptsMade ?? 0,
             failedReason: job.failedReason,
           };
@@ -231,41 +368,271 @@ export async function getWorkspaceSessionsWithStatus(
     activeJobs.push(...jobStates.filter((job): job is NonNullable<typeof job> => job !== null));
   }
 
+  const snapshot = activeJobs.some(aj => toTaskStatus(aj.state) === 'queued')
+    ? await getQueueSnapshot()
+    : null;
+
   return sessions.map((session) => {
     const activeJob = activeJobs.find(aj => aj.job.id === session.bullJobId);
 
     let status: TaskStatus = 'idle';
-    let progress = 0;
+    let progress: AgentProgress | null = null;
     let isActive = false;
     let attemptsMade = 0;
+    let maxAttempts = 1;
+    let attempts: JobAttempt[] = [];
     let failedReason = null;
+    let queuePosition: number | null = null;
 
     if (activeJob) {
-      switch (activeJob.state) {
-        case 'active': status = 'running'; isActive = true; break;
-        case 'waiting':
-        case 'delayed': status = 'idle'; break;
-        case 'completed': status = 'completed'; break;
-        case 'failed': status = 'failed'; break;
+      status = toTaskStatus(activeJob.state);
+      isActive = status === 'running';
+      if (status === 'queued') {
+        queuePosition = snapshot?.positions.get(activeJob.job.id!) ?? null;
       }
       progress = activeJob.progress;
       attemptsMade = activeJob.attemptsMade;
+      maxAttempts = activeJob.job.opts.attempts ?? 1;
+      attempts = activeJob.job.data.attempts ?? [];
       failedReason = activeJob.failedReason;
     } else if (session.bullJobId) {
       // Job 已被清理，根据消息判断状态
-      status = hasMessages(session.messages) ? 'completed' : 'failed';
+      status = hasMessages(session) ? 'completed' : 'failed';
     }
 
     return {
       ...session,
       status,
+      queuePosition,
+      estimatedStartAt: snapshot?.estimateStartAt(queuePosition) ?? null,
       progress,
       isActive,
       attemptsMade,
-      attemptsRemaining: Math.max(0, 3 - attemptsMade),
+      attemptsRemaining: Math.max(0, maxAttempts - attemptsMade),
+      attempts,
       failedReason,
+      pendingPermissions: session._count.permissionRequests,
+      usage: usageBySession.get(session.id) ?? EMPTY_USAGE_TOTALS,
       processedAt: null,
       finishedAt: null,
     } as SessionWithStatus;
   });
 }
+
+// ========================
+// 队列管理（管理后台）
+// ========================
+
+// 查找任务及其状态，任务不存在时返回 null
+async function findQueueJob(jobId: string) {
+  const job = await agentQueue.getJob(jobId);
+  if (!job) return null;
+  return { job, state: await job.getState() };
+}
+
+/**
+ * 队列概览：运行中、等待中、延迟和失败的任务，以及存活的 worker
+ */
+export async function getQueueOverview(limit = 50): Promise<QueueOverview> {
+  const prisma = getPrisma();
+  const states: QueueJobState[] = ['active', 'waiting', 'prioritized', 'delayed', 'failed'];
+
+  const [counts, snapshot, workers, ...jobsByState] = await Promise.all([
+    agentQueue.getJobCounts(...states, 'completed'),
+    getQueueSnapshot(),
+    getWorkerHeartbeats(),
+    ...states.map(state => agentQueue.getJobs([state], 0, limit - 1, state !== 'failed')),
+  ]);
+
+  const entries = states.flatMap((state, index) =>
+    (jobsByState[index] ?? [])
+      .filter((job): job is Job<AgentTaskData> => !!job?.id)
+      .map(job => ({ job, state }))
+  );
+
+  const sessionIds = entries
+    .map(({ job }) => job.data.id)
+    .filter((id): id is string => !!id);
+  const sessions = await prisma.agentSession.findMany({
+    where: { id: { in: sessionIds } },
+    select: {
+      id: true,
+      title: true,
+      workspace: { select: { name: true } },
+      user: { select: { name: true, email: true } },
+    },
+  });
+  const sessionMap = new Map(sessions.map(session => [session.id, session]));
+
+  const jobs = entries.map(({ job, state }): QueueJobInfo => {
+    const session = job.data.id ? sessionMap.get(job.data.id) : undefined;
+    return {
+      id: job.id!,
+      state,
+      position: snapshot.positions.get(job.id!) ?? null,
+      sessionId: job.data.id ?? null,
+      title: session?.title ?? null,
+      workspaceName: session?.workspace.name ?? null,
+      userName: session ? session.user.name ?? session.user.email : null,
+      scheduledTaskId: job.data.scheduledTaskId ?? null,
+      priority: job.priority,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason ?? null,
+      timestamp: job.timestamp,
+      processedOn: job.processedOn ?? null,
+      finishedOn: job.finishedOn ?? null,
+      delayUntil: state === 'delayed' ? job.timestamp + job.delay : null,
+    };
+  });
+
+  return {
+    counts: {
+      active: counts.active ?? 0,
+      waiting: counts.waiting ?? 0,
+      prioritized: counts.prioritized ?? 0,
+      delayed: counts.delayed ?? 0,
+      failed: counts.failed ?? 0,
+      completed: counts.completed ?? 0,
+    },
+    jobs,
+    workers,
+    averageDurationMs: snapshot.averageDurationMs,
+  };
+}
+
+/**
+ * 重试失败的任务
+ */
+export async function retryQueueJob(jobId: string): Promise<boolean> {
+  const found = await findQueueJob(jobId);
+  if (found?.state !== 'failed') return false;
+
+  await found.job.retry('failed');
+  return true;
+}
+
+/**
+ * 移除任务：等待中的任务直接删除，运行中的任务先中断查询
+ */
+export async function removeQueueJob(jobId: string): Promise<boolean> {
+  const found = await findQueueJob(jobId);
+  if (!found) return false;
+
+  const { job, state } = found;
+  const sessionId = job.data.id;
+
+  if (state === 'active') {
+    return sessionId ? await subscriptionManager.interruptQuery(sessionId) : false;
+  }
+
+  await job.remove();
+  if (sessionId) {
+    await getPrisma().agentSession.updateMany({
+      where: { id: sessionId, bullJobId: jobId },
+      data: { bullJobId: null },
+    });
+  }
+  return true;
+}
+
+/**
+ * 提前执行任务：延迟任务立即进入等待队列，等待中的任务移到队首
+ */
+export async function promoteQueueJob(jobId: string): Promise<boolean> {
+  const found = await findQueueJob(jobId);
+  if (!found) return false;
+
+  const { job, state } = found;
+
+  if (state === 'delayed') {
+    await job.promote();
+    return true;
+  }
+
+  if (state === 'waiting' || state === 'prioritized') {
+    await job.changePriority({ priority: 0, lifo: true });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * 发送会话的下一条待发送提示
+ * 先删除再入队，多个进程同时处理时只有一个能取到同一条提示；入队失败时放回原位
+ */
+export async function dispatchPendingPrompt(sessionId: string): Promise<boolean> {
+  const prisma = getPrisma();
+  const next = await prisma.pendingPrompt.findFirst({
+    where: { agentSessionId: sessionId },
+    orderBy: { createdAt: 'asc' },
+    include: { session: { select: { workspaceId: true, userId: true } } },
+  });
+  if (!next) return false;
+
+  const { count } = await prisma.pendingPrompt.deleteMany({ where: { id: next.id } });
+  if (count === 0) return false;
+
+  const { workspaceId, userId } = next.session;
+  try {
+    await ensureWorkspaceAccess(prisma, workspaceId, userId, 'agent:run');
+    // 以提示 ID 作为 job ID，同一条提示重复入队时 BullMQ 不会再创建新任务
+    await addAgentTask({ id: sessionId, workspaceId, userId, query: next.content, jobId: `pending-${next.id}` });
+  } catch (error) {
+    await prisma.pendingPrompt.create({
+      data: { id: next.id, agentSessionId: sessionId, content: next.content, createdAt: next.createdAt },
+    });
+    throw error;
+  }
+
+  // 仍在监听的订阅切换到排队状态，之后由 watchQuery 推送排队位置
+  subscriptionManager.emit(sessionId, {
+    type: 'queue_update',
+    id: sessionId,
+    sessionId: null,
+    status: 'queued',
+    timestamp: new Date(),
+  });
+  return true;
+}
+
+/**
+ * 任务正常结束后自动发送会话的下一条待发送提示
+ * 通过 QueueEvents 监听所有 worker 的完成事件；被用户中断或执行失败的会话不再继续发送。
+ * 多个 Web 进程都会收到同一个完成事件，以 Redis 标记保证只发送一次
+ */
+let pendingPromptDispatcherStarted = false;
+export function startPendingPromptDispatcher() {
+  if (pendingPromptDispatcherStarted) return;
+  pendingPromptDispatcherStarted = true;
+
+  queueEvents.on('completed', ({ jobId }) => {
+    void (async () => {
+      const job = await agentQueue.getJob(jobId);
+      const result = job?.returnvalue as AgentTaskResult | undefined;
+      const sessionId = job?.data.id;
+      if (!sessionId || !result?.success || result.interrupted) return;
+
+      const claimed = await redisConnection.set(`${DISPATCH_CLAIM_PREFIX}${jobId}`, instanceId, 'EX', DISPATCH_CLAIM_TTL, 'NX');
+      if (!claimed) return;
+
+      try {
+        await dispatchPendingPrompt(sessionId);
+      } catch (error) {
+        // 提示保留在队列中，由用户手动重新发送
+        subscriptionManager.emit(sessionId, {
+          type: 'message_update',
+          id: sessionId,
+          sessionId: null,
+          messages: [],
+          status: 'failed',
+          error: `待发送的提示未能发送：${error instanceof Error ? error.message : String(error)}`,
+          timestamp: new Date(),
+        });
+        throw error;
+      }
+    })().catch((error: unknown) => {
+      console.error(`Failed to dispatch pending prompt after job ${jobId}:`, error);
+    });
+  });
+}
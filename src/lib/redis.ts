@@ -0,0 +1,22 @@
+/**
+ * Redis 连接
+ * BullMQ 队列和跨进程事件总线共用
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+
+// Redis 配置
+export const redisConfig = {
+  host: process.env.REDIS_HOST ?? 'localhost',
+  port: parseInt(process.env.REDIS_PORT ?? '6379'),
+  maxRetriesPerRequest: null,
+  lazyConnect: true,
+};
+
+// 创建 Redis 连接
+export const redisConnection = new Redis(redisConfig);
+
+// 当前进程标识，用于记录 Query 归属和 worker 心跳
+export const instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
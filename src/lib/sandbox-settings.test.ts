@@ -0,0 +1,59 @@
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildSandboxSettings, createJobSandbox } from './sandbox-settings';
+
+describe('sandbox settings', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'sandbox-settings-'));
+    vi.stubEnv('WORKSPACE_BASE_DIR', join(baseDir, 'workspaces'));
+    vi.stubEnv('SANDBOX_SETTINGS_DIR', join(baseDir, 'sandbox'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('allows writing to the workspace and the temp dir', async () => {
+    const settings = await buildSandboxSettings({
+      workspaceDir: join(baseDir, 'workspaces', 'w1'),
+      tmpDir: '/sandbox/tmp',
+      allowedDomains: [],
+      readOnly: false,
+    });
+    expect(settings.filesystem.allowWrite).toEqual([join(baseDir, 'workspaces', 'w1'), '/sandbox/tmp']);
+  });
+
+  it('allows writing only to the temp dir for read-only runs', async () => {
+    const settings = await buildSandboxSettings({
+      workspaceDir: join(baseDir, 'workspaces', 'w1'),
+      tmpDir: '/sandbox/tmp',
+      allowedDomains: [],
+      readOnly: true,
+    });
+    expect(settings.filesystem.allowWrite).toEqual(['/sandbox/tmp']);
+  });
+
+  it('denies reading workspaces created after the sandbox once refreshed', async () => {
+    await mkdir(join(baseDir, 'workspaces', 'w1'), { recursive: true });
+    const sandbox = await createJobSandbox({
+      jobId: 'job-1',
+      workspaceDir: join(baseDir, 'workspaces', 'w1'),
+      allowedDomains: [],
+      readOnly: false,
+    });
+    const readDenyRead = async () =>
+      (JSON.parse(await readFile(sandbox.settingsPath, 'utf8')) as { filesystem: { denyRead: string[] } }).filesystem.denyRead;
+
+    await mkdir(join(baseDir, 'workspaces', 'w2'));
+    expect(await readDenyRead()).not.toContain(join(baseDir, 'workspaces', 'w2'));
+
+    await sandbox.refresh();
+    expect(await readDenyRead()).toContain(join(baseDir, 'workspaces', 'w2'));
+    expect(await readDenyRead()).not.toContain(join(baseDir, 'workspaces', 'w1'));
+  });
+});
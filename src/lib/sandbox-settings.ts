@@ -0,0 +1,164 @@
+/**
+ * srt 沙箱配置
+ * 每个任务生成一份只允许写入当前工作区目录和专属临时目录的配置文件，
+ * 取代全局的 ~/.srt-settings.json，避免一个工作区的 agent 访问其他工作区
+ */
+
+import { mkdir, readdir, rm, writeFile } from 'fs/promises';
+import { homedir, tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { getWorkspaceBaseDir } from './workspace-config';
+import { isRedirectSegment, parseShellCommand } from './command-policy';
+
+// srt 配置文件格式
+interface SrtSettings {
+  network: {
+    allowedDomains: string[];
+    deniedDomains: string[];
+    allowUnixSockets: string[];
+    allowLocalBinding: boolean;
+  };
+  filesystem: {
+    denyRead: string[];
+    allowWrite: string[];
+    denyWrite: string[];
+  };
+  ignoreViolations: Record<string, string[]>;
+  enableWeakerNestedSandbox: boolean;
+}
+
+export interface JobSandbox {
+  settingsPath: string;
+  tmpDir: string;
+  readOnly: boolean;
+  // 重新生成配置文件，进程复用期间新建的工作区同样禁止读取
+  refresh: () => Promise<void>;
+  cleanup: () => Promise<void>;
+}
+
+// 始终禁止读取的敏感目录
+const SENSITIVE_DIRS = ['.ssh', '.gnupg', '.aws', '.config/gcloud', '.kube', '.docker'];
+
+// 直接修改文件的内置工具，只读运行时禁用
+export const FILE_EDIT_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+/**
+ * 沙箱配置文件的存放目录，可通过 SANDBOX_SETTINGS_DIR 指定
+ */
+export function getSandboxSettingsDir(): string {
+  const envDir = process.env.SANDBOX_SETTINGS_DIR;
+  return envDir?.trim() ? resolve(envDir) : join(tmpdir(), 'saulgooo-sandbox');
+}
+
+/**
+ * 获取工作区根目录下其他工作区的路径，禁止当前任务读取
+ */
+async function getSiblingWorkspaceDirs(workspaceDir: string): Promise<string[]> {
+  const baseDir = resolve(getWorkspaceBaseDir());
+
+  try {
+    const entries = await readdir(baseDir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => join(baseDir, entry.name))
+      .filter(dir => dir !== resolve(workspaceDir));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 生成 srt 配置
+ * 只读运行（用户没有 file:write 权限）时只允许写入临时目录
+ */
+export async function buildSandboxSettings(options: {
+  workspaceDir: string;
+  tmpDir: string;
+  allowedDomains: string[];
+  readOnly: boolean;
+}): Promise<SrtSettings> {
+  const { workspaceDir, tmpDir, allowedDomains, readOnly } = options;
+
+  return {
+    network: {
+      allowedDomains,
+      deniedDomains: [],
+      allowUnixSockets: [],
+      allowLocalBinding: false,
+    },
+    filesystem: {
+      denyRead: [
+        ...SENSITIVE_DIRS.map(dir => join(homedir(), dir)),
+        ...(await getSiblingWorkspaceDirs(workspaceDir)),
+      ],
+      allowWrite: readOnly ? [tmpDir] : [resolve(workspaceDir), tmpDir],
+      denyWrite: [],
+    },
+    ignoreViolations: {
+      '*': ['/usr/bin', '/System'],
+    },
+    enableWeakerNestedSandbox: false,
+  };
+}
+
+/**
+ * 为任务生成沙箱配置文件和临时目录，任务结束后调用 cleanup 删除
+ * srt 每次执行时读取配置文件，复用进程时在每次运行前调用 refresh 更新其他工作区列表
+ */
+export async function createJobSandbox(options: {
+  jobId: string;
+  workspaceDir: string;
+  allowedDomains: string[];
+  readOnly: boolean;
+}): Promise<JobSandbox> {
+  const jobDir = join(getSandboxSettingsDir(), options.jobId.replace(/[^\w-]/g, '_'));
+  const tmpDir = join(jobDir, 'tmp');
+  const settingsPath = join(jobDir, 'srt-settings.json');
+
+  const writeSettings = async () => {
+    const settings = await buildSandboxSettings({
+      workspaceDir: options.workspaceDir,
+      tmpDir,
+      allowedDomains: options.allowedDomains,
+      readOnly: options.readOnly,
+    });
+    await writeFile(settingsPath, JSON.stringify(settings, null, 2), 'utf8');
+  };
+
+  await mkdir(tmpDir, { recursive: true });
+  await writeSettings();
+
+  return {
+    settingsPath,
+    tmpDir,
+    readOnly: options.readOnly,
+    refresh: writeSettings,
+    cleanup: async () => {
+      await rm(jobDir, { recursive: true, force: true });
+    },
+  };
+}
+
+// 判断 srt 命令是否使用了指定的配置文件
+function usesSettings(argv: string[], settingsPath: string): boolean {
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if ((arg === '-s' || arg === '--settings') && argv[i + 1] === settingsPath) return true;
+    if (arg === `--settings=${settingsPath}`) return true;
+    if (!arg.startsWith('-')) break;  // 选项之后是要执行的命令
+  }
+  return false;
+}
+
+/**
+ * 找出命令中没有使用本任务沙箱配置的 srt 调用，以及在沙箱外读写文件的重定向
+ */
+export function findUnsandboxedCommands(command: string, settingsPath: string): string[] {
+  const parsed = parseShellCommand(command);
+  // 无法解析的命令无法确认是否都在沙箱中执行，整条视为未使用沙箱
+  if (parsed.error) return [command];
+
+  return parsed.commands
+    .filter(argv => isRedirectSegment(argv) || (argv[0] === 'srt' && !usesSettings(argv, settingsPath)))
+    .map(argv => argv.join(' '));
+}
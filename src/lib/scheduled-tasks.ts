@@ -0,0 +1,114 @@
+/**
+ * 定时任务
+ * 每个启用的 ScheduledTask 对应 agentQueue 上的一个 BullMQ job scheduler，
+ * 到点后以 execute-query 任务入队，由 worker 创建新会话并运行提示
+ */
+
+import type { ScheduledTask } from '@prisma/client';
+import { defaultRepeatStrategy } from 'bullmq';
+import { AGENT_JOB_RETRY_OPTIONS, agentQueue } from './bullmq';
+import { getPrisma } from './bullmq-worker';
+import type { AgentTaskData } from '~/types/queue';
+import { SCHEDULED_JOB_PRIORITY } from './fair-queue';
+
+/**
+ * ScheduledTask 对应的 job scheduler ID
+ */
+export function getSchedulerId(taskId: string) {
+  return `scheduled-${taskId}`;
+}
+
+/**
+ * 校验时区名称（IANA 格式，如 Asia/Shanghai）
+ */
+export function isValidTimeZone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 校验 cron 表达式，解析方式与 job scheduler 计算下次运行时间相同
+ * 有效时返回 null，否则返回解析错误信息
+ */
+export function getCronError(cron: string, timezone: string): string | null {
+  try {
+    defaultRepeatStrategy(Date.now(), { pattern: cron, tz: timezone });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * 按任务当前配置创建、更新或移除 job scheduler
+ * 调用前应先用 getCronError 校验 cron 表达式
+ */
+export async function syncScheduledTask(
+  task: Pick<ScheduledTask, 'id' | 'workspaceId' | 'userId' | 'prompt' | 'cron' | 'timezone' | 'enabled'>
+) {
+  const schedulerId = getSchedulerId(task.id);
+
+  if (!task.enabled) {
+    await agentQueue.removeJobScheduler(schedulerId);
+    return;
+  }
+
+  const data: AgentTaskData = {
+    scheduledTaskId: task.id,
+    query: task.prompt,
+    workspaceId: task.workspaceId,
+    userId: task.userId,
+  };
+
+  await agentQueue.upsertJobScheduler(
+    schedulerId,
+    { pattern: task.cron, tz: task.timezone },
+    { name: 'execute-query', data, opts: { ...AGENT_JOB_RETRY_OPTIONS, priority: SCHEDULED_JOB_PRIORITY } }
+  );
+}
+
+/**
+ * 移除任务的 job scheduler（删除任务时调用）
+ */
+export async function removeScheduledTask(taskId: string) {
+  await agentQueue.removeJobScheduler(getSchedulerId(taskId));
+}
+
+/**
+ * 下次运行时间，任务未启用或 scheduler 不存在时返回 null
+ */
+export async function getNextRunAt(taskId: string) {
+  const scheduler = await agentQueue.getJobScheduler(getSchedulerId(taskId));
+  return scheduler?.next ? new Date(scheduler.next) : null;
+}
+
+/**
+ * 启动时按数据库重新同步所有定时任务
+ * Redis 数据丢失或任务在其他实例上被修改后，保证 scheduler 与数据库一致
+ */
+export async function syncAllScheduledTasks() {
+  const tasks = await getPrisma().scheduledTask.findMany();
+
+  for (const task of tasks) {
+    try {
+      await syncScheduledTask(task);
+    } catch (error) {
+      console.error(`Failed to sync scheduled task ${task.id}:`, error);
+    }
+  }
+
+  // 清理数据库中已不存在的任务留下的 scheduler
+  const known = new Set(tasks.map(task => getSchedulerId(task.id)));
+  const schedulers = await agentQueue.getJobSchedulers();
+  for (const scheduler of schedulers) {
+    if (scheduler.key.startsWith('scheduled-') && !known.has(scheduler.key)) {
+      await agentQueue.removeJobScheduler(scheduler.key);
+    }
+  }
+
+  console.log(`⏰ Synced ${tasks.length} scheduled task(s)`);
+}
@@ -0,0 +1,179 @@
+/**
+ * 会话导出
+ * 将会话消息渲染为 Markdown、原始 JSON 或独立的 HTML 页面，供教师归档和批改
+ */
+
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { htmlFromMarkdown } from './markdown';
+import { formatCost, formatDuration } from './usage-utils';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type SessionExport,
+  type SessionTranscript,
+} from '~/types/session-export';
+
+// 代码块围栏比内容中最长的连续反引号多一个，避免内容提前结束代码块
+function fence(content: string, lang = '') {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${lang}\n${content}\n${marker}`;
+}
+
+// 工具结果的内容可能是字符串或内容块数组
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block: { type?: string; text?: string }) =>
+        block.type === 'text' ? block.text ?? '' : `[${block.type ?? 'unknown'}]`
+      )
+      .join('\n');
+  }
+  return JSON.stringify(content, null, 2);
+}
+
+// 单条消息渲染为 Markdown 片段
+function renderMessage(message: SDKMessage): string[] {
+  switch (message.type) {
+    case 'user': {
+      const { content } = message.message;
+      if (typeof content === 'string') {
+        return [`## 👤 用户\n\n${content}`];
+      }
+
+      return content.flatMap((block) => {
+        if (block.type === 'tool_result') {
+          const text = toolResultText(block.content);
+          const title = block.is_error ? '**工具结果（错误）**' : '**工具结果**';
+          return text.trim() ? [`${title}\n\n${fence(text)}`] : [];
+        }
+        if (block.type === 'text') return [block.text];
+        return [];
+      });
+    }
+
+    case 'assistant': {
+      const parts = message.message.content.flatMap((block) => {
+        if (block.type === 'text') return [block.text];
+        if (block.type === 'tool_use') {
+          return [`**🔧 工具调用：${block.name}**\n\n${fence(JSON.stringify(block.input, null, 2), 'json')}`];
+        }
+        return [];
+      });
+      return parts.length > 0 ? [`## 🤖 助手\n\n${parts.join('\n\n')}`] : [];
+    }
+
+    case 'result': {
+      const status = message.subtype === 'success' ? '成功' : `失败（${message.subtype}）`;
+      return [
+        [
+          '### 运行结果',
+          '',
+          `- 状态：${status}`,
+          `- 轮次：${message.num_turns}`,
+          `- 耗时：${formatDuration(message.duration_ms)}`,
+          `- 费用：${formatCost(message.total_cost_usd)}`,
+        ].join('\n'),
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * 渲染 Markdown 对话记录
+ */
+export function renderSessionMarkdown(transcript: SessionTranscript): string {
+  const init = transcript.messages.find(
+    message => message.type === 'system' && message.subtype === 'init'
+  );
+  const results = transcript.messages.filter(message => message.type === 'result');
+  const totalCost = results.reduce((sum, message) => sum + message.total_cost_usd, 0);
+
+  const header = [
+    `# ${transcript.title}`,
+    '',
+    `- 工作区：${transcript.workspaceName}`,
+    `- 用户：${transcript.userName}`,
+    `- 创建时间：${transcript.createdAt.toLocaleString('zh-CN')}`,
+    `- 导出时间：${new Date().toLocaleString('zh-CN')}`,
+    ...(init?.type === 'system' && init.subtype === 'init' ? [`- 模型：${init.model}`] : []),
+    `- 运行次数：${results.length}`,
+    `- 总费用：${formatCost(totalCost)}`,
+  ].join('\n');
+
+  return [header, ...transcript.messages.flatMap(renderMessage)].join('\n\n---\n\n') + '\n';
+}
+
+/**
+ * 渲染独立的 HTML 页面（内容经过 remark-html 清洗）
+ */
+export function renderSessionHtml(transcript: SessionTranscript): string {
+  const body = htmlFromMarkdown(renderSessionMarkdown(transcript));
+  const title = transcript.title
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { max-width: 860px; margin: 2rem auto; padding: 0 1rem; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.6; color: #1f2328; }
+  h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; }
+  h2 { font-size: 1.1rem; margin-top: 0; }
+  hr { border: 0; border-top: 1px solid #d0d7de; margin: 1.5rem 0; }
+  pre { background: #f6f8fa; padding: .75rem; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; font-size: .85rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: .25rem .5rem; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * 导出文件名：标题 + 会话 ID 后缀，去掉文件名中不允许的字符
+ */
+export function getExportFileName(transcript: Pick<SessionTranscript, 'id' | 'title'>, format: ExportFormat) {
+  const base = transcript.title.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'session';
+  return `${base}-${transcript.id.slice(-8)}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * 按格式导出会话
+ */
+export function exportSession(transcript: SessionTranscript, format: ExportFormat): SessionExport {
+  const content = format === 'json'
+    ? JSON.stringify(
+      {
+        id: transcript.id,
+        title: transcript.title,
+        workspace: transcript.workspaceName,
+        user: transcript.userName,
+        createdAt: transcript.createdAt.toISOString(),
+        messages: transcript.messages,
+      },
+      null,
+      2
+    )
+    : format === 'html'
+      ? renderSessionHtml(transcript)
+      : renderSessionMarkdown(transcript);
+
+  return {
+    fileName: getExportFileName(transcript, format),
+    mimeType: EXPORT_FORMATS[format].mimeType,
+    content,
+  };
+}
@@ -0,0 +1,98 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildResumableTranscript,
+  ensureResumableTranscript,
+  getClaudeProjectDir,
+  parseClaudeCodeTranscript,
+} from './session-import';
+
+const TRANSCRIPT = [
+  JSON.stringify({ type: 'summary', summary: '修复登录问题' }),
+  JSON.stringify({ type: 'user', uuid: 'u1', sessionId: 'old', cwd: '/home/me/app', message: { role: 'user', content: [{ type: 'text', text: '登录失败了' }] } }),
+  JSON.stringify({ type: 'user', uuid: 'u0', sessionId: 'old', isMeta: true, message: { role: 'user', content: 'meta' } }),
+  JSON.stringify({ type: 'assistant', uuid: 'a1', sessionId: 'old', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Read', input: {} }] } }),
+  JSON.stringify({ type: 'assistant', uuid: 'a2', sessionId: 'old', isSidechain: true, message: { role: 'assistant', content: [{ type: 'text', text: 'sub' }] } }),
+  JSON.stringify({ type: 'user', uuid: 'u2', sessionId: 'old', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] } }),
+  '',
+].join('\n');
+
+describe('parseClaudeCodeTranscript', () => {
+  it('maps user and assistant records, skipping meta and sidechain records', () => {
+    const { transcript, error } = parseClaudeCodeTranscript(TRANSCRIPT);
+    expect(error).toBeUndefined();
+    expect(transcript?.records).toHaveLength(6);
+    expect(transcript?.messages.map(message => message.type)).toEqual(['user', 'assistant', 'user']);
+    expect(transcript?.title).toBe('修复登录问题');
+  });
+
+  it('joins text-only user content into a prompt string', () => {
+    const { transcript } = parseClaudeCodeTranscript(TRANSCRIPT);
+    const [first, , last] = transcript!.messages;
+    expect(first?.type === 'user' && first.message.content).toBe('登录失败了');
+    expect(last?.type === 'user' && Array.isArray(last.message.content)).toBe(true);
+  });
+
+  it('falls back to the first prompt line as title', () => {
+    const text = JSON.stringify({ type: 'user', message: { role: 'user', content: '第一行\n第二行' } });
+    expect(parseClaudeCodeTranscript(text).transcript?.title).toBe('第一行');
+  });
+
+  it('reports the line of invalid records', () => {
+    expect(parseClaudeCodeTranscript('{}\nnot json').error).toBe('第 1 行格式不正确：type Required');
+    expect(parseClaudeCodeTranscript(`${JSON.stringify({ type: 'summary' })}\nnot json`).error).toBe('第 2 行不是有效的 JSON');
+    expect(parseClaudeCodeTranscript(JSON.stringify({ type: 'user' })).error).toBe('第 1 行缺少 message 字段');
+    expect(parseClaudeCodeTranscript(JSON.stringify({ type: 'summary', summary: 'x' })).error).toBe('没有找到可导入的对话消息');
+  });
+});
+
+describe('resumable transcripts', () => {
+  const originalConfigDir = process.env.CLAUDE_CONFIG_DIR;
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'claude-config-'));
+    process.env.CLAUDE_CONFIG_DIR = configDir;
+  });
+
+  afterEach(async () => {
+    if (originalConfigDir === undefined) delete process.env.CLAUDE_CONFIG_DIR;
+    else process.env.CLAUDE_CONFIG_DIR = originalConfigDir;
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('rewrites session ids and writes records with the worker cwd', async () => {
+    const { transcript } = parseClaudeCodeTranscript(TRANSCRIPT);
+    const { sessionId, content } = buildResumableTranscript(transcript!.records);
+
+    await ensureResumableTranscript(sessionId, content, '/srv/workspaces/demo');
+
+    const filePath = join(getClaudeProjectDir('/srv/workspaces/demo'), `${sessionId}.jsonl`);
+    expect(filePath.startsWith(join(configDir, 'projects', '-srv-workspaces-demo'))).toBe(true);
+
+    const records = (await readFile(filePath, 'utf-8'))
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as { type: string; sessionId?: string; cwd?: string });
+    expect(records).toHaveLength(6);
+    expect(records[0]).toEqual({ type: 'summary', summary: '修复登录问题' });
+    for (const record of records.slice(1)) {
+      expect(record.sessionId).toBe(sessionId);
+      expect(record.cwd).toBe('/srv/workspaces/demo');
+    }
+  });
+
+  it('keeps an existing transcript file', async () => {
+    const { transcript } = parseClaudeCodeTranscript(TRANSCRIPT);
+    const { sessionId, content } = buildResumableTranscript(transcript!.records);
+    await ensureResumableTranscript(sessionId, content, '/srv/demo');
+
+    const filePath = join(getClaudeProjectDir('/srv/demo'), `${sessionId}.jsonl`);
+    await writeFile(filePath, 'continued\n', 'utf-8');
+    await ensureResumableTranscript(sessionId, content, '/srv/demo');
+
+    expect(await readFile(filePath, 'utf-8')).toBe('continued\n');
+  });
+});
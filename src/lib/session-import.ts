@@ -0,0 +1,165 @@
+/**
+ * 导入 Claude Code CLI 的 JSONL 会话记录
+ * 每行一条记录，user / assistant 记录映射为 SDKMessage 供网页查看；
+ * 原始记录改写 sessionId 后保存在数据库中，运行前由 worker 写入 Claude 项目目录，之后可以在网页中继续对话
+ */
+
+import { randomUUID } from 'crypto';
+import { access, mkdir, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+
+// 只校验会用到的字段，其余字段原样保留
+const recordSchema = z
+  .object({
+    type: z.string(),
+    uuid: z.string().optional(),
+    sessionId: z.string().optional(),
+    isMeta: z.boolean().optional(),
+    isSidechain: z.boolean().optional(),
+    summary: z.string().optional(),
+    message: z
+      .object({
+        role: z.enum(['user', 'assistant']),
+        content: z.union([z.string(), z.array(z.object({ type: z.string() }).passthrough())]),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+type TranscriptRecord = z.infer<typeof recordSchema>;
+
+export interface ParsedTranscript {
+  records: TranscriptRecord[];  // 全部原始记录
+  messages: SDKMessage[];  // 可在网页中展示的消息
+  title: string;
+}
+
+// 只包含文本块的用户消息视为用户输入的提示，合并为字符串以便按提示展示
+function normalizeUserContent(content: string | Array<{ type: string }>) {
+  if (typeof content === 'string') return content;
+  const isText = content.length > 0 && content.every(block => block.type === 'text');
+  return isText
+    ? content.map(block => (block as { text?: string }).text ?? '').join('\n')
+    : content;
+}
+
+/**
+ * 解析并校验 JSONL 会话记录
+ * 校验失败时返回带行号的错误信息
+ */
+export function parseClaudeCodeTranscript(text: string): { transcript?: ParsedTranscript; error?: string } {
+  const records: TranscriptRecord[] = [];
+  const lines = text.split('\n');
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      return { error: `第 ${index + 1} 行不是有效的 JSON` };
+    }
+
+    const parsed = recordSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return { error: `第 ${index + 1} 行格式不正确：${issue ? `${issue.path.join('.')} ${issue.message}` : '未知错误'}` };
+    }
+    if ((parsed.data.type === 'user' || parsed.data.type === 'assistant') && !parsed.data.message) {
+      return { error: `第 ${index + 1} 行缺少 message 字段` };
+    }
+    records.push(parsed.data);
+  }
+
+  // 跳过元信息和子 agent（sidechain）的记录
+  const messages = records.flatMap((record): SDKMessage[] => {
+    if (!record.message || record.isMeta || record.isSidechain) return [];
+
+    const base = {
+      session_id: record.sessionId ?? '',
+      parent_tool_use_id: null,
+      ...(record.uuid ? { uuid: record.uuid } : {}),
+    };
+
+    if (record.type === 'user' && record.message.role === 'user') {
+      return [{
+        ...base,
+        type: 'user',
+        message: { ...record.message, content: normalizeUserContent(record.message.content) },
+      } as unknown as SDKMessage];
+    }
+    if (record.type === 'assistant' && record.message.role === 'assistant') {
+      return [{ ...base, type: 'assistant', message: record.message } as unknown as SDKMessage];
+    }
+    return [];
+  });
+
+  if (messages.length === 0) {
+    return { error: '没有找到可导入的对话消息' };
+  }
+
+  // 标题优先使用 CLI 生成的摘要，其次是第一条提示的首行
+  const firstPrompt = messages.find(
+    message => message.type === 'user' && typeof message.message.content === 'string'
+  );
+  const promptText = firstPrompt?.type === 'user' && typeof firstPrompt.message.content === 'string'
+    ? firstPrompt.message.content
+    : '';
+  const summary = records.find(record => record.type === 'summary' && record.summary)?.summary;
+  const title = (summary ?? promptText).trim().split('\n')[0]?.slice(0, 50) ?? '';
+
+  return { transcript: { records, messages, title: title ? title : '导入的会话' } };
+}
+
+/**
+ * Claude Code 保存会话记录的项目目录：将工作目录中的非字母数字字符替换为 -
+ */
+export function getClaudeProjectDir(cwd: string) {
+  const configDir = process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), '.claude');
+  return join(configDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+/**
+ * 以新的 sessionId 改写会话记录，生成可以被 resume 的 JSONL 内容
+ * 使用新的 sessionId 可以避免同一份记录重复导入时冲突；内容保存在数据库中，由执行任务的 worker 写入本机
+ */
+export function buildResumableTranscript(records: TranscriptRecord[]) {
+  const sessionId = randomUUID();
+  const content = records
+    .map(record => JSON.stringify(record.sessionId !== undefined ? { ...record, sessionId } : record))
+    .join('\n') + '\n';
+
+  return { sessionId, content };
+}
+
+/**
+ * 将导入的会话记录写入工作区对应的 Claude 项目目录，已存在时跳过
+ * 写入时把记录中的 cwd 改为当前 worker 上的工作目录
+ */
+export async function ensureResumableTranscript(sessionId: string, content: string, cwd: string) {
+  const projectDir = getClaudeProjectDir(cwd);
+  const filePath = join(projectDir, `${sessionId}.jsonl`);
+
+  try {
+    await access(filePath);
+    return;
+  } catch {
+    // 文件不存在，继续写入
+  }
+
+  const lines = content
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const record = JSON.parse(line) as TranscriptRecord;
+      return JSON.stringify(record.sessionId !== undefined ? { ...record, cwd } : record);
+    });
+
+  await mkdir(projectDir, { recursive: true });
+  await writeFile(filePath, lines.join('\n') + '\n', 'utf-8');
+}
@@ -0,0 +1,119 @@
+/**
+ * 会话标题与摘要
+ * 创建会话时先用提示生成临时标题，首次运行成功后调用小模型生成简洁的标题和摘要
+ */
+
+import { tmpdir } from 'os';
+import { query, type SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { PrismaClient } from '@prisma/client';
+import { recordUsage } from './usage';
+
+const TITLE_MAX_LENGTH = 50;
+const SUMMARY_MAX_LENGTH = 200;
+
+// 生成标题使用的模型，可通过环境变量覆盖
+const TITLE_MODEL = process.env.SESSION_TITLE_MODEL ?? 'haiku';
+
+/**
+ * 从提示生成临时标题：去掉开头的斜杠命令和 @文件引用，合并空白
+ */
+export function deriveSessionTitle(prompt: string): string {
+  const text = prompt
+    .trim()
+    .replace(/^\/\S+\s*/, '')
+    .replace(/(^|\s)@\S+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.slice(0, TITLE_MAX_LENGTH) || prompt.trim().slice(0, TITLE_MAX_LENGTH) || '新对话';
+}
+
+// 从模型回复中取出 JSON 对象
+function parseSummaryJson(text: string): { title: string; summary: string } | null {
+  const match = /\{[\s\S]*\}/.exec(text);
+  if (!match) return null;
+
+  try {
+    const data = JSON.parse(match[0]) as { title?: unknown; summary?: unknown };
+    if (typeof data.title !== 'string' || !data.title.trim()) return null;
+    return {
+      title: data.title.trim().slice(0, TITLE_MAX_LENGTH),
+      summary: typeof data.summary === 'string' ? data.summary.trim().slice(0, SUMMARY_MAX_LENGTH) : '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 根据第一轮对话生成标题和摘要
+ * 不加载工作区设置、不允许使用工具，返回 result 消息以便记录用量
+ */
+export async function generateSessionSummary(prompt: string, response: string) {
+  const instance = query({
+    prompt: [
+      '请为下面这段对话生成一个简洁的标题（不超过 20 个字）和一句话摘要（不超过 80 个字），使用对话所用的语言。',
+      '只输出 JSON：{"title": "...", "summary": "..."}',
+      '',
+      '<user>',
+      prompt.slice(0, 4000),
+      '</user>',
+      '<assistant>',
+      response.slice(0, 4000),
+      '</assistant>',
+    ].join('\n'),
+    options: {
+      model: TITLE_MODEL,
+      maxTurns: 1,
+      allowedTools: [],
+      settingSources: [],
+      cwd: tmpdir(),
+    },
+  });
+
+  let result: SDKResultMessage | null = null;
+  for await (const message of instance) {
+    if (message.type === 'result') result = message;
+  }
+
+  if (result?.subtype !== 'success') return { generated: null, result };
+  return { generated: parseSummaryJson(result.result), result };
+}
+
+/**
+ * 首次运行成功后更新会话标题和摘要
+ * 用户手动改过标题时只更新摘要；已有摘要时不再生成。返回更新后的标题，未更新时返回 null
+ */
+export async function summarizeSession(
+  db: PrismaClient,
+  run: { agentSessionId: string; workspaceId: string; userId: string },
+  prompt: string,
+  response: string
+) {
+  const session = await db.agentSession.findUnique({
+    where: { id: run.agentSessionId },
+    select: { summary: true, titleEdited: true },
+  });
+  if (session?.summary !== null) return null;
+
+  const { generated, result } = await generateSessionSummary(prompt, response);
+  if (result) {
+    await recordUsage(db, run, result);
+  }
+  // 生成失败时记为空摘要，避免每次运行都重试
+  if (!generated) {
+    await db.agentSession.update({ where: { id: run.agentSessionId }, data: { summary: '' } });
+    return null;
+  }
+
+  const updated = await db.agentSession.update({
+    where: { id: run.agentSessionId },
+    data: {
+      summary: generated.summary,
+      ...(session.titleEdited ? {} : { title: generated.title }),
+    },
+    select: { title: true, summary: true },
+  });
+
+  return updated;
+}
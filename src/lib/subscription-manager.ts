@@ -0,0 +1,264 @@
+/**
+ * 跨进程事件总线
+ * - Message 事件通过 Redis pub/sub 发布，任意 Web 实例都能把事件转发给本进程内的订阅者
+ * - Query 实例只存在于运行它的 worker 进程，中断和其他控制请求通过控制频道路由到持有该 Query 的进程
+ */
+
+import { randomUUID } from 'crypto';
+import type { Redis } from 'ioredis';
+import type { Query } from '@anthropic-ai/claude-agent-sdk';
+import { instanceId, redisConnection } from './redis';
+import { resolvePendingPermission } from './tool-permissions';
+import type { Message, QueryControl, SubscriptionManager } from '~/types/subscription';
+import type { PermissionDecision } from '~/types/permission';
+
+const EVENT_CHANNEL_PREFIX = 'agent:events:';
+const CONTROL_CHANNEL = 'agent:control';
+const QUERY_OWNER_PREFIX = 'agent:query-owner:';
+// Query 归属记录的过期时间（秒），防止 worker 异常退出后残留
+const QUERY_OWNER_TTL = 6 * 60 * 60;
+// 转发给其他 worker 的控制请求，由持有 Query 的 worker 处理成功后写入确认
+const CONTROL_ACK_PREFIX = 'agent:control-ack:';
+const CONTROL_ACK_TTL = 60;
+const CONTROL_ACK_TIMEOUT_MS = 5000;
+const CONTROL_ACK_POLL_MS = 100;
+
+type ControlMessage =
+  | { action: 'interrupt'; id: string }
+  | { action: 'control'; id: string; control: QueryControl; requestId: string }
+  | { action: 'permission'; id: string; requestId: string; decision: PermissionDecision };
+
+type Listener = (data: Message) => void;
+
+// 本进程内的订阅者，同一会话可能同时存在多个订阅（多标签页、断线重连时新旧连接交替）
+const subscriptions = new Map<string, Set<Listener>>();
+// 本进程内运行中的 Query
+const queries = new Map<string, Query>();
+// 本进程内运行中的 Query 的控制处理函数
+const controllers = new Map<string, (control: QueryControl) => Promise<void>>();
+
+// pub/sub 需要独立连接，延迟创建
+let subscriber: Redis | null = null;
+let controlSubscribed = false;
+
+function getSubscriber() {
+  if (subscriber) return subscriber;
+
+  subscriber = redisConnection.duplicate();
+  subscriber.on('message', (channel: string, payload: string) => {
+    if (channel === CONTROL_CHANNEL) {
+      handleControlMessage(payload);
+      return;
+    }
+
+    if (channel.startsWith(EVENT_CHANNEL_PREFIX)) {
+      const id = channel.slice(EVENT_CHANNEL_PREFIX.length);
+      const listeners = subscriptions.get(id);
+      if (!listeners?.size) return;
+
+      const message = reviveMessage(payload);
+      if (message) listeners.forEach(fn => fn(message));
+    }
+  });
+  subscriber.on('error', (err) => console.error('Event bus subscriber error:', err));
+
+  return subscriber;
+}
+
+// JSON 传输后恢复 Date 字段
+function reviveMessage(payload: string): Message | null {
+  try {
+    const message = JSON.parse(payload) as Message;
+    if (message.timestamp) message.timestamp = new Date(message.timestamp);
+    if (message.createdAt) message.createdAt = new Date(message.createdAt);
+    const revivePermission = (request: NonNullable<Message['permissionRequest']>) => ({
+      ...request,
+      createdAt: new Date(request.createdAt),
+      expiresAt: new Date(request.expiresAt),
+    });
+    if (message.permissionRequest) message.permissionRequest = revivePermission(message.permissionRequest);
+    if (message.pendingPermissions) message.pendingPermissions = message.pendingPermissions.map(revivePermission);
+    return message;
+  } catch {
+    return null;
+  }
+}
+
+function handleControlMessage(payload: string) {
+  let control: ControlMessage;
+  try {
+    control = JSON.parse(payload) as ControlMessage;
+  } catch {
+    return;
+  }
+
+  if (control.action === 'interrupt' && queries.has(control.id)) {
+    console.log(`🛑 Received interrupt for session ${control.id}`);
+    void interruptLocalQuery(control.id);
+  }
+
+  if (control.action === 'control' && controllers.has(control.id)) {
+    const { requestId } = control;
+    void runLocalControl(control.id, control.control).then(async (applied) => {
+      if (!applied) return;
+      await redisConnection
+        .set(`${CONTROL_ACK_PREFIX}${requestId}`, instanceId, 'EX', CONTROL_ACK_TTL)
+        .catch(err => console.error(`Failed to acknowledge control ${requestId}:`, err));
+    });
+  }
+
+  if (control.action === 'permission') {
+    resolvePendingPermission(control.requestId, control.decision);
+  }
+}
+
+async function runLocalControl(id: string, control: QueryControl): Promise<boolean> {
+  const handler = controllers.get(id);
+  if (!handler) return false;
+
+  try {
+    await handler(control);
+    return true;
+  } catch (err) {
+    console.error(`Failed to apply ${control.action} for session ${id}:`, err);
+    return false;
+  }
+}
+
+// 等待持有 Query 的 worker 确认已处理控制请求，超时视为未送达
+async function waitForControlAck(requestId: string): Promise<boolean> {
+  const key = `${CONTROL_ACK_PREFIX}${requestId}`;
+  const deadline = Date.now() + CONTROL_ACK_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (await redisConnection.del(key) > 0) return true;
+    await new Promise(resolve => setTimeout(resolve, CONTROL_ACK_POLL_MS));
+  }
+  return false;
+}
+
+async function interruptLocalQuery(id: string): Promise<boolean> {
+  const query = queries.get(id);
+  if (!query) return false;
+
+  queries.delete(id);
+  controllers.delete(id);
+  await redisConnection.del(`${QUERY_OWNER_PREFIX}${id}`).catch(() => undefined);
+  try {
+    await query.interrupt();
+  } catch {
+    // 已从 Map 中移除，worker 循环会自行退出
+  }
+  return true;
+}
+
+export const subscriptionManager: SubscriptionManager = {
+  // 订阅某个会话的事件
+  register: (id, fn) => {
+    const listeners = subscriptions.get(id) ?? new Set();
+    const isFirst = listeners.size === 0;
+    listeners.add(fn);
+    subscriptions.set(id, listeners);
+
+    if (isFirst) {
+      getSubscriber()
+        .subscribe(`${EVENT_CHANNEL_PREFIX}${id}`)
+        .catch(err => console.error(`Failed to subscribe events for ${id}:`, err));
+    }
+  },
+
+  unregister: (id, fn) => {
+    const listeners = subscriptions.get(id);
+    if (!listeners) return;
+
+    listeners.delete(fn);
+    if (listeners.size === 0) {
+      subscriptions.delete(id);
+      getSubscriber()
+        .unsubscribe(`${EVENT_CHANNEL_PREFIX}${id}`)
+        .catch(err => console.error(`Failed to unsubscribe events for ${id}:`, err));
+    }
+  },
+
+  // 发布事件，所有 Web 实例上的订阅者都会收到
+  emit: (id, data) => {
+    redisConnection
+      .publish(`${EVENT_CHANNEL_PREFIX}${id}`, JSON.stringify(data))
+      .catch(err => console.error(`Failed to publish event for ${id}:`, err));
+  },
+
+  // 注册 Query，并记录由当前进程持有
+  registerQuery: (id, query, onControl) => {
+    queries.set(id, query);
+    if (onControl) controllers.set(id, onControl);
+
+    if (!controlSubscribed) {
+      controlSubscribed = true;
+      getSubscriber()
+        .subscribe(CONTROL_CHANNEL)
+        .catch(err => {
+          controlSubscribed = false;
+          console.error('Failed to subscribe control channel:', err);
+        });
+    }
+
+    redisConnection
+      .set(`${QUERY_OWNER_PREFIX}${id}`, instanceId, 'EX', QUERY_OWNER_TTL)
+      .catch(err => console.error(`Failed to record query owner for ${id}:`, err));
+  },
+
+  unregisterQuery: (id) => {
+    controllers.delete(id);
+    if (!queries.delete(id)) return;
+    redisConnection.del(`${QUERY_OWNER_PREFIX}${id}`).catch(() => undefined);
+  },
+
+  // 中断 Query：本进程持有则直接中断，否则转发给持有它的 worker
+  interruptQuery: async (id) => {
+    if (queries.has(id)) {
+      return await interruptLocalQuery(id);
+    }
+
+    const owner = await redisConnection.get(`${QUERY_OWNER_PREFIX}${id}`);
+    if (!owner) return false;
+
+    const control: ControlMessage = { action: 'interrupt', id };
+    await redisConnection.publish(CONTROL_CHANNEL, JSON.stringify(control));
+    return true;
+  },
+
+  // 控制运行中的 Query：本进程持有则直接处理，否则转发给持有它的 worker 并等待其确认
+  controlQuery: async (id, control) => {
+    if (controllers.has(id)) {
+      return await runLocalControl(id, control);
+    }
+
+    const owner = await redisConnection.get(`${QUERY_OWNER_PREFIX}${id}`);
+    if (!owner) return false;
+
+    const message: ControlMessage = { action: 'control', id, control, requestId: randomUUID() };
+    await redisConnection.publish(CONTROL_CHANNEL, JSON.stringify(message));
+    return await waitForControlAck(message.requestId);
+  },
+
+  // 转发审批决定：等待中的 canUseTool 在本进程则直接唤醒，否则转发给其他 worker
+  respondPermission: async (id, requestId, decision) => {
+    if (resolvePendingPermission(requestId, decision)) return;
+
+    const control: ControlMessage = { action: 'permission', id, requestId, decision };
+    await redisConnection.publish(CONTROL_CHANNEL, JSON.stringify(control));
+  },
+
+  // 仅检查本进程，用于 worker 消息循环中判断是否已被中断
+  hasActiveQuery: (id) => queries.has(id),
+};
+
+/**
+ * 关闭事件总线的订阅连接（进程退出时调用）
+ */
+export async function closeSubscriptionManager() {
+  if (!subscriber) return;
+  await subscriber.quit();
+  subscriber = null;
+  controlSubscribed = false;
+}
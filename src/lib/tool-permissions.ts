@@ -0,0 +1,195 @@
+/**
+ * 工具调用审批
+ * worker 通过 canUseTool 在执行工具前创建审批请求并等待用户决定，
+ * 用户的决定由 Web 端写入数据库，再经事件总线通知持有该 Query 的 worker
+ */
+
+import type { PrismaClient, ToolPermissionRequest } from '@prisma/client';
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import type { Message } from '~/types/subscription';
+import type {
+  PermissionDecision,
+  PermissionRequestStatus,
+  ToolPermissionRequestInfo,
+} from '~/types/permission';
+
+// 等待审批的超时时间，默认 5 分钟
+export function getPermissionTimeout() {
+  return parseInt(process.env.TOOL_PERMISSION_TIMEOUT_MS ?? String(5 * 60 * 1000));
+}
+
+// 本进程内等待中的审批：requestId → resolve
+const pendingResolvers = new Map<string, (decision: PermissionDecision | null) => void>();
+
+/**
+ * 通知等待中的审批（由事件总线在收到用户决定时调用）
+ * 请求不在本进程时返回 false
+ */
+export function resolvePendingPermission(requestId: string, decision: PermissionDecision): boolean {
+  const resolve = pendingResolvers.get(requestId);
+  if (!resolve) return false;
+  resolve(decision);
+  return true;
+}
+
+/**
+ * 数据库记录 → 前端使用的审批信息
+ */
+export function toPermissionRequestInfo(row: ToolPermissionRequest): ToolPermissionRequestInfo {
+  return {
+    id: row.id,
+    agentSessionId: row.agentSessionId,
+    toolName: row.toolName,
+    toolUseId: row.toolUseId,
+    input: (row.input ?? {}) as Record<string, unknown>,
+    status: row.status as PermissionRequestStatus,
+    alwaysAllow: row.alwaysAllow,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt,
+  };
+}
+
+/**
+ * 获取会话中仍在等待的审批请求
+ */
+export async function getPendingPermissionRequests(db: PrismaClient, agentSessionId: string) {
+  const rows = await db.toolPermissionRequest.findMany({
+    where: { agentSessionId, status: 'pending', expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toPermissionRequestInfo);
+}
+
+/**
+ * 记录用户的审批决定，只有仍在等待且未过期的请求可以被决定
+ * 返回更新后的记录，已处理或已过期时返回 null
+ */
+export async function decidePermissionRequest(
+  db: PrismaClient,
+  requestId: string,
+  decision: PermissionDecision,
+  userId: string
+) {
+  const { count } = await db.toolPermissionRequest.updateMany({
+    where: { id: requestId, status: 'pending', expiresAt: { gt: new Date() } },
+    data: {
+      status: decision.behavior === 'allow' ? 'approved' : 'denied',
+      alwaysAllow: decision.behavior === 'allow' && !!decision.alwaysAllow,
+      decidedBy: userId,
+      decidedAt: new Date(),
+    },
+  });
+
+  if (count === 0) return null;
+  return await db.toolPermissionRequest.findUnique({ where: { id: requestId } });
+}
+
+// Bash 调用的命令，其他工具返回 null
+function getBashCommand(toolName: string, input: unknown) {
+  if (toolName !== 'Bash') return null;
+  const command = (input as { command?: unknown } | null)?.command;
+  return typeof command === 'string' ? command : '';
+}
+
+/**
+ * 创建 canUseTool 回调
+ * 每次工具调用前创建审批请求，推送给前端并等待用户决定，超时自动拒绝
+ */
+export function createCanUseTool(options: {
+  db: PrismaClient;
+  agentSessionId: string;
+  emit: (data: Message) => void;
+  getSessionId: () => string | null;
+}): CanUseTool {
+  const { db, agentSessionId, emit, getSessionId } = options;
+
+  return async (toolName, input, { signal, toolUseID }): Promise<PermissionResult> => {
+    // 本会话内已选择"始终允许"的工具直接放行；Bash 只放行完全相同的命令
+    const alwaysAllowed = await db.toolPermissionRequest.findMany({
+      where: { agentSessionId, toolName, status: 'approved', alwaysAllow: true },
+      select: { input: true },
+    });
+    const command = getBashCommand(toolName, input);
+    const remembered = command === null
+      ? alwaysAllowed.length > 0
+      : alwaysAllowed.some(row => getBashCommand(toolName, row.input) === command);
+    if (remembered) {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    const request = await db.toolPermissionRequest.create({
+      data: {
+        agentSessionId,
+        toolName,
+        toolUseId: toolUseID,
+        input: input as object,
+        expiresAt: new Date(Date.now() + getPermissionTimeout()),
+      },
+    });
+
+    emit({
+      type: 'permission_request',
+      id: agentSessionId,
+      sessionId: getSessionId(),
+      status: 'running',
+      permissionRequest: toPermissionRequestInfo(request),
+      timestamp: new Date(),
+    });
+
+    // 等待用户决定、超时或查询被中断
+    const decision = await new Promise<PermissionDecision | null>((resolve) => {
+      const finish = (value: PermissionDecision | null) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        pendingResolvers.delete(request.id);
+        resolve(value);
+      };
+      const onAbort = () => finish(null);
+      const timer = setTimeout(() => finish(null), request.expiresAt.getTime() - Date.now());
+
+      pendingResolvers.set(request.id, finish);
+      signal.addEventListener('abort', onAbort);
+    });
+
+    // 超时或中断：标记为过期；若用户恰好在此刻做出了决定，以数据库记录为准
+    let final = await db.toolPermissionRequest.findUnique({ where: { id: request.id } });
+    if (!decision) {
+      const { count } = await db.toolPermissionRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: { status: 'expired', decidedAt: new Date() },
+      });
+      if (count > 0) {
+        final = await db.toolPermissionRequest.findUnique({ where: { id: request.id } });
+      }
+    }
+
+    if (final) {
+      emit({
+        type: 'permission_resolved',
+        id: agentSessionId,
+        sessionId: getSessionId(),
+        status: 'running',
+        permissionRequest: toPermissionRequestInfo(final),
+        timestamp: new Date(),
+      });
+    }
+
+    switch (final?.status) {
+      case 'approved':
+        // "始终允许"只记录在审批表中，由上面的检查放行；不采用 SDK 建议的权限更新，
+        // 其中可能包含切换到 acceptEdits 模式或放行整个目录的规则
+        return { behavior: 'allow', updatedInput: input };
+      case 'denied':
+        return {
+          behavior: 'deny',
+          message: decision?.message ?? '用户拒绝了该工具调用，请调整方案或询问用户',
+        };
+      default:
+        return {
+          behavior: 'deny',
+          message: '工具调用审批超时，已自动拒绝',
+          interrupt: signal.aborted,
+        };
+    }
+  };
+}
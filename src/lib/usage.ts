@@ -0,0 +1,141 @@
+/**
+ * 用量记录与汇总
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { UsageTotals } from '~/types/usage';
+
+/**
+ * 同一 Claude Code 进程之前的 result 中的累计值
+ * result 的 total_cost_usd、duration_api_ms 和 modelUsage 是整个进程的累计值，
+ * 进程处理多次运行时（流式输入模式）需要减去之前的部分
+ */
+export interface UsageBaseline {
+  costUsd: number;
+  durationApiMs: number;
+  modelCostUsd: Record<string, number>;
+}
+
+/**
+ * 记录 result 之后的累计值，作为同一进程下一次运行的基准
+ */
+export function toUsageBaseline(result: SDKResultMessage): UsageBaseline {
+  return {
+    costUsd: result.total_cost_usd,
+    durationApiMs: result.duration_api_ms,
+    modelCostUsd: Object.fromEntries(
+      Object.entries(result.modelUsage).map(([model, usage]) => [model, usage.costUSD])
+    ),
+  };
+}
+
+/**
+ * 根据 result 消息记录一次运行的用量
+ * baseline 为同一进程上一次 result 的累计值，只记录两者的差
+ */
+export async function recordUsage(
+  db: PrismaClient,
+  run: { agentSessionId: string; workspaceId: string; userId: string },
+  result: SDKResultMessage,
+  baseline?: UsageBaseline | null
+) {
+  // 多模型时记录本次运行用量最多的模型
+  const model = Object.entries(result.modelUsage)
+    .map(([name, usage]) => [name, usage.costUSD - (baseline?.modelCostUsd[name] ?? 0)] as const)
+    .sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+
+  return await db.usageRecord.create({
+    data: {
+      ...run,
+      model,
+      inputTokens: result.usage.input_tokens,
+      outputTokens: result.usage.output_tokens,
+      cacheReadTokens: result.usage.cache_read_input_tokens,
+      cacheCreationTokens: result.usage.cache_creation_input_tokens,
+      costUsd: Math.max(0, result.total_cost_usd - (baseline?.costUsd ?? 0)),
+      durationMs: result.duration_ms,
+      durationApiMs: Math.max(0, result.duration_api_ms - (baseline?.durationApiMs ?? 0)),
+      numTurns: result.num_turns,
+      resultSubtype: result.subtype,
+    },
+  });
+}
+
+const SUM_FIELDS = {
+  inputTokens: true,
+  outputTokens: true,
+  cacheReadTokens: true,
+  cacheCreationTokens: true,
+  costUsd: true,
+  durationMs: true,
+  numTurns: true,
+} as const;
+
+type UsageSum = Partial<Record<keyof typeof SUM_FIELDS, number | null>>;
+
+function toUsageTotals(sum: UsageSum | null | undefined, runs: number): UsageTotals {
+  return {
+    runs,
+    inputTokens: sum?.inputTokens ?? 0,
+    outputTokens: sum?.outputTokens ?? 0,
+    cacheReadTokens: sum?.cacheReadTokens ?? 0,
+    cacheCreationTokens: sum?.cacheCreationTokens ?? 0,
+    costUsd: sum?.costUsd ?? 0,
+    durationMs: sum?.durationMs ?? 0,
+    numTurns: sum?.numTurns ?? 0,
+  };
+}
+
+/**
+ * 汇总满足条件的用量
+ */
+export async function sumUsage(db: PrismaClient, where: Prisma.UsageRecordWhereInput): Promise<UsageTotals> {
+  const result = await db.usageRecord.aggregate({
+    where,
+    _sum: SUM_FIELDS,
+    _count: { _all: true },
+  });
+  return toUsageTotals(result._sum, result._count._all);
+}
+
+// 累加两份汇总
+function addUsageTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    runs: a.runs + b.runs,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    costUsd: a.costUsd + b.costUsd,
+    durationMs: a.durationMs + b.durationMs,
+    numTurns: a.numTurns + b.numTurns,
+  };
+}
+
+/**
+ * 按会话、工作区或用户分组汇总用量
+ * 每个会话只属于一个工作区和用户，按三个字段分组后再合并，分组数不超过会话数
+ */
+export async function sumUsageBy(
+  db: PrismaClient,
+  by: 'agentSessionId' | 'workspaceId' | 'userId',
+  where: Prisma.UsageRecordWhereInput
+): Promise<Map<string, UsageTotals>> {
+  const groups = await db.usageRecord.groupBy({
+    by: ['agentSessionId', 'workspaceId', 'userId'],
+    where,
+    _sum: SUM_FIELDS,
+    _count: { _all: true },
+  });
+
+  const totals = new Map<string, UsageTotals>();
+  for (const group of groups) {
+    const key = group[by];
+    if (!key) continue;
+    const current = toUsageTotals(group._sum, group._count._all);
+    const previous = totals.get(key);
+    totals.set(key, previous ? addUsageTotals(previous, current) : current);
+  }
+  return totals;
+}
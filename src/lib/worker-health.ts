@@ -0,0 +1,155 @@
+/**
+ * Worker 心跳与健康状态
+ * worker 定期把自身状态写入 Redis（带过期时间），进程退出或卡死后记录自动消失
+ */
+
+import { hostname } from 'os';
+import type { Worker } from 'bullmq';
+import { instanceId, redisConnection } from './redis';
+import type { AgentTaskData, WorkerHeartbeat } from '~/types/queue';
+
+const HEARTBEAT_PREFIX = 'agent:worker:';
+const HEARTBEAT_INTERVAL = 10_000;
+// 超过 3 个心跳周期未更新视为失联
+const HEARTBEAT_TTL = Math.ceil((HEARTBEAT_INTERVAL * 3) / 1000);
+
+/**
+ * 启动心跳上报
+ * 返回控制器：标记排空状态、查询健康状态、停止上报
+ */
+export function startWorkerHeartbeat(
+  worker: Worker<AgentTaskData>,
+  options: { concurrency: number; embedded: boolean }
+) {
+  const activeJobs = new Set<string>();
+  const startedAt = Date.now();
+  let status: WorkerHeartbeat['status'] = 'running';
+  let lastSuccessAt = 0;
+
+  worker.on('active', (job) => {
+    if (job.id) activeJobs.add(job.id);
+  });
+  worker.on('completed', (job) => {
+    if (job.id) activeJobs.delete(job.id);
+  });
+  worker.on('failed', (job) => {
+    if (job?.id) activeJobs.delete(job.id);
+  });
+
+  const beat = async () => {
+    const heartbeat: WorkerHeartbeat = {
+      instanceId,
+      hostname: hostname(),
+      pid: process.pid,
+      embedded: options.embedded,
+      concurrency: options.concurrency,
+      activeJobs: [...activeJobs],
+      status,
+      startedAt,
+      lastHeartbeat: Date.now(),
+    };
+
+    try {
+      await redisConnection.set(
+        `${HEARTBEAT_PREFIX}${instanceId}`,
+        JSON.stringify(heartbeat),
+        'EX',
+        HEARTBEAT_TTL
+      );
+      lastSuccessAt = heartbeat.lastHeartbeat;
+    } catch (err) {
+      console.error('Failed to report worker heartbeat:', err);
+    }
+  };
+
+  void beat();
+  const timer = setInterval(() => void beat(), HEARTBEAT_INTERVAL);
+
+  return {
+    get activeJobCount() {
+      return activeJobs.size;
+    },
+
+    // 进入排空状态：不再接新任务，等待进行中的任务完成
+    setDraining: async () => {
+      status = 'draining';
+      await beat();
+    },
+
+    // 健康：worker 在运行、未排空，且最近一次心跳写入成功
+    isHealthy: () =>
+      status === 'running'
+      && worker.isRunning()
+      && Date.now() - lastSuccessAt < HEARTBEAT_INTERVAL * 3,
+
+    snapshot: () => ({
+      instanceId,
+      status,
+      activeJobs: [...activeJobs],
+      lastHeartbeat: lastSuccessAt,
+    }),
+
+    stop: async () => {
+      clearInterval(timer);
+      await redisConnection.del(`${HEARTBEAT_PREFIX}${instanceId}`).catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * 获取所有存活 worker 的心跳信息
+ */
+export async function getWorkerHeartbeats(): Promise<WorkerHeartbeat[]> {
+  const keys: string[] = [];
+  let cursor = '0';
+  do {
+    const [next, batch] = await redisConnection.scan(cursor, 'MATCH', `${HEARTBEAT_PREFIX}*`, 'COUNT', 100);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== '0');
+
+  if (keys.length === 0) return [];
+
+  const values = await redisConnection.mget(keys);
+  return values
+    .filter((value): value is string => value !== null)
+    .map(value => JSON.parse(value) as WorkerHeartbeat)
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * 排空并关闭 worker
+ * 停止领取新任务并等待进行中的任务完成；超时后强制关闭，
+ * 未完成的任务会被 BullMQ 判定为 stalled，由其他 worker 重新执行
+ */
+export async function drainWorker(
+  worker: Worker<AgentTaskData>,
+  heartbeat: ReturnType<typeof startWorkerHeartbeat>,
+  timeoutMs: number
+) {
+  await heartbeat.setDraining();
+  console.log(`⏳ Draining worker, ${heartbeat.activeJobCount} job(s) in flight (timeout ${timeoutMs}ms)`);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = await Promise.race([
+    worker.close().then(() => false),
+    new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (timedOut) {
+    console.warn(`⚠️ Drain timed out, force closing with ${heartbeat.activeJobCount} job(s) in flight`);
+    await worker.close(true);
+  }
+
+  await heartbeat.stop();
+}
+
+/**
+ * 排空超时时间，默认 5 分钟
+ */
+export function getDrainTimeout() {
+  return parseInt(process.env.WORKER_DRAIN_TIMEOUT_MS ?? String(5 * 60 * 1000));
+}
@@ -0,0 +1,131 @@
+/**
+ * 工作区访问控制
+ * 所有 router、OSS 路由和 worker 共用的角色解析与权限判断
+ */
+
+import { TRPCError } from '@trpc/server';
+import type { PrismaClient, Workspace } from '@prisma/client';
+import { join } from 'path';
+import { getWorkspaceBaseDir } from './workspace-config';
+import type { MemberRole, WorkspacePermission, WorkspaceRole } from '~/types/workspace';
+
+// 角色 → 权限映射
+const ROLE_PERMISSIONS: Record<WorkspaceRole, readonly WorkspacePermission[]> = {
+  owner: [
+    'workspace:read',
+    'workspace:update',
+    'workspace:delete',
+    'member:manage',
+    'file:read',
+    'file:write',
+    'agent:run',
+    'agent:configure',
+    'usage:read',
+    'session:review',
+    'plugin:import',
+  ],
+  teacher: [
+    'workspace:read',
+    'member:manage',
+    'file:read',
+    'file:write',
+    'agent:run',
+    'agent:configure',
+    'usage:read',
+    'session:review',
+    'plugin:import',
+  ],
+  student: [
+    'workspace:read',
+    'file:read',
+    'agent:run',
+  ],
+};
+
+/**
+ * 判断角色是否拥有某项权限
+ */
+export function hasPermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * 判断 actor 是否可以管理（邀请/移除/修改）目标角色的成员
+ * owner 可管理所有成员，teacher 只能管理 student
+ */
+export function canManageRole(actor: WorkspaceRole, target: MemberRole): boolean {
+  if (!hasPermission(actor, 'member:manage')) return false;
+  return actor === 'owner' || target === 'student';
+}
+
+/**
+ * 将数据库中的角色字符串规范化，未知值按 student 处理
+ */
+export function toMemberRole(role: string): MemberRole {
+  return role === 'teacher' ? 'teacher' : 'student';
+}
+
+/**
+ * 解析用户在工作区中的角色
+ * 工作区不存在或用户不是成员时返回 null
+ */
+export async function resolveWorkspaceAccess(
+  db: PrismaClient,
+  workspaceId: string,
+  userId: string
+): Promise<{ workspace: Workspace; role: WorkspaceRole } | null> {
+  const workspace = await db.workspace.findUnique({
+    where: { id: workspaceId },
+    include: {
+      members: {
+        where: { userId },
+        select: { role: true },
+      },
+    },
+  });
+
+  if (!workspace) return null;
+
+  const { members, ...rest } = workspace;
+
+  if (rest.ownerId === userId) {
+    return { workspace: rest, role: 'owner' };
+  }
+
+  const membership = members[0];
+  if (!membership) return null;
+
+  return { workspace: rest, role: toMemberRole(membership.role) };
+}
+
+/**
+ * 验证用户对工作区拥有指定权限，返回工作区、角色和绝对路径
+ * - 非成员统一返回 NOT_FOUND，避免泄露工作区是否存在
+ * - 是成员但权限不足返回 FORBIDDEN
+ */
+export async function ensureWorkspaceAccess(
+  db: PrismaClient,
+  workspaceId: string,
+  userId: string,
+  permission: WorkspacePermission
+) {
+  const access = await resolveWorkspaceAccess(db, workspaceId, userId);
+
+  if (!access) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Workspace not found or access denied"
+    });
+  }
+
+  if (!hasPermission(access.role, permission)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `当前角色无权执行此操作 (${permission})`
+    });
+  }
+
+  const basePath = join(getWorkspaceBaseDir(), access.workspace.path);
+
+  return { ...access, basePath };
+}
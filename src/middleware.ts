@@ -16,6 +16,10 @@ export default async function middleware(request: NextRequest) {
   // 如果用户未登录且不在登录页面，重定向到登录页面
   if (!token && !pathname.startsWith("/login")) {
     const loginUrl = new URL("/login", request.url);
+    // 登录后回到原页面（例如邀请链接 /join/{code}）
+    if (pathname !== "/") {
+      loginUrl.searchParams.set("callbackUrl", pathname + request.nextUrl.search);
+    }
     return NextResponse.redirect(loginUrl);
   }
 
@@ -4,6 +4,10 @@ import { workSpaceRouter } from "./routers/workspace";
 import { fileRouter } from "./routers/file";
 import { agentRouter } from "./routers/agent";
 import { pluginRouter } from "./routers/plugin";
+import { inviteRouter } from "./routers/invite";
+import { usageRouter } from "./routers/usage";
+import { scheduleRouter } from "./routers/schedule";
+import { adminRouter } from "./routers/admin";
 
 /**
  * This is the primary router for your server.
@@ -16,6 +20,10 @@ export const appRouter = createTRPCRouter({
   file: fileRouter,
   agent: agentRouter,
   plugin: pluginRouter,
+  invite: inviteRouter,
+  usage: usageRouter,
+  schedule: scheduleRouter,
+  admin: adminRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../trpc";
+import { isAdminEmail } from "~/lib/admin";
+import {
+    getQueueOverview,
+    promoteQueueJob,
+    removeQueueJob,
+    retryQueueJob,
+} from "~/lib/queue-service";
+
+const jobInputSchema = z.object({
+    jobId: z.string(),
+});
+
+export const adminRouter = createTRPCRouter({
+    // 当前用户是否为系统管理员（用于显示管理入口）
+    isAdmin: protectedProcedure.query(({ ctx }) => {
+        return isAdminEmail(ctx.session.user.email);
+    }),
+
+    // agent-tasks 队列概览
+    getQueue: adminProcedure.query(async () => {
+        return await getQueueOverview();
+    }),
+
+    // 重试失败的任务
+    retryJob: adminProcedure
+        .input(jobInputSchema)
+        .mutation(async ({ input }) => {
+            if (!(await retryQueueJob(input.jobId))) {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "只能重试失败的任务" });
+            }
+            return { success: true };
+        }),
+
+    // 移除任务，运行中的任务会被中断
+    removeJob: adminProcedure
+        .input(jobInputSchema)
+        .mutation(async ({ input }) => {
+            if (!(await removeQueueJob(input.jobId))) {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "任务不存在或无法移除" });
+            }
+            return { success: true };
+        }),
+
+    // 提前执行等待中或延迟的任务
+    promoteJob: adminProcedure
+        .input(jobInputSchema)
+        .mutation(async ({ input }) => {
+            if (!(await promoteQueueJob(input.jobId))) {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "只能提前等待中或延迟的任务" });
+            }
+            return { success: true };
+        }),
+});
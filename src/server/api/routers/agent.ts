@@ -1,68 +1,39 @@
 import { z } from "zod";
+import { TRPCError, tracked } from "@trpc/server";
 import { createTRPCRouter, protectedProcedure } from "../trpc";
-import { addAgentTask, getTaskStatus, cancelTask, getWorkspaceSessionsWithStatus } from "~/lib/queue-service";
-import { PrismaClient } from '@prisma/client';
-import type { SDKMessage, Query } from "@anthropic-ai/claude-agent-sdk";
+import { addAgentTask, getTaskStatus, cancelTask, getWorkspaceSessionsWithStatus, dispatchPendingPrompt } from "~/lib/queue-service";
+import { PrismaClient, type Prisma } from '@prisma/client';
 import type { Message } from "~/types/subscription";
+import type { AgentProgress } from "~/types/queue";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import type { TaskStatus } from "~/types/status";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { ensureWorkspaceAccess, hasPermission, resolveWorkspaceAccess } from "~/lib/workspace-access";
+import { exportSession } from "~/lib/session-export";
+import { buildResumableTranscript, parseClaudeCodeTranscript } from "~/lib/session-import";
+import { searchSessionMessages } from "~/lib/message-search";
+import { ensureWithinBudget } from "~/lib/budget";
+import { branchBeforeMessage, forkSessionAt, getSessionMessages, isUserPrompt } from "~/lib/agent-messages";
+import { subscriptionManager } from "~/lib/subscription-manager";
+import { decidePermissionRequest, getPendingPermissionRequests, toPermissionRequestInfo } from "~/lib/tool-permissions";
+import { getWorkspaceAgentConfig } from "~/lib/agent-config";
+import { PERMISSION_MODES } from "~/types/agent-config";
 
 // 导出TaskStatus供其他模块使用
 export type { TaskStatus } from "~/types/status";
 
 
-// 简化的subscription管理器
-const subscriptions = new Map<string, (data: Message) => void>();
-const queries = new Map<string, Query>();
-
-export const subscriptionManager = {
-  // 基础subscription管理
-  register: (id: string, fn: (data: Message) => void) => subscriptions.set(id, fn),
-  unregister: (id: string) => subscriptions.delete(id),
-  emit: (id: string, data: Message) => subscriptions.get(id)?.(data),
-
-  // Query管理（保留必要的功能）
-  registerQuery: (id: string, query: Query) => queries.set(id, query),
-  unregisterQuery: (id: string) => queries.delete(id),  // 保留，虽然当前未使用
-  interruptQuery: async (id: string): Promise<boolean> => {
-    const query = queries.get(id);
-    if (query) {
-      queries.delete(id);
-      try {
-        await query.interrupt();
-        return true;
-      } catch {
-        return true; // 已从Map中移除
-      }
-    }
-    return false;
-  },
-  hasActiveQuery: (id: string) => queries.has(id)  // 用于worker.ts中的检查
-};
-
-// 安全的JSON解析函数
-function safeParseMessages(messages: unknown): SDKMessage[] {
-  if (!messages) return [];
-  if (typeof messages === 'string') {
-    try {
-      return JSON.parse(messages) as SDKMessage[];
-    } catch {
-      return [];
-    }
-  }
-  return Array.isArray(messages) ? messages as SDKMessage[] : [];
-}
-
 // 创建 Prisma 客户端
 const prisma = new PrismaClient();
 
 // 公共函数：验证session归属
-async function validateSession(id: string, userId: string, selectFields?: Record<string, boolean>) {
+async function validateSession(id: string, userId: string, selectFields?: Prisma.AgentSessionSelectScalar) {
   return await prisma.agentSession.findUnique({
     where: { id, userId },
     select: selectFields ?? {
       id: true,
       userId: true,
-      messages: true,
       title: true,
       createdAt: true,
       bullJobId: true,
@@ -71,6 +42,55 @@ async function validateSession(id: string, userId: string, selectFields?: Record
   });
 }
 
+// 公共函数：加载要导出的会话，会话创建者或有 session:review 权限的成员可以导出
+async function loadSessionTranscript(db: PrismaClient, id: string, userId: string) {
+  const session = await db.agentSession.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      title: true,
+      userId: true,
+      workspaceId: true,
+      createdAt: true,
+      workspace: { select: { name: true } },
+      user: { select: { name: true, email: true } },
+    }
+  });
+
+  const access = session ? await resolveWorkspaceAccess(db, session.workspaceId, userId) : null;
+  const canRead = session?.userId === userId
+    ? !!access
+    : !!access && hasPermission(access.role, 'session:review');
+
+  if (!session || !canRead) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+  }
+
+  const { messages } = await getSessionMessages(db, session.id);
+
+  return {
+    workspaceId: session.workspaceId,
+    transcript: {
+      id: session.id,
+      title: session.title,
+      workspaceName: session.workspace.name,
+      userName: session.user.name ?? session.user.email ?? session.userId,
+      createdAt: session.createdAt,
+      messages,
+    },
+  };
+}
+
+const exportFormatSchema = z.enum(['markdown', 'json', 'html']);
+
+// 会话是否还有待发送的提示：当前运行结束后会自动发送，订阅需要继续监听
+async function hasPendingPrompts(id: string) {
+  return (await prisma.pendingPrompt.count({ where: { agentSessionId: id } })) > 0;
+}
+
+// 排队期间推送排队位置的间隔
+const QUEUE_UPDATE_INTERVAL_MS = 5000;
+
 export const agentRouter = createTRPCRouter({
   // 启动后台查询任务
   startQuery: protectedProcedure
@@ -80,6 +100,9 @@ export const agentRouter = createTRPCRouter({
       id: z.string().optional() // 现在接收数据库 session ID
     }))
     .mutation(async ({ ctx, input }) => {
+      // 验证用户可以在该工作区运行 agent
+      await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'agent:run');
+
       // 添加任务到队列
       const result = await addAgentTask({
         id: input.id,
@@ -93,21 +116,23 @@ export const agentRouter = createTRPCRouter({
         id: result.id, // 返回数据库 session ID
         jobId: result.jobId,
         sessionId: result.sessionId,
-        status: 'idle' as TaskStatus // 新创建的任务初始状态为 idle
+        status: 'queued' as TaskStatus // 新创建的任务已入队，等待 worker 领取
       };
     }),
 
-  // 监听任务状态（subscription）- 简化版本
+  // 监听任务状态（subscription）
+  // 使用 tracked 事件（事件 id 为消息序号），断线重连时客户端自动带上 lastEventId，
+  // 服务端先从数据库补发遗漏的消息，再继续推送实时消息
   watchQuery: protectedProcedure
     .input(z.object({
-      id: z.string()  // 使用内部 ID
+      id: z.string(),  // 使用内部 ID
+      lastEventId: z.string().nullish()  // 客户端已收到的最后一条消息序号
     }))
-    .subscription(async function* ({ ctx, input }) {
+    .subscription(async function* ({ ctx, input, signal }) {
       const { id } = input;
 
       // 验证 session 属于当前用户
       const session = await validateSession(id, ctx.session.user.id, {
-        messages: true,
         title: true,
         createdAt: true,
         bullJobId: true,
@@ -118,67 +143,349 @@ export const agentRouter = createTRPCRouter({
         throw new Error("Session not found or access denied");
       }
 
-      // 获取当前任务状态
-      let status: TaskStatus = 'idle';
-      if (session.bullJobId) {
-        try {
-          const taskResult = await getTaskStatus(id);
-          if (taskResult) {
-            status = taskResult.status;  // 已经是TaskStatus类型，不需要转换
-          }
-        } catch {
-          status = 'idle';
-        }
-      }
-
-      // 初始状态推送
-      yield {
-        type: 'init' as const,
-        id,
-        sessionId: session.sessionId,
-        status,
-        messages: safeParseMessages(session.messages),
-        title: session.title,
-        createdAt: session.createdAt,
-        timestamp: new Date()
-      };
-
-      // 如果没有活跃任务，结束
-      if (!session.bullJobId || status === 'idle') {
-        return;
-      }
+      const parsedLastEventId = input.lastEventId ? parseInt(input.lastEventId, 10) : NaN;
+      const afterSeq = Number.isNaN(parsedLastEventId) ? undefined : parsedLastEventId;
 
-      // 简单的事件监听
+      // 先注册监听再读取历史消息，避免读取期间产生的消息丢失
       const messageQueue: Message[] = [];
-      let hasNewMessage = false;
+      let wakeUp: (() => void) | null = null;
 
       const handler = (message: Message) => {
         messageQueue.push(message);
-        hasNewMessage = true;
+        wakeUp?.();
       };
+      const onAbort = () => wakeUp?.();
 
       subscriptionManager.register(id, handler);
+      signal?.addEventListener('abort', onAbort);
 
       try {
-        while (true) {
-          // 等待新消息
-          while (messageQueue.length === 0) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-            if (!hasNewMessage) continue;
-            break;
+        // 获取当前任务状态
+        let status: TaskStatus = 'idle';
+        let queueInfo = { queuePosition: null as number | null, estimatedStartAt: null as number | null };
+        let progress: AgentProgress | null = null;
+        if (session.bullJobId) {
+          try {
+            const taskResult = await getTaskStatus(id);
+            if (taskResult) {
+              status = taskResult.status;  // 已经是TaskStatus类型，不需要转换
+              queueInfo = {
+                queuePosition: taskResult.queuePosition ?? null,
+                estimatedStartAt: taskResult.estimatedStartAt ?? null,
+              };
+              progress = status === 'running' ? taskResult.progress : null;
+            }
+          } catch {
+            status = 'idle';
+          }
+        }
+
+        const { messages, cursor: initCursor } = await getSessionMessages(prisma, id, afterSeq);
+        const pendingPermissions = await getPendingPermissionRequests(prisma, id);
+        let cursor = initCursor;
+
+        // 初始状态推送（重连时只包含遗漏的消息）
+        yield tracked(String(cursor), {
+          type: 'init' as const,
+          id,
+          sessionId: session.sessionId,
+          status,
+          ...queueInfo,
+          progress,
+          messages,
+          cursor,
+          pendingPermissions,
+          title: session.title,
+          createdAt: session.createdAt,
+          timestamp: new Date()
+        } satisfies Message);
+
+        // 没有任务或任务已结束时不再监听（正常结束且还有待发送的提示时继续监听下一次运行）
+        if (!session.bullJobId || status === 'failed' || (status === 'completed' && !(await hasPendingPrompts(id)))) {
+          return;
+        }
+
+        while (!signal?.aborted) {
+          // 等待新消息；排队期间定时唤醒，推送最新的排队位置
+          if (messageQueue.length === 0) {
+            let timer: NodeJS.Timeout | undefined;
+            await new Promise<void>(resolve => {
+              wakeUp = resolve;
+              if (status === 'queued') {
+                timer = setTimeout(resolve, QUEUE_UPDATE_INTERVAL_MS);
+              }
+            });
+            clearTimeout(timer);
+            wakeUp = null;
+
+            if (status === 'queued' && messageQueue.length === 0 && !signal?.aborted) {
+              const taskResult = await getTaskStatus(id);
+              if (taskResult?.status === 'queued') {
+                const update: Message = {
+                  type: 'queue_update',
+                  id,
+                  sessionId: session.sessionId,
+                  status: taskResult.status,
+                  queuePosition: taskResult.queuePosition ?? null,
+                  estimatedStartAt: taskResult.estimatedStartAt ?? null,
+                  timestamp: new Date()
+                };
+                yield tracked(String(cursor), update);
+              }
+            }
+            continue;
+          }
+
+          const message = messageQueue.shift()!;
+          if (message.status) {
+            status = message.status;
           }
 
-          if (messageQueue.length > 0) {
-            const message = messageQueue.shift()!;
-            hasNewMessage = false;
-            yield message;
+          // 跳过已推送过的消息
+          if (message.cursor !== undefined) {
+            if (message.cursor <= cursor) continue;
+            cursor = message.cursor;
+          }
+
+          yield tracked(String(cursor), message);
+
+          if (message.status === 'failed' || (message.status === 'completed' && !(await hasPendingPrompts(id)))) {
+            return;
           }
         }
       } finally {
-        subscriptionManager.unregister(id);
+        signal?.removeEventListener('abort', onAbort);
+        subscriptionManager.unregister(id, handler);
+      }
+    }),
+
+
+  // 获取会话的待发送提示
+  getPendingPrompts: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { id: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      return await ctx.db.pendingPrompt.findMany({
+        where: { agentSessionId: input.id },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, content: true, createdAt: true }
+      });
+    }),
+
+  // 运行中追加提示，当前运行结束后自动发送；会话空闲时立即发送
+  addPendingPrompt: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      content: z.string().trim().min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { workspaceId: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+      await ensureWorkspaceAccess(ctx.db, session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      const prompt = await ctx.db.pendingPrompt.create({
+        data: { agentSessionId: input.id, content: input.content },
+        select: { id: true, content: true, createdAt: true }
+      });
+
+      // 提交前当前运行已经结束时，不会再有完成事件触发发送
+      const task = await getTaskStatus(input.id);
+      if (task?.status !== 'queued' && task?.status !== 'running') {
+        await dispatchPendingPrompt(input.id);
+      }
+
+      return prompt;
+    }),
+
+  // 修改待发送的提示（只有会话创建者可以修改，提示可能已经被发送）
+  updatePendingPrompt: protectedProcedure
+    .input(z.object({
+      promptId: z.string(),
+      content: z.string().trim().min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const prompt = await ctx.db.pendingPrompt.findFirst({
+        where: { id: input.promptId, session: { userId: ctx.session.user.id } },
+        select: { session: { select: { workspaceId: true } } }
+      });
+      if (!prompt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "该提示已发送或不存在" });
+      }
+      await ensureWorkspaceAccess(ctx.db, prompt.session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      const { count } = await ctx.db.pendingPrompt.updateMany({
+        where: { id: input.promptId },
+        data: { content: input.content }
+      });
+      if (count === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "该提示已发送或不存在" });
+      }
+      return { success: true };
+    }),
+
+  // 删除待发送的提示
+  deletePendingPrompt: protectedProcedure
+    .input(z.object({ promptId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.pendingPrompt.deleteMany({
+        where: { id: input.promptId, session: { userId: ctx.session.user.id } }
+      });
+      return { success: count > 0 };
+    }),
+
+  // 立即发送下一条待发送的提示（上一次运行失败或被取消后，队列不会自动继续）
+  sendPendingPrompt: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { workspaceId: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
       }
+      await ensureWorkspaceAccess(ctx.db, session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      return { dispatched: await dispatchPendingPrompt(input.id) };
     }),
 
+  // 运行中插话：把待发送的提示直接发给正在运行的 Agent，不等当前运行结束
+  injectPendingPrompt: protectedProcedure
+    .input(z.object({ promptId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const prompt = await ctx.db.pendingPrompt.findFirst({
+        where: { id: input.promptId, session: { userId: ctx.session.user.id } },
+        select: { id: true, agentSessionId: true, content: true, createdAt: true, session: { select: { workspaceId: true } } }
+      });
+      if (!prompt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "该提示已发送或不存在" });
+      }
+      await ensureWorkspaceAccess(ctx.db, prompt.session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      // 先从队列中取出，防止运行结束时被重复发送
+      const { count } = await ctx.db.pendingPrompt.deleteMany({ where: { id: prompt.id } });
+      if (count === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "该提示已发送或不存在" });
+      }
+
+      // 只有持有该运行的 worker 确认收到后才算送达，否则放回队列
+      const delivered = await subscriptionManager.controlQuery(prompt.agentSessionId, {
+        action: 'inject',
+        prompt: prompt.content
+      });
+      if (!delivered) {
+        await ctx.db.pendingPrompt.create({
+          data: { id: prompt.id, agentSessionId: prompt.agentSessionId, content: prompt.content, createdAt: prompt.createdAt }
+        });
+        throw new TRPCError({ code: "BAD_REQUEST", message: "当前没有运行中的任务" });
+      }
+
+      return { success: true };
+    }),
+
+  // 获取会话选择的模型和权限模式，以及工作区的默认配置
+  getSessionSettings: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, {
+        workspaceId: true,
+        model: true,
+        permissionMode: true
+      });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      const access = await resolveWorkspaceAccess(ctx.db, session.workspaceId, ctx.session.user.id);
+      if (!access) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Workspace not found or access denied" });
+      }
+      const agentConfig = await getWorkspaceAgentConfig(ctx.db, session.workspaceId);
+
+      return {
+        model: session.model,
+        permissionMode: PERMISSION_MODES.find(mode => mode === session.permissionMode) ?? null,
+        defaultModel: agentConfig.model,
+        defaultPermissionMode: agentConfig.permissionMode,
+        canConfigure: hasPermission(access.role, 'agent:configure'),
+      };
+    }),
+
+  // 修改会话的模型或权限模式（null 表示恢复工作区配置），运行中的任务立即切换
+  updateSessionSettings: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      model: z.string().trim().min(1).max(100).nullable().optional(),
+      permissionMode: z.enum(PERMISSION_MODES).nullable().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { workspaceId: true, updatedAt: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      // 逐项审批和计划模式比工作区配置更严格；指定模型（影响用量）和其余权限模式需要 Agent 配置权限，恢复工作区配置不需要
+      const restrictive = input.permissionMode == null || input.permissionMode === 'default' || input.permissionMode === 'plan';
+      await ensureWorkspaceAccess(
+        ctx.db,
+        session.workspaceId,
+        ctx.session.user.id,
+        input.model == null && restrictive ? 'agent:run' : 'agent:configure'
+      );
+
+      const updated = await ctx.db.agentSession.update({
+        where: { id: input.id },
+        data: { model: input.model, permissionMode: input.permissionMode, updatedAt: session.updatedAt },
+        select: { id: true, model: true, permissionMode: true }
+      });
+
+      if (input.model !== undefined) {
+        await subscriptionManager.controlQuery(input.id, { action: 'set_model', model: input.model });
+      }
+      if (input.permissionMode !== undefined) {
+        await subscriptionManager.controlQuery(input.id, { action: 'set_permission_mode', mode: input.permissionMode });
+      }
+
+      return updated;
+    }),
+
+  // 回应工具调用审批
+  respondPermission: protectedProcedure
+    .input(z.object({
+      requestId: z.string(),
+      behavior: z.enum(['allow', 'deny']),
+      alwaysAllow: z.boolean().optional(),
+      message: z.string().max(1000).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const request = await prisma.toolPermissionRequest.findUnique({
+        where: { id: input.requestId },
+        select: { agentSessionId: true }
+      });
+
+      // 只有会话创建者可以审批
+      const session = request && await validateSession(request.agentSessionId, ctx.session.user.id, {
+        id: true
+      });
+
+      if (!request || !session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "审批请求不存在" });
+      }
+
+      const { requestId, ...decision } = input;
+      const decided = await decidePermissionRequest(prisma, requestId, decision, ctx.session.user.id);
+
+      if (!decided) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "该审批已处理或已超时" });
+      }
+
+      await subscriptionManager.respondPermission(request.agentSessionId, requestId, decision);
+
+      return toPermissionRequestInfo(decided);
+    }),
 
   // 获取工作区的所有 sessions（增强版）
   getSessions: protectedProcedure
@@ -186,10 +493,30 @@ export const agentRouter = createTRPCRouter({
       workspaceId: z.string()
     }))
     .query(async ({ input, ctx }) => {
+      await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'workspace:read');
+
       // 使用 BullMQ 工具函数获取带状态的会话列表
       return await getWorkspaceSessionsWithStatus(input.workspaceId, ctx.session.user.id);
     }),
 
+  // 全文搜索工作区中自己的会话消息（用户提示、助手回复和工具输入）
+  searchMessages: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string(),
+      query: z.string().min(1).max(200),
+      limit: z.number().int().min(1).max(50).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'workspace:read');
+
+      return await searchSessionMessages(ctx.db, {
+        workspaceId: input.workspaceId,
+        userId: ctx.session.user.id,
+        query: input.query,
+        limit: input.limit,
+      });
+    }),
+
   // 取消任务
   cancelQuery: protectedProcedure
     .input(z.object({
@@ -266,4 +593,242 @@ export const agentRouter = createTRPCRouter({
         where: { id: input.id }
       });
     }),
-});
\ No newline at end of file
+
+  // 重命名会话，之后不再自动生成标题（以下操作都保留原有的 updatedAt，不改变会话的排序）
+  renameSession: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      title: z.string().trim().min(1).max(100)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { updatedAt: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      return await ctx.db.agentSession.update({
+        where: { id: input.id },
+        data: { title: input.title, titleEdited: true, updatedAt: session.updatedAt },
+        select: { id: true, title: true }
+      });
+    }),
+
+  // 置顶 / 取消置顶会话
+  pinSession: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      pinned: z.boolean()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { updatedAt: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      return await ctx.db.agentSession.update({
+        where: { id: input.id },
+        data: { pinnedAt: input.pinned ? new Date() : null, updatedAt: session.updatedAt },
+        select: { id: true, pinnedAt: true }
+      });
+    }),
+
+  // 归档 / 取消归档会话
+  archiveSession: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      archived: z.boolean()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await validateSession(input.id, ctx.session.user.id, { updatedAt: true });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      return await ctx.db.agentSession.update({
+        where: { id: input.id },
+        data: { archivedAt: input.archived ? new Date() : null, updatedAt: session.updatedAt },
+        select: { id: true, archivedAt: true }
+      });
+    }),
+
+  // 从指定消息处创建分支会话
+  forkSession: protectedProcedure
+    .input(z.object({
+      id: z.string(),  // 来源会话的内部 ID
+      messageIndex: z.number().int().min(0)  // 分支点消息在会话中的位置（包含该消息）
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.agentSession.findUnique({
+        where: { id: input.id },
+        select: { id: true, sessionId: true, workspaceId: true, userId: true, title: true }
+      });
+
+      if (session?.userId !== ctx.session.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      await ensureWorkspaceAccess(ctx.db, session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      if (!session.sessionId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "会话尚未开始，无法创建分支" });
+      }
+
+      const fork = await forkSessionAt(ctx.db, { ...session, sessionId: session.sessionId }, input.messageIndex);
+      if (!fork) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "分支点之前没有助手回复，无法创建分支" });
+      }
+
+      return { id: fork.id, parentId: session.id };
+    }),
+
+  // 编辑之前的用户提示并重新发送：在新的分支会话中运行，原会话保持不变
+  editPrompt: protectedProcedure
+    .input(z.object({
+      id: z.string(),  // 原会话的内部 ID
+      messageIndex: z.number().int().min(0),  // 被编辑的用户提示在会话中的位置
+      query: z.string().min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.agentSession.findUnique({
+        where: { id: input.id },
+        select: { id: true, sessionId: true, workspaceId: true, userId: true, title: true }
+      });
+
+      if (session?.userId !== ctx.session.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found or access denied" });
+      }
+
+      await ensureWorkspaceAccess(ctx.db, session.workspaceId, ctx.session.user.id, 'agent:run');
+
+      const target = await ctx.db.agentMessage.findFirst({
+        where: { agentSessionId: session.id },
+        orderBy: { seq: 'asc' },
+        skip: input.messageIndex,
+        select: { payload: true }
+      });
+
+      if (!target || !isUserPrompt(target.payload as unknown as SDKMessage)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "只能编辑用户发送的提示" });
+      }
+
+      // 先检查预算，避免留下无法运行的空分支
+      await ensureWithinBudget(ctx.db, session.workspaceId, ctx.session.user.id);
+
+      const branch = await branchBeforeMessage(ctx.db, session, input.messageIndex);
+
+      const result = await addAgentTask({
+        id: branch.id,
+        workspaceId: session.workspaceId,
+        userId: ctx.session.user.id,
+        query: input.query,
+      });
+
+      return {
+        id: result.id,
+        jobId: result.jobId,
+        sessionId: result.sessionId,
+        parentId: session.id,
+        status: 'queued' as TaskStatus
+      };
+    }),
+
+  // 导出会话为 Markdown / JSON / HTML
+  exportSession: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      format: exportFormatSchema
+    }))
+    .query(async ({ ctx, input }) => {
+      const { transcript } = await loadSessionTranscript(ctx.db, input.id, ctx.session.user.id);
+      return exportSession(transcript, input.format);
+    }),
+
+  // 导出会话并保存到工作区目录
+  saveSessionExport: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      format: exportFormatSchema,
+      directory: z.string().default('exports')  // 相对工作区根目录
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { workspaceId, transcript } = await loadSessionTranscript(ctx.db, input.id, ctx.session.user.id);
+      const { basePath } = await ensureWorkspaceAccess(ctx.db, workspaceId, ctx.session.user.id, 'file:write');
+
+      const result = exportSession(transcript, input.format);
+      const directory = join(basePath, input.directory);
+      const absoluteFilePath = join(directory, result.fileName);
+
+      if (!absoluteFilePath.startsWith(basePath + '/')) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+      }
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(absoluteFilePath, result.content, 'utf-8');
+
+      return { path: absoluteFilePath.slice(basePath.length + 1), fileName: result.fileName };
+    }),
+
+  // 工作区所有成员的会话（教师归档和批改用）
+  getReviewSessions: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string()
+    }))
+    .query(async ({ ctx, input }) => {
+      await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'session:review');
+
+      return await ctx.db.agentSession.findMany({
+        where: { workspaceId: input.workspaceId },
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          updatedAt: true,
+          user: { select: { id: true, name: true, email: true } },
+          _count: { select: { messages: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+      });
+    }),
+
+  // 导入 Claude Code CLI 的 JSONL 会话记录，导入后可以在网页中查看和继续对话
+  importSession: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string(),
+      content: z.string().min(1).max(20 * 1024 * 1024)  // JSONL 文件内容
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'agent:run');
+
+      const { transcript, error } = parseClaudeCodeTranscript(input.content);
+      if (!transcript) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error ?? "无效的会话记录" });
+      }
+
+      const { sessionId, content } = buildResumableTranscript(transcript.records);
+
+      const session = await ctx.db.$transaction(async (tx) => {
+        const created = await tx.agentSession.create({
+          data: {
+            workspaceId: input.workspaceId,
+            userId: ctx.session.user.id,
+            title: transcript.title,
+            sessionId,
+            importedTranscript: content,
+          }
+        });
+
+        await tx.agentMessage.createMany({
+          data: transcript.messages.map((message, seq) => ({
+            agentSessionId: created.id,
+            seq,
+            type: message.type,
+            payload: { ...message, session_id: sessionId } as unknown as Prisma.InputJsonValue,
+          })),
+        });
+
+        return created;
+      });
+
+      return { id: session.id, title: session.title, messageCount: transcript.messages.length };
+    }),
+});
@@ -4,9 +4,10 @@ import { TRPCError } from "@trpc/server";
 import { mkdir, rmdir, readdir, stat, writeFile, rename, unlink, readFile } from "fs/promises";
 import { join } from "path";
 import type { FileTreeItem } from "../types/file";
-import { getWorkspaceBaseDir } from "~/lib/workspace-config";
 import chokidar, { type FSWatcher } from "chokidar";
 import { getMimeType } from "~/lib/file";
+import { ensureWorkspaceAccess } from "~/lib/workspace-access";
+import type { WorkspacePermission } from "~/types/workspace";
 
 // 定义上下文类型
 import type { createTRPCContext } from "../trpc";
@@ -19,9 +20,10 @@ type Context = Awaited<ReturnType<typeof createTRPCContext>>;
 /**
  * 验证用户是否有权访问工作区并返回工作区信息
  */
-async function ensureWorkspaceOwnership(
+async function ensureWorkspacePermission(
     ctx: Context,
-    workspaceId: string
+    workspaceId: string,
+    permission: WorkspacePermission
 ) {
     if (!ctx.session?.user) {
         throw new TRPCError({
@@ -30,23 +32,7 @@ async function ensureWorkspaceOwnership(
         });
     }
 
-    const workspace = await ctx.db.workspace.findUnique({
-        where: {
-            id: workspaceId,
-            ownerId: ctx.session.user.id
-        },
-    });
-
-    if (!workspace?.path) {
-        throw new TRPCError({
-            code: "NOT_FOUND",
-            message: "Workspace not found or access denied"
-        });
-    }
-
-    const basePath = join(getWorkspaceBaseDir(), workspace.path);
-
-    return { workspace, basePath };
+    return ensureWorkspaceAccess(ctx.db, workspaceId, ctx.session.user.id, permission);
 }
 
 /**
@@ -69,7 +55,7 @@ async function validateAndGetFileStats(
     workspaceId: string,
     filePath: string
 ) {
-    const { basePath } = await ensureWorkspaceOwnership(ctx, workspaceId);
+    const { basePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:read');
     const absoluteFilePath = join(basePath, filePath);
 
     validateFilePath(absoluteFilePath, basePath);
@@ -105,7 +91,7 @@ export const fileRouter = createTRPCRouter({
             workspaceId: z.string().cuid(),
         }))
         .query(async ({ ctx, input }) => {
-            const { basePath, workspace } = await ensureWorkspaceOwnership(ctx, input.workspaceId);
+            const { basePath, workspace } = await ensureWorkspacePermission(ctx, input.workspaceId, 'file:read');
             const ignoreItems = ['.git', 'node_modules', '.next', 'dist'];
 
             // 检查目录是否存在
@@ -183,8 +169,8 @@ export const fileRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             const { workspaceId, filePath, content, encoding } = input;
 
-            // 验证workspace存在且用户有权限访问
-            const { basePath } = await ensureWorkspaceOwnership(ctx, workspaceId);
+            // 验证workspace存在且用户有权限写入
+            const { basePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:write');
             const absoluteFilePath = join(basePath, filePath);
 
             // 安全检查：确保文件在workspace目录内
@@ -230,20 +216,10 @@ export const fileRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             const { workspaceId, filePath, content, encoding } = input;
 
-            // 验证workspace存在且用户有权限访问
-            const workspace = await ctx.db.workspace.findUnique({
-                where: {
-                    id: workspaceId,
-                    ownerId: ctx.session.user.id,
-                },
-            });
-
-            if (!workspace?.path) {
-                throw new Error("Workspace not found");
-            }
+            // 验证workspace存在且用户有权限写入
+            const { basePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:write');
 
             // 构建文件绝对路径
-            const basePath = join(getWorkspaceBaseDir(), workspace.path);
             const absoluteFilePath = join(basePath, filePath);
 
             // 安全检查：确保文件在workspace目录内
@@ -361,17 +337,8 @@ export const fileRouter = createTRPCRouter({
         .mutation(async ({ ctx, input }) => {
             const { workspaceId, folderPath } = input;
 
-            // 验证workspace存在且用户有权限访问
-            const workspace = await ctx.db.workspace.findUnique({
-                where: {
-                    id: workspaceId,
-                    ownerId: ctx.session.user.id,
-                },
-            });
-
-            if (!workspace?.path) {
-                throw new Error("Workspace not found");
-            }
+            // 验证workspace存在且用户有权限写入
+            const { basePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:write');
 
             // 验证文件夹名不包含非法字符
             if (folderPath.includes('\\') || folderPath.includes('..') || folderPath.includes('//')) {
@@ -379,7 +346,6 @@ export const fileRouter = createTRPCRouter({
             }
 
             // 构建文件夹绝对路径
-            const basePath = join(getWorkspaceBaseDir(), workspace.path);
             const absoluteFolderPath = join(basePath, folderPath);
 
             // 安全检查：确保文件夹在workspace目录内
@@ -429,16 +395,9 @@ export const fileRouter = createTRPCRouter({
             const { workspaceId, path } = input;
 
             // 获取工作区路径
-            const workspace = await ctx.db.workspace.findUnique({
-                where: { id: workspaceId, ownerId: ctx.session.user.id }
-            });
-
-            if (!workspace) {
-                throw new Error("Workspace not found");
-            }
-
-            const workspacePath = join(getWorkspaceBaseDir(), workspace.path);
+            const { basePath: workspacePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:write');
             const fullPath = join(workspacePath, path);
+            validateFilePath(fullPath, workspacePath);
 
             try {
                 const stats = await stat(fullPath);
@@ -466,17 +425,11 @@ export const fileRouter = createTRPCRouter({
             const { workspaceId, oldPath, newPath } = input;
 
             // 获取工作区路径
-            const workspace = await ctx.db.workspace.findUnique({
-                where: { id: workspaceId, ownerId: ctx.session.user.id }
-            });
-
-            if (!workspace) {
-                throw new Error("Workspace not found");
-            }
-
-            const workspacePath = join(getWorkspaceBaseDir(), workspace.path);
+            const { basePath: workspacePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:write');
             const oldFullPath = join(workspacePath, oldPath);
             const newFullPath = join(workspacePath, newPath);
+            validateFilePath(oldFullPath, workspacePath);
+            validateFilePath(newFullPath, workspacePath);
 
             try {
                 // 检查新路径是否已存在
@@ -515,19 +468,7 @@ export const fileRouter = createTRPCRouter({
             const { workspaceId, query, limit } = input;
 
             // 验证workspace存在且用户有权限访问
-            const workspace = await ctx.db.workspace.findUnique({
-                where: {
-                    id: workspaceId,
-                    ownerId: ctx.session.user.id,
-                },
-            });
-
-            if (!workspace?.path) {
-                throw new Error("Workspace not found");
-            }
-
-            // 构建工作区基础路径
-            const basePath = join(getWorkspaceBaseDir(), workspace.path);
+            const { basePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:read');
 
             // 递归搜索文件
             async function searchFiles(dir: string, depth = 0): Promise<Array<{
@@ -627,15 +568,7 @@ export const fileRouter = createTRPCRouter({
             const { workspaceId } = input;
 
             // 获取工作区路径
-            const workspace = await ctx.db.workspace.findUnique({
-                where: { id: workspaceId, ownerId: ctx.session.user.id }
-            });
-
-            if (!workspace) {
-                throw new Error("Workspace not found");
-            }
-
-            const workspacePath = join(getWorkspaceBaseDir(), workspace.path);
+            const { basePath: workspacePath } = await ensureWorkspacePermission(ctx, workspaceId, 'file:read');
 
             // 文件变化队列
             const eventQueue: FileChangeEvent[] = [];
@@ -0,0 +1,242 @@
+import { z } from "zod";
+import { randomInt } from "crypto";
+import { TRPCError } from "@trpc/server";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { canManageRole, ensureWorkspaceAccess, resolveWorkspaceAccess, toMemberRole } from "~/lib/workspace-access";
+
+// 去掉易混淆字符（0/O、1/I/L）的邀请码字符集
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+const memberRoleSchema = z.enum(["teacher", "student"]);
+
+/**
+ * 生成随机邀请码
+ */
+function generateInviteCode() {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * 规范化用户输入：支持直接粘贴邀请链接 /join/{code}
+ */
+function normalizeInviteCode(input: string) {
+    const trimmed = input.trim();
+    const code = trimmed.includes("/join/")
+        ? trimmed.slice(trimmed.lastIndexOf("/join/") + "/join/".length).split(/[?#/]/)[0] ?? ""
+        : trimmed;
+    return code.toUpperCase();
+}
+
+/**
+ * 查找可用的邀请，失效（不存在/已撤销/已过期/次数用尽）时抛出错误
+ */
+async function findRedeemableInvite(
+    db: PrismaClient | Prisma.TransactionClient,
+    rawCode: string
+) {
+    const invite = await db.workspaceInvite.findUnique({
+        where: { code: normalizeInviteCode(rawCode) },
+        include: {
+            workspace: { select: { id: true, name: true, description: true, ownerId: true } },
+            creator: { select: { name: true, email: true } },
+        },
+    });
+
+    if (!invite) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "邀请码无效" });
+    }
+
+    if (invite.revokedAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "邀请已被撤销" });
+    }
+
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "邀请已过期" });
+    }
+
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "邀请使用次数已达上限" });
+    }
+
+    return invite;
+}
+
+export const inviteRouter = createTRPCRouter({
+    // 获取工作区的邀请列表
+    getInvites: protectedProcedure
+        .input(z.object({
+            workspaceId: z.string().cuid(),
+        }))
+        .query(async ({ ctx, input }) => {
+            await ensureWorkspaceAccess(ctx.db, input.workspaceId, ctx.session.user.id, 'member:manage');
+
+            const invites = await ctx.db.workspaceInvite.findMany({
+                where: { workspaceId: input.workspaceId },
+                include: {
+                    creator: { select: { name: true, email: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+            });
+
+            const now = Date.now();
+            return invites.map(invite => ({
+                id: invite.id,
+                code: invite.code,
+                role: toMemberRole(invite.role),
+                maxUses: invite.maxUses,
+                useCount: invite.useCount,
+                expiresAt: invite.expiresAt,
+                revokedAt: invite.revokedAt,
+                createdAt: invite.createdAt,
+                creatorName: invite.creator.name ?? invite.creator.email,
+                isActive: !invite.revokedAt
+                    && (!invite.expiresAt || invite.expiresAt.getTime() > now)
+                    && (invite.maxUses === null || invite.useCount < invite.maxUses),
+            }));
+        }),
+
+    // 创建邀请
+    createInvite: protectedProcedure
+        .input(z.object({
+            workspaceId: z.string().cuid(),
+            role: memberRoleSchema.default("student"),
+            expiresInHours: z.number().int().positive().max(24 * 365).nullable().default(24 * 7),
+            maxUses: z.number().int().positive().max(10000).nullable().default(null),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const { role: actorRole } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'member:manage',
+            );
+
+            if (!canManageRole(actorRole, input.role)) {
+                throw new TRPCError({ code: "FORBIDDEN", message: "无权邀请该角色的成员" });
+            }
+
+            const expiresAt = input.expiresInHours
+                ? new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000)
+                : null;
+
+            // 邀请码冲突概率极低，冲突时重试几次
+            for (let attempt = 0; attempt < 5; attempt++) {
+                const code = generateInviteCode();
+                const existing = await ctx.db.workspaceInvite.findUnique({ where: { code } });
+                if (existing) continue;
+
+                return await ctx.db.workspaceInvite.create({
+                    data: {
+                        workspaceId: input.workspaceId,
+                        code,
+                        role: input.role,
+                        createdBy: ctx.session.user.id,
+                        maxUses: input.maxUses,
+                        expiresAt,
+                    },
+                });
+            }
+
+            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "生成邀请码失败，请重试" });
+        }),
+
+    // 撤销邀请
+    revokeInvite: protectedProcedure
+        .input(z.object({
+            inviteId: z.string(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const invite = await ctx.db.workspaceInvite.findUnique({
+                where: { id: input.inviteId },
+            });
+
+            if (!invite) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "邀请不存在" });
+            }
+
+            const { role: actorRole } = await ensureWorkspaceAccess(
+                ctx.db,
+                invite.workspaceId,
+                ctx.session.user.id,
+                'member:manage',
+            );
+
+            if (!canManageRole(actorRole, toMemberRole(invite.role))) {
+                throw new TRPCError({ code: "FORBIDDEN", message: "无权撤销该邀请" });
+            }
+
+            return await ctx.db.workspaceInvite.update({
+                where: { id: invite.id },
+                data: { revokedAt: invite.revokedAt ?? new Date() },
+            });
+        }),
+
+    // 预览邀请（加入前展示工作区信息）
+    previewInvite: protectedProcedure
+        .input(z.object({
+            code: z.string().min(1),
+        }))
+        .query(async ({ ctx, input }) => {
+            const invite = await findRedeemableInvite(ctx.db, input.code);
+            const access = await resolveWorkspaceAccess(ctx.db, invite.workspaceId, ctx.session.user.id);
+
+            return {
+                code: invite.code,
+                role: toMemberRole(invite.role),
+                expiresAt: invite.expiresAt,
+                workspaceId: invite.workspace.id,
+                workspaceName: invite.workspace.name,
+                workspaceDescription: invite.workspace.description ?? undefined,
+                inviterName: invite.creator.name ?? invite.creator.email,
+                currentRole: access?.role ?? null,
+            };
+        }),
+
+    // 使用邀请码加入工作区
+    redeemInvite: protectedProcedure
+        .input(z.object({
+            code: z.string().min(1),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+
+            return await ctx.db.$transaction(async (tx) => {
+                const invite = await findRedeemableInvite(tx, input.code);
+
+                // 已是拥有者或成员时直接返回，不消耗邀请次数
+                if (invite.workspace.ownerId === userId) {
+                    return { workspaceId: invite.workspaceId, alreadyMember: true };
+                }
+
+                const existing = await tx.workspaceMember.findUnique({
+                    where: { workspaceId_userId: { workspaceId: invite.workspaceId, userId } },
+                });
+
+                if (existing) {
+                    return { workspaceId: invite.workspaceId, alreadyMember: true };
+                }
+
+                await tx.workspaceMember.create({
+                    data: {
+                        workspaceId: invite.workspaceId,
+                        userId,
+                        role: invite.role,
+                        invitedBy: invite.createdBy,
+                    },
+                });
+
+                await tx.workspaceInvite.update({
+                    where: { id: invite.id },
+                    data: { useCount: { increment: 1 } },
+                });
+
+                return { workspaceId: invite.workspaceId, alreadyMember: false };
+            });
+        }),
+});
@@ -4,7 +4,7 @@ import { readFile } from "fs/promises";
 import { join, basename } from "path";
 import fsExtra from 'fs-extra';
 import type { PluginManifest } from "~/types/plugin";
-import { getWorkspaceBaseDir } from "~/lib/workspace-config";
+import { ensureWorkspaceAccess } from "~/lib/workspace-access";
 
 export const pluginRouter = createTRPCRouter({
   // 获取插件资源列表
@@ -62,23 +62,18 @@ export const pluginRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       try {
         // 1. 验证工作区权限
-        const workspace = await ctx.db.workspace.findFirst({
-          where: {
-            id: input.workspaceId,
-            ownerId: ctx.session.user.id
-          }
-        });
-
-        if (!workspace) {
-          throw new Error("工作区不存在或无权限访问");
-        }
+        const { basePath: workspaceBasePath } = await ensureWorkspaceAccess(
+          ctx.db,
+          input.workspaceId,
+          ctx.session.user.id,
+          'plugin:import'
+        );
 
         // 2. 构建 cp 命令的两个完整路径
         // 源路径: resources/{resource_path}
         const sourcePath = join(process.cwd(), 'resources', input.resource_path);
 
         // 目标路径: workspaces/{workspace_path}/{import_path}
-        const workspaceBasePath = join(getWorkspaceBaseDir(), workspace.path);
         let targetPath = join(workspaceBasePath, input.import_path);
 
         // 如果 import_path 以 / 结尾，表示复制到目录
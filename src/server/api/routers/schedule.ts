@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { ScheduledTask } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { ensureWorkspaceAccess, hasPermission } from "~/lib/workspace-access";
+import {
+    getCronError,
+    getNextRunAt,
+    isValidTimeZone,
+    removeScheduledTask,
+    syncScheduledTask,
+} from "~/lib/scheduled-tasks";
+import type { WorkspaceRole } from "~/types/workspace";
+
+// 每个任务在列表中展示的最近会话数
+const RECENT_SESSIONS_LIMIT = 5;
+
+const taskFieldsSchema = z.object({
+    name: z.string().trim().min(1, "名称不能为空").max(100),
+    prompt: z.string().trim().min(1, "提示不能为空"),
+    cron: z.string().trim().min(1, "cron 表达式不能为空"),
+    timezone: z.string().refine(isValidTimeZone, "无效的时区"),
+    enabled: z.boolean(),
+});
+
+/**
+ * 校验 cron 表达式后同步 job scheduler
+ * cron 表达式无效时抛出 BAD_REQUEST，Redis 等其他错误按 INTERNAL_SERVER_ERROR 返回
+ */
+async function applySchedule(task: Parameters<typeof syncScheduledTask>[0]) {
+    const cronError = getCronError(task.cron, task.timezone);
+    if (cronError) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `无效的 cron 表达式：${cronError}` });
+    }
+
+    try {
+        await syncScheduledTask(task);
+    } catch (error) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "同步定时任务失败，请稍后重试", cause: error });
+    }
+}
+
+/**
+ * 查找工作区中的定时任务，不存在时抛出 NOT_FOUND
+ */
+function ensureTask(task: ScheduledTask | null, workspaceId: string) {
+    if (task?.workspaceId !== workspaceId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "定时任务不存在" });
+    }
+    return task;
+}
+
+/**
+ * 任务以创建者的身份运行，只有创建者和工作区拥有者可以修改或删除
+ */
+function canEditTask(task: ScheduledTask, role: WorkspaceRole, userId: string) {
+    return role === 'owner' || task.userId === userId;
+}
+
+function ensureTaskEditable(task: ScheduledTask, role: WorkspaceRole, userId: string) {
+    if (!canEditTask(task, role, userId)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "只有任务创建者或工作区拥有者可以修改此定时任务" });
+    }
+}
+
+export const scheduleRouter = createTRPCRouter({
+    // 工作区的定时任务列表，包含下次运行时间和最近创建的会话
+    list: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const { role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                userId,
+                'workspace:read',
+            );
+            const canEdit = hasPermission(role, 'agent:configure');
+
+            const tasks = await ctx.db.scheduledTask.findMany({
+                where: { workspaceId: input.workspaceId },
+                include: {
+                    user: { select: { name: true, email: true } },
+                    sessions: {
+                        select: { id: true, title: true, createdAt: true },
+                        orderBy: { createdAt: 'desc' },
+                        take: RECENT_SESSIONS_LIMIT,
+                    },
+                },
+                orderBy: { createdAt: 'asc' },
+            });
+
+            const items = await Promise.all(
+                tasks.map(async (task) => ({
+                    ...task,
+                    nextRunAt: task.enabled ? await getNextRunAt(task.id) : null,
+                    editable: canEdit && canEditTask(task, role, userId),
+                })),
+            );
+
+            return {
+                tasks: items,
+                canEdit,
+            };
+        }),
+
+    // 创建定时任务，以创建者的身份运行
+    create: protectedProcedure
+        .input(
+            taskFieldsSchema.extend({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            await ensureWorkspaceAccess(ctx.db, input.workspaceId, userId, 'agent:configure');
+
+            const task = await ctx.db.scheduledTask.create({
+                data: { ...input, userId },
+            });
+
+            try {
+                await applySchedule(task);
+            } catch (error) {
+                await ctx.db.scheduledTask.delete({ where: { id: task.id } });
+                throw error;
+            }
+
+            return task;
+        }),
+
+    update: protectedProcedure
+        .input(
+            taskFieldsSchema.partial().extend({
+                workspaceId: z.string().cuid(),
+                id: z.string(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const { role } = await ensureWorkspaceAccess(ctx.db, input.workspaceId, userId, 'agent:configure');
+
+            const { id, workspaceId, ...data } = input;
+            const existing = ensureTask(
+                await ctx.db.scheduledTask.findUnique({ where: { id } }),
+                workspaceId,
+            );
+            ensureTaskEditable(existing, role, userId);
+
+            // 先更新 scheduler，cron 无效时数据库保持不变
+            await applySchedule({ ...existing, ...data });
+
+            return await ctx.db.scheduledTask.update({
+                where: { id },
+                data,
+            });
+        }),
+
+    delete: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                id: z.string(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const { role } = await ensureWorkspaceAccess(ctx.db, input.workspaceId, userId, 'agent:configure');
+
+            const existing = ensureTask(
+                await ctx.db.scheduledTask.findUnique({ where: { id: input.id } }),
+                input.workspaceId,
+            );
+            ensureTaskEditable(existing, role, userId);
+
+            await removeScheduledTask(input.id);
+            await ctx.db.scheduledTask.delete({ where: { id: input.id } });
+
+            return { success: true };
+        }),
+});
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { ensureWorkspaceAccess, hasPermission, toMemberRole } from "~/lib/workspace-access";
+import { sumUsage, sumUsageBy } from "~/lib/usage";
+import { getBudgetUsage, getWorkspaceBudget, toUsageBudget } from "~/lib/budget";
+import {
+    EMPTY_USAGE_TOTALS,
+    USAGE_PERIODS,
+    type UserUsage,
+    type WorkspaceUsage,
+} from "~/types/usage";
+import type { WorkspaceRole } from "~/types/workspace";
+
+const periodSchema = z
+    .number()
+    .int()
+    .refine((days) => (USAGE_PERIODS as readonly number[]).includes(days))
+    .default(30);
+
+const tokenLimitSchema = z.number().int().min(0).nullable();
+const costLimitSchema = z.number().min(0).nullable();
+
+function getPeriodStart(days: number) {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+export const usageRouter = createTRPCRouter({
+    // 单个会话的累计用量（会话创建者可见）
+    getSessionUsage: protectedProcedure
+        .input(
+            z.object({
+                id: z.string(),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const session = await ctx.db.agentSession.findUnique({
+                where: { id: input.id },
+                select: { userId: true },
+            });
+
+            if (session?.userId !== ctx.session.user.id) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Session not found or access denied",
+                });
+            }
+
+            return await sumUsage(ctx.db, { agentSessionId: input.id });
+        }),
+
+    // 工作区用量：有 usage:read 权限时包含所有成员，否则只统计自己
+    getWorkspaceUsage: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                days: periodSchema,
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const { role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                userId,
+                'workspace:read',
+            );
+
+            const canReadAll = hasPermission(role, 'usage:read');
+            const where: Prisma.UsageRecordWhereInput = {
+                workspaceId: input.workspaceId,
+                createdAt: { gte: getPeriodStart(input.days) },
+                ...(canReadAll ? {} : { userId }),
+            };
+
+            return {
+                totals: await sumUsage(ctx.db, where),
+                canReadAll,
+            };
+        }),
+
+    // 用量看板：按工作区和按用户汇总
+    getDashboard: protectedProcedure
+        .input(
+            z.object({
+                days: periodSchema,
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const since = getPeriodStart(input.days);
+
+            const workspaces = await ctx.db.workspace.findMany({
+                where: {
+                    OR: [
+                        { ownerId: userId },
+                        { members: { some: { userId } } },
+                    ],
+                },
+                select: {
+                    id: true,
+                    name: true,
+                    ownerId: true,
+                    members: { where: { userId }, select: { role: true } },
+                },
+                orderBy: { updatedAt: 'desc' },
+            });
+
+            // 有 usage:read 权限的工作区统计所有成员，其余只统计自己
+            const managedIds: string[] = [];
+            const ownIds: string[] = [];
+            for (const workspace of workspaces) {
+                const role: WorkspaceRole = workspace.ownerId === userId
+                    ? 'owner'
+                    : toMemberRole(workspace.members[0]?.role ?? 'student');
+                if (hasPermission(role, 'usage:read')) managedIds.push(workspace.id);
+                else ownIds.push(workspace.id);
+            }
+
+            const where: Prisma.UsageRecordWhereInput = {
+                createdAt: { gte: since },
+                OR: [
+                    { workspaceId: { in: managedIds } },
+                    { workspaceId: { in: ownIds }, userId },
+                ],
+            };
+
+            const [totals, mine, byWorkspaceMap, byUserMap] = await Promise.all([
+                sumUsage(ctx.db, where),
+                sumUsage(ctx.db, { createdAt: { gte: since }, userId }),
+                sumUsageBy(ctx.db, 'workspaceId', where),
+                sumUsageBy(ctx.db, 'userId', where),
+            ]);
+
+            const byWorkspace: WorkspaceUsage[] = workspaces
+                .map(workspace => ({
+                    workspaceId: workspace.id,
+                    workspaceName: workspace.name,
+                    totals: byWorkspaceMap.get(workspace.id) ?? EMPTY_USAGE_TOTALS,
+                }))
+                .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+
+            const users = await ctx.db.user.findMany({
+                where: { id: { in: [...byUserMap.keys()] } },
+                select: { id: true, name: true, email: true },
+            });
+
+            const byUser: UserUsage[] = users
+                .map(user => ({
+                    userId: user.id,
+                    name: user.name,
+                    email: user.email,
+                    totals: byUserMap.get(user.id) ?? EMPTY_USAGE_TOTALS,
+                }))
+                .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+
+            return { totals, mine, byWorkspace, byUser };
+        }),
+
+    // ========================
+    // 预算
+    // ========================
+    getBudget: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+            const { role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                userId,
+                'workspace:read',
+            );
+
+            return {
+                budget: await getWorkspaceBudget(ctx.db, input.workspaceId),
+                usage: await getBudgetUsage(ctx.db, input.workspaceId, userId),
+                canEdit: hasPermission(role, 'agent:configure'),
+            };
+        }),
+    updateBudget: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                workspaceDailyTokens: tokenLimitSchema,
+                workspaceMonthlyTokens: tokenLimitSchema,
+                workspaceDailyCostUsd: costLimitSchema,
+                workspaceMonthlyCostUsd: costLimitSchema,
+                userDailyTokens: tokenLimitSchema,
+                userMonthlyTokens: tokenLimitSchema,
+                userDailyCostUsd: costLimitSchema,
+                userMonthlyCostUsd: costLimitSchema,
+                hardCap: z.boolean(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'agent:configure',
+            );
+
+            const { workspaceId, ...data } = input;
+            const row = await ctx.db.workspaceBudget.upsert({
+                where: { workspaceId },
+                create: { workspaceId, ...data },
+                update: data,
+            });
+
+            return toUsageBudget(row);
+        }),
+});
@@ -1,24 +1,59 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
 import { mkdir, rmdir, writeFile } from "fs/promises";
 import { join } from "path";
 import { getWorkspaceBaseDir } from "~/lib/workspace-config";
+import { canManageRole, ensureWorkspaceAccess, hasPermission, toMemberRole } from "~/lib/workspace-access";
+import { getWorkspaceAgentConfig, toAgentConfig } from "~/lib/agent-config";
+import { DOMAIN_PATTERN, MAX_TURNS_LIMIT, PERMISSION_MODES, REPLY_LANGUAGES } from "~/types/agent-config";
+import type { WorkspaceMemberInfo } from "~/types/workspace";
+
+const commandRuleSchema = z.object({
+    effect: z.enum(["allow", "deny"]),
+    pattern: z.string().trim().min(1).max(500),
+    roles: z.array(z.enum(["owner", "teacher", "student"])).optional(),
+    reason: z.string().trim().max(200).optional(),
+});
+
+const commandPolicySchema = z.object({
+    defaultEffect: z.enum(["allow", "deny"]),
+    rules: z.array(commandRuleSchema).max(200),
+});
+
+const memberRoleSchema = z.enum(["teacher", "student"]);
 
 export const workSpaceRouter = createTRPCRouter({
     getWorkSpaces: protectedProcedure
         .query(async ({ ctx }) => {
+            const userId = ctx.session.user.id;
+            // 自己拥有的和作为成员加入的工作空间
             const workspaces = await ctx.db.workspace.findMany({
                 where: {
-                    ownerId: ctx.session.user.id,
+                    OR: [
+                        { ownerId: userId },
+                        { members: { some: { userId } } },
+                    ],
+                },
+                include: {
+                    members: {
+                        where: { userId },
+                        select: { role: true },
+                    },
+                    _count: { select: { members: true } },
                 },
+                orderBy: { updatedAt: 'desc' },
             });
             return workspaces.map(workspace => ({
                 id: workspace.id,
                 name: workspace.name,
                 description: workspace.description ?? undefined,
-                memberCount: 1, // 暂时硬编码，之后可以计算实际成员数
-                role: "owner" as const,
+                memberCount: workspace._count.members + 1, // 成员 + 拥有者
+                role: workspace.ownerId === userId
+                    ? "owner" as const
+                    : toMemberRole(workspace.members[0]?.role ?? "student"),
                 updatedAt: workspace.updatedAt,
+                path: workspace.path,
             }));
         }),
     getWorkSpaceById: protectedProcedure
@@ -28,24 +63,25 @@ export const workSpaceRouter = createTRPCRouter({
             }),
         )
         .query(async ({ ctx, input }) => {
-            const workspace = await ctx.db.workspace.findUnique({
-                where: {
-                    id: input.workspaceId,
-                    ownerId: ctx.session.user.id,
-                },
-            });
+            const { workspace, role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:read',
+            );
 
-            if (!workspace) {
-                throw new Error("Workspace not found");
-            }
+            const memberCount = await ctx.db.workspaceMember.count({
+                where: { workspaceId: workspace.id },
+            });
 
             return {
                 id: workspace.id,
                 name: workspace.name,
                 description: workspace.description ?? undefined,
-                memberCount: 1, // 暂时硬编码，之后可以计算实际成员数
-                role: "owner" as const,
+                memberCount: memberCount + 1, // 成员 + 拥有者
+                role,
                 updatedAt: workspace.updatedAt,
+                path: workspace.path,
             };
         }),
     createWorkSpace: protectedProcedure
@@ -145,17 +181,13 @@ ${input.description ?? '这是一个新的工作空间'}
             }),
         )
         .mutation(async ({ ctx, input }) => {
-            // 先获取workspace信息，用于删除文件夹
-            const workspace = await ctx.db.workspace.findUnique({
-                where: {
-                    id: input.workspaceId,
-                    ownerId: ctx.session.user.id, // 确保只能删除自己的workspace
-                },
-            });
-
-            if (!workspace) {
-                throw new Error("Workspace not found");
-            }
+            // 先获取workspace信息，用于删除文件夹（只有拥有者可以删除）
+            const { workspace } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:delete',
+            );
 
             // 删除数据库记录
             const deletedWorkspace = await ctx.db.workspace.delete({
@@ -186,6 +218,13 @@ ${input.description ?? '这是一个新的工作空间'}
             }),
         )
         .mutation(async ({ ctx, input }) => {
+            await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:update',
+            );
+
             const workspace = await ctx.db.workspace.update({
                 where: {
                     id: input.workspaceId,
@@ -197,4 +236,292 @@ ${input.description ?? '这是一个新的工作空间'}
             });
             return workspace;
         }),
-})
\ No newline at end of file
+
+    // ========================
+    // 成员管理
+    // ========================
+
+    getMembers: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .query(async ({ ctx, input }): Promise<WorkspaceMemberInfo[]> => {
+            const { workspace } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:read',
+            );
+
+            const [owner, members] = await Promise.all([
+                ctx.db.user.findUnique({
+                    where: { id: workspace.ownerId },
+                    select: { id: true, name: true, email: true, image: true },
+                }),
+                ctx.db.workspaceMember.findMany({
+                    where: { workspaceId: workspace.id },
+                    include: {
+                        user: { select: { id: true, name: true, email: true, image: true } },
+                    },
+                    orderBy: { joinedAt: 'asc' },
+                }),
+            ]);
+
+            const result: WorkspaceMemberInfo[] = [];
+
+            if (owner) {
+                result.push({
+                    id: null,
+                    userId: owner.id,
+                    name: owner.name,
+                    email: owner.email,
+                    image: owner.image,
+                    role: "owner",
+                    joinedAt: workspace.createdAt,
+                });
+            }
+
+            for (const member of members) {
+                result.push({
+                    id: member.id,
+                    userId: member.userId,
+                    name: member.user.name,
+                    email: member.user.email,
+                    image: member.user.image,
+                    role: toMemberRole(member.role),
+                    joinedAt: member.joinedAt,
+                });
+            }
+
+            return result;
+        }),
+    addMember: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                email: z.string().email(),
+                role: memberRoleSchema.default("student"),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const { workspace, role: actorRole } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'member:manage',
+            );
+
+            if (!canManageRole(actorRole, input.role)) {
+                throw new TRPCError({ code: "FORBIDDEN", message: "无权添加该角色的成员" });
+            }
+
+            const user = await ctx.db.user.findUnique({
+                where: { email: input.email },
+                select: { id: true },
+            });
+
+            if (!user) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "该邮箱尚未注册" });
+            }
+
+            if (user.id === workspace.ownerId) {
+                throw new TRPCError({ code: "CONFLICT", message: "该用户是工作空间拥有者" });
+            }
+
+            const existing = await ctx.db.workspaceMember.findUnique({
+                where: { workspaceId_userId: { workspaceId: workspace.id, userId: user.id } },
+            });
+
+            if (existing) {
+                throw new TRPCError({ code: "CONFLICT", message: "该用户已是工作空间成员" });
+            }
+
+            return await ctx.db.workspaceMember.create({
+                data: {
+                    workspaceId: workspace.id,
+                    userId: user.id,
+                    role: input.role,
+                    invitedBy: ctx.session.user.id,
+                },
+            });
+        }),
+    updateMemberRole: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                memberId: z.string(),
+                role: memberRoleSchema,
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const { role: actorRole } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'member:manage',
+            );
+
+            const member = await ctx.db.workspaceMember.findUnique({
+                where: { id: input.memberId, workspaceId: input.workspaceId },
+            });
+
+            if (!member) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "成员不存在" });
+            }
+
+            // 修改前后的角色都必须在管理范围内
+            if (!canManageRole(actorRole, toMemberRole(member.role)) || !canManageRole(actorRole, input.role)) {
+                throw new TRPCError({ code: "FORBIDDEN", message: "无权修改该成员的角色" });
+            }
+
+            return await ctx.db.workspaceMember.update({
+                where: { id: member.id },
+                data: { role: input.role },
+            });
+        }),
+    removeMember: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                memberId: z.string(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const { role: actorRole } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'member:manage',
+            );
+
+            const member = await ctx.db.workspaceMember.findUnique({
+                where: { id: input.memberId, workspaceId: input.workspaceId },
+            });
+
+            if (!member) {
+                throw new TRPCError({ code: "NOT_FOUND", message: "成员不存在" });
+            }
+
+            if (!canManageRole(actorRole, toMemberRole(member.role))) {
+                throw new TRPCError({ code: "FORBIDDEN", message: "无权移除该成员" });
+            }
+
+            await ctx.db.workspaceMember.delete({ where: { id: member.id } });
+
+            return { success: true };
+        }),
+    leaveWorkSpace: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            const { role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:read',
+            );
+
+            if (role === "owner") {
+                throw new TRPCError({ code: "BAD_REQUEST", message: "拥有者不能退出工作空间，请删除工作空间" });
+            }
+
+            await ctx.db.workspaceMember.delete({
+                where: {
+                    workspaceId_userId: {
+                        workspaceId: input.workspaceId,
+                        userId: ctx.session.user.id,
+                    },
+                },
+            });
+
+            return { success: true };
+        }),
+
+    // ========================
+    // Agent 配置
+    // ========================
+    getAgentConfig: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            const { role } = await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'workspace:read',
+            );
+
+            return {
+                config: await getWorkspaceAgentConfig(ctx.db, input.workspaceId),
+                canEdit: hasPermission(role, 'agent:configure'),
+            };
+        }),
+    updateAgentConfig: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                model: z.string().trim().max(100).nullable(),
+                maxTurns: z.number().int().min(1).max(MAX_TURNS_LIMIT),
+                permissionMode: z.enum(PERMISSION_MODES),
+                allowedTools: z.array(z.string().trim().min(1).max(200)).max(100),
+                disallowedTools: z.array(z.string().trim().min(1).max(200)).max(100),
+                systemPrompt: z.string().max(4000),
+                language: z.enum(REPLY_LANGUAGES),
+                commandPolicy: commandPolicySchema,
+                allowedDomains: z
+                    .array(z.string().trim().toLowerCase().regex(DOMAIN_PATTERN, "域名格式不正确"))
+                    .max(100),
+            }),
+        )
+        .mutation(async ({ ctx, input }) => {
+            await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'agent:configure',
+            );
+
+            const { workspaceId, ...config } = input;
+            const data = {
+                ...config,
+                model: config.model === "" ? null : config.model,  // 空字符串视为使用默认模型
+            };
+
+            const row = await ctx.db.workspaceAgentConfig.upsert({
+                where: { workspaceId },
+                create: { workspaceId, ...data },
+                update: data,
+            });
+
+            return toAgentConfig(row);
+        }),
+    getCommandLogs: protectedProcedure
+        .input(
+            z.object({
+                workspaceId: z.string().cuid(),
+                limit: z.number().int().min(1).max(200).default(50),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            await ensureWorkspaceAccess(
+                ctx.db,
+                input.workspaceId,
+                ctx.session.user.id,
+                'agent:configure',
+            );
+
+            return await ctx.db.commandPolicyLog.findMany({
+                where: { workspaceId: input.workspaceId },
+                orderBy: { createdAt: 'desc' },
+                take: input.limit,
+            });
+        }),
+})
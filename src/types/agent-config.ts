@@ -0,0 +1,42 @@
+import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk';
+import { DEFAULT_COMMAND_POLICY, type CommandPolicy } from './command-policy';
+
+/**
+ * 工作区级别的 Agent 配置
+ * worker 构建 query() 参数时读取
+ */
+export interface AgentConfig {
+  model: string | null;  // 为空时使用 SDK 默认模型
+  maxTurns: number;
+  permissionMode: PermissionMode;
+  allowedTools: string[];  // 为空表示不限制
+  disallowedTools: string[];
+  systemPrompt: string;  // 追加到系统提示词的额外内容
+  language: ReplyLanguage;
+  commandPolicy: CommandPolicy;  // Bash 工具的命令策略
+  allowedDomains: string[];  // srt 沙箱允许访问的域名，为空表示禁止联网
+}
+
+export type ReplyLanguage = 'zh-CN' | 'en' | 'auto';
+
+export const PERMISSION_MODES = ['default', 'acceptEdits', 'bypassPermissions', 'plan'] as const satisfies readonly PermissionMode[];
+
+export const REPLY_LANGUAGES = ['zh-CN', 'en', 'auto'] as const satisfies readonly ReplyLanguage[];
+
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  model: null,
+  maxTurns: 30,
+  permissionMode: 'bypassPermissions',
+  allowedTools: [],
+  disallowedTools: [],
+  systemPrompt: '',
+  language: 'zh-CN',
+  commandPolicy: DEFAULT_COMMAND_POLICY,
+  allowedDomains: [],
+};
+
+// 回合数上限
+export const MAX_TURNS_LIMIT = 200;
+
+// 沙箱域名格式，支持 *.example.com 通配子域名
+export const DOMAIN_PATTERN = /^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/i;
@@ -0,0 +1,52 @@
+import type { UsageTotals } from './usage';
+
+/**
+ * 工作区用量预算
+ * 为空表示不限制；工作区预算统计所有成员，成员预算统计单个用户
+ */
+export interface UsageBudget {
+  workspaceDailyTokens: number | null;
+  workspaceMonthlyTokens: number | null;
+  workspaceDailyCostUsd: number | null;
+  workspaceMonthlyCostUsd: number | null;
+  userDailyTokens: number | null;
+  userMonthlyTokens: number | null;
+  userDailyCostUsd: number | null;
+  userMonthlyCostUsd: number | null;
+  hardCap: boolean;  // 运行中超出 token 预算时立即停止
+}
+
+export type BudgetScope = 'workspace' | 'user';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'tokens' | 'cost';
+
+/**
+ * 超出的预算项
+ */
+export interface BudgetViolation {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+}
+
+/**
+ * 当前周期内已使用的用量
+ */
+export interface BudgetUsage {
+  workspace: Record<BudgetPeriod, UsageTotals>;
+  user: Record<BudgetPeriod, UsageTotals>;
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  workspaceDailyTokens: null,
+  workspaceMonthlyTokens: null,
+  workspaceDailyCostUsd: null,
+  workspaceMonthlyCostUsd: null,
+  userDailyTokens: null,
+  userMonthlyTokens: null,
+  userDailyCostUsd: null,
+  userMonthlyCostUsd: null,
+  hardCap: true,
+};
@@ -0,0 +1,46 @@
+import type { WorkspaceRole } from './workspace';
+
+/**
+ * 命令策略
+ * Bash 工具执行前，命令会被拆分为各个简单命令（管道、;、&&、子 shell、命令替换），
+ * 每个简单命令都需要通过规则检查，整条命令才会被放行
+ */
+export type CommandEffect = 'allow' | 'deny';
+
+export interface CommandRule {
+  effect: CommandEffect;
+  pattern: string;  // glob 模式，* 匹配任意字符，如 "srt *"、"rm -rf *"
+  roles?: WorkspaceRole[];  // 仅对这些角色生效，为空表示所有角色
+  reason?: string;  // 命中时反馈给 agent 的说明
+}
+
+export interface CommandPolicy {
+  defaultEffect: CommandEffect;  // 没有规则命中时的处理
+  rules: CommandRule[];
+}
+
+/**
+ * 单个简单命令的判定结果
+ */
+export interface CommandSegmentDecision {
+  command: string;
+  effect: CommandEffect;
+  rule?: CommandRule;
+}
+
+/**
+ * 整条命令的判定结果
+ */
+export interface CommandDecision {
+  allowed: boolean;
+  reason: string;
+  segments: CommandSegmentDecision[];
+}
+
+// 默认策略：只允许通过 srt 沙箱执行命令
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  defaultEffect: 'deny',
+  rules: [
+    { effect: 'allow', pattern: 'srt *', reason: '只允许通过 srt 沙箱执行命令' },
+  ],
+};
@@ -0,0 +1,26 @@
+/**
+ * 工具调用审批
+ * 工作区权限模式为 default（逐项审批）时，worker 在执行工具前等待用户批准
+ */
+export type PermissionRequestStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export interface ToolPermissionRequestInfo {
+  id: string;
+  agentSessionId: string;  // AgentSession.id
+  toolName: string;
+  toolUseId: string | null;  // 对应 tool_use 块的 id，用于在消息中定位
+  input: Record<string, unknown>;
+  status: PermissionRequestStatus;
+  alwaysAllow: boolean;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * 用户的审批决定
+ */
+export interface PermissionDecision {
+  behavior: 'allow' | 'deny';
+  alwaysAllow?: boolean;  // 本会话内该工具不再询问
+  message?: string;  // 拒绝时反馈给 agent 的说明
+}
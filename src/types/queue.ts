@@ -1,15 +1,70 @@
 import type { TaskStatus } from './status';
+import type { UsageTotals } from './usage';
 
 /**
  * Agent 任务数据
  * BullMQ job 的数据结构
  */
 export interface AgentTaskData {
-  id: string; // 数据库主键
+  id?: string; // 数据库主键，定时任务触发时为空，由 worker 创建会话
   sessionId?: string; // Claude 的 sessionId（用于恢复对话）
   query: string;
   workspaceId: string;
   userId: string;
+  scheduledTaskId?: string; // 触发本次运行的定时任务
+  startedSessionId?: string; // 本任务已开始执行的 Claude sessionId，重试时从该会话恢复而不是重新发送提示
+  attempts?: JobAttempt[]; // 每次尝试的记录
+}
+
+/**
+ * Agent 任务结果
+ * processAgentTask 的返回值，保存在 job.returnvalue 中
+ */
+export interface AgentTaskResult {
+  success: boolean;
+  id?: string;
+  sessionId?: string | null;
+  interrupted?: boolean; // 被用户中断，不再自动发送待发送的提示
+}
+
+/**
+ * 任务失败原因分类
+ * rate_limit / network / sdk_crash 为暂时性错误，会自动重试
+ */
+export type JobErrorKind = 'rate_limit' | 'network' | 'sdk_crash' | 'cancelled' | 'budget' | 'unknown';
+
+/**
+ * 任务的一次尝试
+ */
+export interface JobAttempt {
+  attempt: number;  // 第几次尝试，从 1 开始
+  startedAt: number;
+  finishedAt: number | null;
+  resumed: boolean;  // 是否通过恢复 SDK 会话继续执行
+  errorKind: JobErrorKind | null;
+  error: string | null;
+  willRetry: boolean;  // 失败后是否会自动重试
+}
+
+/**
+ * TodoWrite 工具的一项任务
+ */
+export interface AgentTodo {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  activeForm?: string;  // 进行中时显示的描述
+}
+
+/**
+ * Agent 运行进度
+ * worker 根据消息流生成，保存为 BullMQ job 的 progress，并实时推送给前端
+ */
+export interface AgentProgress {
+  turn: number;  // 当前回合（模型响应次数）
+  maxTurns: number;
+  todos: AgentTodo[];  // 最近一次 TodoWrite 的任务列表
+  activeTool: string | null;  // 正在执行的工具
+  startedAt: number;  // 本次运行开始时间（毫秒时间戳），前端据此显示已运行时长
 }
 
 /**
@@ -24,11 +79,23 @@ export type SessionWithStatus = {
   createdAt: Date;
   updatedAt: Date;
   status: TaskStatus;
-  progress: number;
+  queuePosition?: number | null;  // 排队位置（从 1 开始），仅 queued 状态且在等待列表中时有值
+  estimatedStartAt?: number | null;  // 预计开始时间（毫秒时间戳），根据最近任务的平均耗时估算
+  progress: AgentProgress | null;  // 运行中任务的进度
   isActive: boolean;
   attemptsMade: number;
   attemptsRemaining: number;
   failedReason: string | null;
+  attempts?: JobAttempt[];  // 最近一次任务的尝试记录
+  pendingPermissions?: number;  // 等待用户审批的工具调用数
+  usage?: UsageTotals;  // 会话累计用量
+  parentId?: string | null;  // 分支来源会话
+  branchPromptIndex?: number | null;  // 分支后第一条用户提示的序号
+  summary?: string | null;  // 自动生成的摘要
+  titleEdited?: boolean;
+  pinnedAt?: Date | null;
+  archivedAt?: Date | null;
+  scheduledTaskId?: string | null;  // 创建该会话的定时任务
   processedAt?: number | null;
   finishedAt?: number | null;
 } & Record<string, unknown>;
@@ -41,4 +108,53 @@ export interface AddTaskParams {
   workspaceId: string;
   userId: string;
   query: string;
-}
\ No newline at end of file
+  jobId?: string;  // 固定的 job ID，重复入队时 BullMQ 返回已有任务而不是新建
+}
+/**
+ * Worker 心跳信息
+ * 每个 worker 进程定期写入 Redis，用于健康检查和监控
+ */
+export interface WorkerHeartbeat {
+  instanceId: string;
+  hostname: string;
+  pid: number;
+  embedded: boolean;  // 是否运行在 Next.js 进程内
+  concurrency: number;
+  activeJobs: string[];
+  status: 'running' | 'draining';
+  startedAt: number;
+  lastHeartbeat: number;
+}
+
+/**
+ * 队列中的任务（管理后台展示）
+ */
+export type QueueJobState = 'active' | 'waiting' | 'prioritized' | 'delayed' | 'failed';
+
+export interface QueueJobInfo {
+  id: string;
+  state: QueueJobState;
+  position: number | null;  // 等待中任务的排队位置（从 1 开始）
+  sessionId: string | null;  // 数据库会话 ID，定时任务尚未开始时为空
+  title: string | null;
+  workspaceName: string | null;
+  userName: string | null;
+  scheduledTaskId: string | null;
+  priority: number;
+  attemptsMade: number;
+  failedReason: string | null;
+  timestamp: number;  // 入队时间
+  processedOn: number | null;
+  finishedOn: number | null;
+  delayUntil: number | null;  // 延迟任务的计划执行时间
+}
+
+/**
+ * 队列概览（管理后台）
+ */
+export interface QueueOverview {
+  counts: Record<QueueJobState | 'completed', number>;
+  jobs: QueueJobInfo[];
+  workers: WorkerHeartbeat[];
+  averageDurationMs: number | null;  // 最近完成任务的平均耗时
+}
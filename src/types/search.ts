@@ -0,0 +1,10 @@
+/**
+ * 会话消息搜索结果
+ */
+export interface MessageSearchResult {
+  id: string;  // 会话的内部 ID
+  title: string;
+  messageIndex: number;  // 匹配消息在会话中的位置（AgentMessage.seq）
+  snippet: string;  // 匹配位置附近的文本
+  updatedAt: Date;
+}
@@ -0,0 +1,34 @@
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+
+/**
+ * 会话导出格式
+ * markdown / html 为可读的对话记录，json 为原始 SDK 消息
+ */
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * 导出所需的会话数据
+ */
+export interface SessionTranscript {
+  id: string;
+  title: string;
+  workspaceName: string;
+  userName: string;
+  createdAt: Date;
+  messages: SDKMessage[];
+}
+
+/**
+ * 导出结果
+ */
+export interface SessionExport {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
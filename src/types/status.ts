@@ -1,12 +1,14 @@
 /**
  * 统一的任务状态定义
- * 整个项目只使用这4种状态，不直接暴露BullMQ的内部状态
+ * 整个项目只使用这5种状态，不直接暴露BullMQ的内部状态
+ * queued 表示任务已入队，正在等待空闲的 worker
  */
-export type TaskStatus = 'idle' | 'running' | 'completed' | 'failed';
+export type TaskStatus = 'idle' | 'queued' | 'running' | 'completed' | 'failed';
 
 // 状态常量，避免手误
 export const TASK_STATUS = {
   IDLE: 'idle',
+  QUEUED: 'queued',
   RUNNING: 'running',
   COMPLETED: 'completed',
   FAILED: 'failed'
@@ -14,6 +16,7 @@ export const TASK_STATUS = {
 
 // 辅助函数：检查状态
 export const TaskStatusHelper = {
+  isQueued: (status: TaskStatus): boolean => status === 'queued',
   isRunning: (status: TaskStatus): boolean => status === 'running',
   isCompleted: (status: TaskStatus): boolean => status === 'completed',
   isFailed: (status: TaskStatus): boolean => status === 'failed',
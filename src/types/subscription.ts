@@ -1,30 +1,47 @@
-import type { Query, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { PermissionMode, Query, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import type { TaskStatus } from './status';
+import type { PermissionDecision, ToolPermissionRequestInfo } from './permission';
+import type { AgentProgress } from './queue';
 
 /**
  * 消息类型定义
  * 用于 agent 与前端之间的通信
  */
 export interface Message {
-  type: 'init' | 'message_update' | 'completed' | 'failed';
+  type: 'init' | 'message_update' | 'completed' | 'failed' | 'permission_request' | 'permission_resolved' | 'session_updated' | 'queue_update' | 'progress_update';
   id: string;  // 数据库内部 ID
   sessionId: string | null;  // Claude 的 sessionId
   status?: TaskStatus;  // 使用统一的 TaskStatus
-  progress?: number;
-  messages?: SDKMessage[];  // 最新消息列表
-  title?: string;
+  progress?: AgentProgress | null;  // init / progress_update 事件携带的运行进度
+  queuePosition?: number | null;  // init / queue_update 事件携带的排队位置
+  estimatedStartAt?: number | null;  // 预计开始时间（毫秒时间戳）
+  messages?: SDKMessage[];  // 增量消息：init 为游标之后的全部消息，message_update 为新增消息
+  cursor?: number;  // 已推送的最后一条消息序号（AgentMessage.seq）
+  title?: string;  // session_updated 事件携带新的标题
   createdAt?: Date;
   timestamp?: Date;
   error?: string;  // 错误信息，用于 failed 状态
+  permissionRequest?: ToolPermissionRequestInfo;  // permission_request / permission_resolved 事件携带
+  pendingPermissions?: ToolPermissionRequestInfo[];  // init 事件携带当前待审批的请求
 }
 
+/**
+ * 运行中的会话可以接收的控制操作（流式输入模式）
+ */
+export type QueryControl =
+  | { action: 'inject'; prompt: string }  // 插话：运行中追加一条用户消息
+  | { action: 'set_model'; model: string | null }  // null 表示恢复工作区配置
+  | { action: 'set_permission_mode'; mode: PermissionMode | null };
+
 // SubscriptionManager 类型
 export interface SubscriptionManager {
   register: (id: string, fn: (data: Message) => void) => void;
-  unregister: (id: string) => void;
+  unregister: (id: string, fn: (data: Message) => void) => void;
   emit: (id: string, data: Message) => void;
-  registerQuery: (id: string, query: Query) => void;
+  registerQuery: (id: string, query: Query, onControl?: (control: QueryControl) => Promise<void>) => void;
   unregisterQuery: (id: string) => void;
   interruptQuery: (id: string) => Promise<boolean>;
+  controlQuery: (id: string, control: QueryControl) => Promise<boolean>;
+  respondPermission: (id: string, requestId: string, decision: PermissionDecision) => Promise<void>;
   hasActiveQuery: (id: string) => boolean;
 }
\ No newline at end of file
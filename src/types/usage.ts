@@ -0,0 +1,48 @@
+/**
+ * 用量统计
+ * 每次运行结束时根据 SDK 的 result 消息记录一条 UsageRecord
+ */
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+  numTurns: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  runs: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+  numTurns: 0,
+};
+
+/**
+ * 按工作区汇总
+ */
+export interface WorkspaceUsage {
+  workspaceId: string;
+  workspaceName: string;
+  totals: UsageTotals;
+}
+
+/**
+ * 按用户汇总
+ */
+export interface UserUsage {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  totals: UsageTotals;
+}
+
+// 统计周期（天）
+export const USAGE_PERIODS = [7, 30, 90] as const;
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
@@ -0,0 +1,44 @@
+/**
+ * 工作区角色定义
+ * owner 由 Workspace.ownerId 决定，teacher/student 存储在 WorkspaceMember.role 中
+ */
+export type WorkspaceRole = 'owner' | 'teacher' | 'student';
+
+// 可分配给成员的角色（owner 不能通过邀请获得）
+export type MemberRole = Exclude<WorkspaceRole, 'owner'>;
+
+export const WORKSPACE_ROLE = {
+  OWNER: 'owner',
+  TEACHER: 'teacher',
+  STUDENT: 'student'
+} as const;
+
+/**
+ * 工作区权限
+ * 各路由只关心权限，不直接判断角色
+ */
+export type WorkspacePermission =
+  | 'workspace:read'
+  | 'workspace:update'
+  | 'workspace:delete'
+  | 'member:manage'
+  | 'file:read'
+  | 'file:write'
+  | 'agent:run'
+  | 'agent:configure'
+  | 'usage:read'
+  | 'session:review'
+  | 'plugin:import';
+
+/**
+ * 工作区成员信息
+ */
+export interface WorkspaceMemberInfo {
+  id: string | null;  // WorkspaceMember 主键，owner 为 null
+  userId: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
@@ -0,0 +1,73 @@
+/**
+ * 独立 Agent Worker 进程入口
+ * 用法：npm run worker（配合 Web 端 EMBEDDED_WORKER=false）
+ * - 从 agent-tasks 队列领取任务并执行 processAgentTask
+ * - SIGTERM/SIGINT 时停止领取新任务，等待进行中的任务完成后退出
+ * - 定期向 Redis 上报心跳，并提供 HTTP 健康检查 /healthz
+ */
+
+import { createServer } from 'http';
+import { createAgentWorker, getPrisma, getWorkerConcurrency } from '~/lib/bullmq-worker';
+import { instanceId, redisConnection } from '~/lib/redis';
+import { closeSubscriptionManager } from '~/lib/subscription-manager';
+import { closeAllLiveSessions } from '~/lib/live-session';
+import { drainWorker, getDrainTimeout, startWorkerHeartbeat } from '~/lib/worker-health';
+
+const concurrency = getWorkerConcurrency();
+const healthPort = parseInt(process.env.WORKER_HEALTH_PORT ?? '3001');
+
+const worker = createAgentWorker(redisConnection, concurrency);
+const heartbeat = startWorkerHeartbeat(worker, { concurrency, embedded: false });
+
+worker.on('active', (job) => console.log(`🚀 Worker picked up job ${job.id}`));
+worker.on('completed', (job) => console.log(`🎉 Worker completed job ${job?.id}`));
+worker.on('failed', (job, err) => console.error(`💥 Worker failed job ${job?.id}:`, err.message));
+worker.on('error', (err) => console.error('Worker error:', err));
+
+// 健康检查：健康返回 200，排空中或心跳异常返回 503
+const healthServer = createServer((req, res) => {
+  if (req.url !== '/healthz') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const healthy = heartbeat.isHealthy();
+  res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ healthy, ...heartbeat.snapshot() }));
+});
+
+healthServer.listen(healthPort, () => {
+  console.log(`✅ Agent worker ${instanceId} started`);
+  console.log(`   - Queue: agent-tasks`);
+  console.log(`   - Concurrency: ${concurrency}`);
+  console.log(`   - Health check: http://localhost:${healthPort}/healthz`);
+});
+
+// 优雅关闭
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`\n🔄 Received ${signal}, draining worker...`);
+
+  await drainWorker(worker, heartbeat, getDrainTimeout());
+  closeAllLiveSessions();
+  healthServer.close();
+  await Promise.all([
+    closeSubscriptionManager(),
+    redisConnection.quit(),
+    getPrisma().$disconnect(),
+  ]);
+
+  console.log('👋 Worker stopped');
+  process.exit(0);
+}
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.on(signal, () => {
+    shutdown(signal).catch(err => {
+      console.error('Error during shutdown:', err);
+      process.exit(1);
+    });
+  });
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// 单元测试只覆盖不依赖数据库、Redis 的纯逻辑模块
+export default defineConfig({
+  resolve: {
+    alias: {
+      "~": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});